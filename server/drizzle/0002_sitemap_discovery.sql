@@ -0,0 +1,2 @@
+-- Resolved sitemaps per audit (sitemap_url keeps the original input, e.g. a bare domain)
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "sitemap_urls" jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,2 @@
+-- Include/exclude patterns, URL cap and sampling used to scope the audit
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "url_filter" jsonb;
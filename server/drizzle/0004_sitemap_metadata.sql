@@ -0,0 +1,10 @@
+-- Sitemap metadata per page
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "lastmod" timestamp;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "changefreq" text;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "priority" real;
+
+-- Incremental audits: only pages modified since this date
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "modified_since" timestamp;
+
+-- Crawl jobs are picked up in insertion order
+CREATE INDEX IF NOT EXISTS "job_queue_created_at_idx" ON "app"."job_queue"("created_at");
@@ -0,0 +1,3 @@
+-- Crawler backend per audit
+CREATE TYPE "app"."crawler_backend" AS ENUM('html', 'jina');
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "crawler_backend" "app"."crawler_backend" NOT NULL DEFAULT 'jina';
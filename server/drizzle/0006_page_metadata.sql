@@ -0,0 +1,18 @@
+-- Structured metadata captured while crawling
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "http_status" integer;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "final_url" text;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "canonical_url" text;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "meta_description" text;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "lang" text;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "hreflang" jsonb;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "headings" jsonb;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "word_count" integer;
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "response_headers" jsonb;
+
+-- Raw HTML per crawled page
+CREATE TABLE IF NOT EXISTS "app"."audit_page_html" (
+	"page_id" uuid PRIMARY KEY,
+	"html" text NOT NULL,
+	"fetched_at" timestamp NOT NULL DEFAULT now(),
+	FOREIGN KEY ("page_id") REFERENCES "app"."audit_pages"("id") ON DELETE CASCADE
+);
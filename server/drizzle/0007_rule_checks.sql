@@ -0,0 +1,8 @@
+-- Issue types produced by the local rule engine
+ALTER TYPE "app"."issue_type" ADD VALUE IF NOT EXISTS 'readability';
+ALTER TYPE "app"."issue_type" ADD VALUE IF NOT EXISTS 'metadata';
+ALTER TYPE "app"."issue_type" ADD VALUE IF NOT EXISTS 'formatting';
+
+-- Where an issue came from: the AI analyzer or a deterministic rule
+CREATE TYPE "app"."issue_source" AS ENUM('ai', 'rule');
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "source" "app"."issue_source" NOT NULL DEFAULT 'ai';
@@ -0,0 +1,18 @@
+-- Audit-level analysis step after all pages are analyzed
+ALTER TYPE "app"."job_type" ADD VALUE IF NOT EXISTS 'analyze_audit';
+ALTER TYPE "app"."issue_type" ADD VALUE IF NOT EXISTS 'duplicate_content';
+
+-- Clusters of pages with near-identical content
+CREATE TABLE IF NOT EXISTS "app"."duplicate_clusters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+	"audit_id" uuid NOT NULL,
+	"similarity" real NOT NULL,
+	"page_count" integer NOT NULL,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	FOREIGN KEY ("audit_id") REFERENCES "app"."audits"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "duplicate_clusters_audit_id_idx" ON "app"."duplicate_clusters"("audit_id");
+
+-- duplicate_content issues point to their cluster
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "cluster_id" uuid REFERENCES "app"."duplicate_clusters"("id") ON DELETE CASCADE;
@@ -0,0 +1,4 @@
+-- Cross-page findings reference the other page and its conflicting text
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "related_page_id" uuid REFERENCES "app"."audit_pages"("id") ON DELETE CASCADE;
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "related_url" text;
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "related_snippet" text;
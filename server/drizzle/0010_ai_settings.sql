@@ -0,0 +1,7 @@
+-- AI model settings per audit
+CREATE TYPE "app"."ai_provider" AS ENUM('openai', 'anthropic');
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "ai_provider" "app"."ai_provider";
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "ai_model" text;
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "ai_base_url" text;
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "ai_temperature" real;
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "ai_max_tokens" integer;
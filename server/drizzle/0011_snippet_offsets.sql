@@ -0,0 +1,2 @@
+-- Position of an issue's snippet in the page content (chunked analysis maps it back to the full page)
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "snippet_offset" integer;
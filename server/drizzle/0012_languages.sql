@@ -0,0 +1,4 @@
+-- Detected page language and optional target language per audit
+ALTER TYPE "app"."page_status" ADD VALUE IF NOT EXISTS 'skipped';
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "detected_language" text;
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "target_language" text;
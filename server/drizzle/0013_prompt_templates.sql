@@ -0,0 +1,24 @@
+-- Analysis prompts editable at runtime, with immutable versions
+CREATE TABLE IF NOT EXISTS "app"."prompt_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+	"name" text NOT NULL UNIQUE,
+	"description" text,
+	"is_default" boolean NOT NULL DEFAULT false,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	"updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "app"."prompt_template_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+	"template_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"content" text NOT NULL,
+	"created_by" text,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	CONSTRAINT "prompt_template_versions_template_version_unique" UNIQUE ("template_id", "version"),
+	FOREIGN KEY ("template_id") REFERENCES "app"."prompt_templates"("id") ON DELETE CASCADE,
+	FOREIGN KEY ("created_by") REFERENCES "app"."users"("id") ON DELETE SET NULL
+);
+
+-- Prompt version an audit was analyzed with (null = built-in prompt)
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "prompt_version_id" uuid REFERENCES "app"."prompt_template_versions"("id") ON DELETE RESTRICT;
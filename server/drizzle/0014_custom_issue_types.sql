@@ -0,0 +1,50 @@
+-- Issue types become data: built-in types plus types defined for custom checks
+CREATE TABLE IF NOT EXISTS "app"."issue_types" (
+	"key" text PRIMARY KEY,
+	"label" text NOT NULL,
+	"description" text,
+	"color" text NOT NULL DEFAULT 'gray',
+	"is_builtin" boolean NOT NULL DEFAULT false,
+	"user_id" text,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	FOREIGN KEY ("user_id") REFERENCES "app"."users"("id") ON DELETE CASCADE
+);
+
+INSERT INTO "app"."issue_types" ("key", "label", "description", "color", "is_builtin") VALUES
+	('grammar', 'Grammatik', 'Grammatik- und Rechtschreibfehler', 'blue', true),
+	('redundancy', 'Redundanz', 'Wiederholte Phrasen oder Absätze', 'yellow', true),
+	('contradiction', 'Widerspruch', 'Widersprüchliche Informationen', 'red', true),
+	('placeholder', 'Platzhalter', 'Lorem Ipsum, TODO, "[hier einfügen]"', 'orange', true),
+	('empty', 'Leer', 'Fehlende oder leere Beschreibungen, zu wenig Text', 'gray', true),
+	('readability', 'Lesbarkeit', 'Überlange Sätze', 'purple', true),
+	('metadata', 'Metadaten', 'Fehlende Meta-Description', 'teal', true),
+	('formatting', 'Formatierung', 'Defektes Markdown, HTML-Reste, nicht dekodierte Entities', 'pink', true),
+	('duplicate_content', 'Duplikat', 'Nahezu identischer Inhalt wie andere Seiten des Audits', 'indigo', true)
+ON CONFLICT ("key") DO NOTHING;
+
+ALTER TABLE "app"."audit_issues" ALTER COLUMN "issue_type" TYPE text USING "issue_type"::text;
+ALTER TABLE "app"."audit_issues" ADD CONSTRAINT "audit_issues_issue_type_fk" FOREIGN KEY ("issue_type") REFERENCES "app"."issue_types"("key");
+DROP TYPE IF EXISTS "app"."issue_type";
+
+-- Custom checks (brand style guide): pattern-based ones run locally, "ai" ones are added to the prompt
+CREATE TYPE "app"."style_rule_kind" AS ENUM('forbidden_terms', 'required_spelling', 'pattern', 'ai');
+
+CREATE TABLE IF NOT EXISTS "app"."style_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+	"user_id" text,
+	"issue_type" text NOT NULL,
+	"name" text NOT NULL,
+	"kind" "app"."style_rule_kind" NOT NULL,
+	"terms" jsonb NOT NULL DEFAULT '[]',
+	"pattern" text,
+	"instruction" text,
+	"severity" "app"."severity" NOT NULL DEFAULT 'medium',
+	"suggestion" text,
+	"enabled" boolean NOT NULL DEFAULT true,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	"updated_at" timestamp NOT NULL DEFAULT now(),
+	FOREIGN KEY ("user_id") REFERENCES "app"."users"("id") ON DELETE CASCADE,
+	FOREIGN KEY ("issue_type") REFERENCES "app"."issue_types"("key")
+);
+
+CREATE INDEX IF NOT EXISTS "style_rules_user_id_idx" ON "app"."style_rules"("user_id");
@@ -0,0 +1,2 @@
+-- AI issues dropped because they did not match the issue schema (counted instead of silently discarded)
+ALTER TABLE "app"."audit_pages" ADD COLUMN IF NOT EXISTS "rejected_ai_issues" integer DEFAULT 0 NOT NULL;
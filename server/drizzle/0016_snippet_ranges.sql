@@ -0,0 +1,8 @@
+-- End and match confidence of an issue's snippet position (approximate matches of loosely quoted snippets)
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "snippet_end" integer;
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "snippet_confidence" real;
+
+-- Positions found so far were exact or case-insensitive matches of the trimmed snippet
+UPDATE "app"."audit_issues"
+SET "snippet_end" = "snippet_offset" + length(btrim("snippet", E' \t\r\n')), "snippet_confidence" = 1
+WHERE "snippet_offset" IS NOT NULL AND "snippet_end" IS NULL;
@@ -0,0 +1,22 @@
+-- Triage state of an issue: status, assignee and comment set by editors
+CREATE TYPE "app"."issue_status" AS ENUM('open', 'accepted', 'false_positive', 'fixed', 'wont_fix');
+
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "status" "app"."issue_status" NOT NULL DEFAULT 'open';
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "assignee_id" text REFERENCES "app"."users"("id") ON DELETE SET NULL;
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "comment" text;
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "triaged_by" text REFERENCES "app"."users"("id") ON DELETE SET NULL;
+ALTER TABLE "app"."audit_issues" ADD COLUMN IF NOT EXISTS "triaged_at" timestamp;
+
+-- False positives by URL, issue type and snippet; matching findings are dropped in later audits
+CREATE TABLE IF NOT EXISTS "app"."issue_suppressions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+	"url" text NOT NULL,
+	"issue_type" text NOT NULL,
+	"snippet_key" text NOT NULL,
+	"snippet" text NOT NULL,
+	"created_by" text,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	CONSTRAINT "issue_suppressions_url_type_snippet_unique" UNIQUE ("url", "issue_type", "snippet_key"),
+	FOREIGN KEY ("issue_type") REFERENCES "app"."issue_types"("key") ON DELETE CASCADE,
+	FOREIGN KEY ("created_by") REFERENCES "app"."users"("id") ON DELETE SET NULL
+);
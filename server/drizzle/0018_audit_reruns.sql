@@ -0,0 +1,4 @@
+-- Re-runs of an audit point at the audit they repeat, so runs can be compared
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "previous_audit_id" uuid REFERENCES "app"."audits"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "audits_previous_audit_id_idx" ON "app"."audits"("previous_audit_id");
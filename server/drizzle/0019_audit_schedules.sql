@@ -0,0 +1,49 @@
+-- Recurring audits: schedules, their run history and the job that starts them
+CREATE TYPE "app"."schedule_frequency" AS ENUM('daily', 'weekly', 'monthly', 'cron');
+ALTER TYPE "app"."job_type" ADD VALUE IF NOT EXISTS 'schedule_audit';
+
+-- Jobs can wait for a point in time (schedule_audit jobs are enqueued for the next run)
+ALTER TABLE "app"."job_queue" ADD COLUMN IF NOT EXISTS "run_at" timestamp;
+
+CREATE TABLE IF NOT EXISTS "app"."audit_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+	"user_id" text,
+	"name" text NOT NULL,
+	"sitemap_url" text NOT NULL,
+	"discover_sitemaps" boolean NOT NULL DEFAULT false,
+	"frequency" "app"."schedule_frequency" NOT NULL,
+	"cron_expression" text,
+	"enabled" boolean NOT NULL DEFAULT true,
+	"rate_limit_ms" integer NOT NULL DEFAULT 1000,
+	"crawler_backend" "app"."crawler_backend",
+	"url_filter" jsonb,
+	"ai_provider" "app"."ai_provider",
+	"ai_model" text,
+	"ai_base_url" text,
+	"ai_temperature" real,
+	"ai_max_tokens" integer,
+	"target_language" text,
+	"prompt_template_id" uuid,
+	"next_run_at" timestamp,
+	"last_run_at" timestamp,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	"updated_at" timestamp NOT NULL DEFAULT now(),
+	FOREIGN KEY ("user_id") REFERENCES "app"."users"("id") ON DELETE SET NULL,
+	FOREIGN KEY ("prompt_template_id") REFERENCES "app"."prompt_templates"("id") ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS "app"."audit_schedule_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+	"schedule_id" uuid NOT NULL,
+	"audit_id" uuid,
+	"scheduled_for" timestamp NOT NULL,
+	"error" text,
+	"created_at" timestamp NOT NULL DEFAULT now(),
+	FOREIGN KEY ("schedule_id") REFERENCES "app"."audit_schedules"("id") ON DELETE CASCADE,
+	FOREIGN KEY ("audit_id") REFERENCES "app"."audits"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "audit_schedule_runs_schedule_id_idx" ON "app"."audit_schedule_runs"("schedule_id");
+
+-- Audits started by a schedule
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "schedule_id" uuid REFERENCES "app"."audit_schedules"("id") ON DELETE SET NULL;
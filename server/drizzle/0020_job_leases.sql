@@ -0,0 +1,4 @@
+-- Jobs are claimed atomically by a worker, which renews its lease (locked_until) while the job runs
+ALTER TABLE "app"."job_queue" ADD COLUMN IF NOT EXISTS "locked_by" text;
+
+CREATE INDEX IF NOT EXISTS "job_queue_status_created_at_idx" ON "app"."job_queue"("status", "created_at");
@@ -0,0 +1,6 @@
+-- Failed jobs are retried with exponential backoff (run_after) unless the error is permanent;
+-- the error of the last attempt moves from the payload into its own column
+ALTER TABLE "app"."job_queue" RENAME COLUMN "run_at" TO "run_after";
+ALTER TABLE "app"."job_queue" ADD COLUMN IF NOT EXISTS "last_error" text;
+
+UPDATE "app"."job_queue" SET "last_error" = "payload"->>'error' WHERE "payload" ? 'error' AND "last_error" IS NULL;
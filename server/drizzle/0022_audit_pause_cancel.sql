@@ -0,0 +1,13 @@
+-- Audits can be paused, resumed and cancelled; jobs reference their audit and are deleted with it
+ALTER TYPE "app"."audit_status" ADD VALUE IF NOT EXISTS 'paused';
+ALTER TYPE "app"."audit_status" ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE "app"."job_queue" ADD COLUMN IF NOT EXISTS "audit_id" uuid REFERENCES "app"."audits"("id") ON DELETE CASCADE;
+
+-- Link existing jobs and drop the ones left behind by deleted audits
+UPDATE "app"."job_queue" SET "audit_id" = ("payload"->>'audit_id')::uuid
+WHERE "audit_id" IS NULL
+	AND EXISTS (SELECT 1 FROM "app"."audits" WHERE "audits"."id"::text = "job_queue"."payload"->>'audit_id');
+DELETE FROM "app"."job_queue" WHERE "audit_id" IS NULL AND "payload" ? 'audit_id';
+
+CREATE INDEX IF NOT EXISTS "job_queue_audit_id_idx" ON "app"."job_queue"("audit_id");
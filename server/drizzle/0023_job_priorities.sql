@@ -0,0 +1,8 @@
+-- Jobs are ordered by priority (job plus audit) and shared round-robin between audits and users
+ALTER TABLE "app"."audits" ADD COLUMN IF NOT EXISTS "priority" integer NOT NULL DEFAULT 0;
+ALTER TABLE "app"."job_queue" ADD COLUMN IF NOT EXISTS "priority" integer NOT NULL DEFAULT 0;
+ALTER TABLE "app"."job_queue" ADD COLUMN IF NOT EXISTS "claimed_at" timestamp;
+
+UPDATE "app"."job_queue" SET "priority" = 1 WHERE "job_type" IN ('analyze_audit', 'schedule_audit');
+
+CREATE INDEX IF NOT EXISTS "job_queue_claimed_at_idx" ON "app"."job_queue"("claimed_at");
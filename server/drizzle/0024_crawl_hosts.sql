@@ -0,0 +1,13 @@
+-- Per-host crawl slots live in the database, so all workers and server instances share one rate limit per host
+CREATE TABLE IF NOT EXISTS "app"."crawl_hosts" (
+  "host" text PRIMARY KEY,
+  "booked_until" timestamp NOT NULL,
+  "next_slot_at" timestamp NOT NULL
+);
+
+-- Crawl jobs of a host without a free slot are not claimed
+ALTER TABLE "app"."job_queue" ADD COLUMN IF NOT EXISTS "host" text;
+
+UPDATE "app"."job_queue"
+SET "host" = lower(substring("payload"->>'url' from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^/@]*@)?([^/:?#]+)'))
+WHERE "job_type" = 'crawl_page' AND "host" IS NULL AND "status" IN ('pending', 'processing');
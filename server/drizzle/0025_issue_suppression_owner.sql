@@ -0,0 +1,10 @@
+-- False positives only apply to later audits of the same owner
+-- Existing suppressions go to the user who marked them; those without one are dropped
+ALTER TABLE "app"."issue_suppressions" ADD COLUMN IF NOT EXISTS "owner_id" text REFERENCES "app"."users"("id") ON DELETE CASCADE;
+UPDATE "app"."issue_suppressions" SET "owner_id" = "created_by" WHERE "owner_id" IS NULL;
+DELETE FROM "app"."issue_suppressions" WHERE "owner_id" IS NULL;
+ALTER TABLE "app"."issue_suppressions" ALTER COLUMN "owner_id" SET NOT NULL;
+
+ALTER TABLE "app"."issue_suppressions" DROP CONSTRAINT IF EXISTS "issue_suppressions_url_type_snippet_unique";
+ALTER TABLE "app"."issue_suppressions" DROP CONSTRAINT IF EXISTS "issue_suppressions_owner_url_type_snippet_unique";
+ALTER TABLE "app"."issue_suppressions" ADD CONSTRAINT "issue_suppressions_owner_url_type_snippet_unique" UNIQUE ("owner_id", "url", "issue_type", "snippet_key");
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Query builder stand-in: every chained call resolves to the rows set by the test, writes are recorded
+const db = vi.hoisted(() => {
+  const state = { rows: [] as unknown[], writes: [] as string[] };
+  const query = (): any =>
+    new Proxy(
+      {},
+      {
+        get: (_target, prop) =>
+          prop === 'then'
+            ? (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+                Promise.resolve(state.rows).then(resolve, reject)
+            : () => query(),
+      }
+    );
+  const write = (kind: string) => () => {
+    state.writes.push(kind);
+    return query();
+  };
+  return {
+    state,
+    connection: { select: () => query(), insert: write('insert'), update: write('update'), delete: write('delete') },
+  };
+});
+
+vi.mock('./lib/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./lib/db')>()),
+  getDatabase: async () => db.connection,
+}));
+
+// "Bearer <id>:<email>" signs in as that user
+vi.mock('./middleware/auth', () => ({
+  authMiddleware: async (c: any, next: () => Promise<void>) => {
+    const [id, email] = c.req.header('Authorization').slice('Bearer '.length).split(':');
+    c.set('user', { id, email });
+    await next();
+  },
+}));
+
+vi.mock('./services/job-queue', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./services/job-queue')>()),
+  startJobProcessor: async () => {},
+}));
+
+const { default: app } = await import('./api');
+
+const ADMIN = 'Bearer admin:admin@example.com';
+const USER = 'Bearer user-1:user@example.com';
+
+const request = (method: string, path: string, body: unknown, authorization?: string) =>
+  app.request(`/api/v1${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(authorization && { Authorization: authorization }) },
+    body: JSON.stringify(body),
+  });
+
+const issueType = (overrides: Record<string, unknown>) => ({
+  key: 'brand_voice',
+  label: 'Markensprache',
+  description: null,
+  color: 'gray',
+  is_builtin: false,
+  user_id: null,
+  ...overrides,
+});
+
+describe('issue type routes', () => {
+  beforeEach(() => {
+    process.env.ADMIN_EMAILS = 'admin@example.com';
+    db.state.rows = [];
+    db.state.writes = [];
+  });
+
+  it('refuses shared issue types from users who are not admins', async () => {
+    const body = { key: 'brand_voice', label: 'Markensprache', shared: true };
+
+    expect((await request('POST', '/issue-types', body, USER)).status).toBe(403);
+    expect((await request('POST', '/issue-types', body)).status).toBe(403);
+    expect(db.state.writes).toEqual([]);
+  });
+
+  it('lets admins create shared issue types', async () => {
+    const response = await request('POST', '/issue-types', { key: 'brand_voice', label: 'Markensprache', shared: true }, ADMIN);
+
+    expect(response.status).toBe(201);
+    expect(db.state.writes).toEqual(['insert']);
+  });
+
+  it('refuses changes to shared issue types from users who are not admins', async () => {
+    db.state.rows = [issueType({ user_id: null })];
+
+    expect((await request('PUT', '/issue-types/brand_voice', { label: 'Neu' }, USER)).status).toBe(403);
+    expect((await request('PUT', '/issue-types/brand_voice', { label: 'Neu' })).status).toBe(403);
+    expect((await request('DELETE', '/issue-types/brand_voice', undefined, USER)).status).toBe(403);
+    expect(db.state.writes).toEqual([]);
+  });
+
+  it('refuses changes to issue types of other users', async () => {
+    db.state.rows = [issueType({ user_id: 'user-2' })];
+
+    expect((await request('PUT', '/issue-types/brand_voice', { label: 'Neu' }, USER)).status).toBe(403);
+    expect((await request('PUT', '/issue-types/brand_voice', { label: 'Neu' }, ADMIN)).status).toBe(403);
+    expect(db.state.writes).toEqual([]);
+  });
+
+  it('refuses changes to built-in issue types, also from admins', async () => {
+    db.state.rows = [issueType({ key: 'spelling', is_builtin: true })];
+
+    expect((await request('PUT', '/issue-types/spelling', { label: 'Neu' }, ADMIN)).status).toBe(409);
+    expect(db.state.writes).toEqual([]);
+  });
+
+  it('lets owners change their own issue types', async () => {
+    db.state.rows = [issueType({ user_id: 'user-1' })];
+
+    expect((await request('PUT', '/issue-types/brand_voice', { label: 'Neu' }, USER)).status).toBe(200);
+    expect(db.state.writes).toEqual(['update']);
+  });
+});
+
+describe('audit routes', () => {
+  beforeEach(() => {
+    db.state.rows = [];
+    db.state.writes = [];
+  });
+
+  it('rejects URL filter regexes prone to catastrophic backtracking', async () => {
+    const response = await request(
+      'POST',
+      '/audits',
+      { sitemap_url: 'https://shop.example.com/sitemap.xml', url_filter: { include: ['re:(a+)+$'] } },
+      USER
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: expect.stringContaining('must not repeat a group') });
+    expect(db.state.writes).toEqual([]);
+  });
+
+  it('returns 404 for the HTML of malformed audit or page ids', async () => {
+    db.state.rows = [{ html: '<p>Esstisch</p>' }];
+    const validId = '3f2b6c1e-8d4a-4f5b-9c2d-1a2b3c4d5e6f';
+
+    expect((await request('GET', `/audits/not-a-uuid/pages/${validId}/html`, undefined, USER)).status).toBe(404);
+    expect((await request('GET', `/audits/${validId}/pages/not-a-uuid/html`, undefined, USER)).status).toBe(404);
+  });
+
+  it('returns 404 for the content of malformed audit or page ids', async () => {
+    db.state.rows = [{ content: 'Esstisch Nordic' }];
+    const validId = '3f2b6c1e-8d4a-4f5b-9c2d-1a2b3c4d5e6f';
+
+    expect((await request('GET', `/audits/not-a-uuid/pages/${validId}/content`, undefined, USER)).status).toBe(404);
+    expect((await request('GET', `/audits/${validId}/pages/not-a-uuid/content`, undefined, USER)).status).toBe(404);
+  });
+});
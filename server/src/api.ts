@@ -3,13 +3,88 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { authMiddleware } from './middleware/auth';
-import { getDatabase, testDatabaseConnection } from './lib/db';
-import { setEnvContext, clearEnvContext, getDatabaseUrl } from './lib/env';
+import { getDatabase, testDatabaseConnection, isUuid } from './lib/db';
+import { setEnvContext, clearEnvContext, getDatabaseUrl, isAdminEmail } from './lib/env';
 import * as schema from './schema/users';
-import { audits, auditPages, auditIssues } from './schema/audits';
-import { eq, and, desc, sql } from 'drizzle-orm';
-import { startAudit, getAuditProgress, generateCsvExport, processCrawlPageJob, processAnalyzePageJob } from './services/audit-service';
-import { startJobProcessor } from './services/job-queue';
+import {
+  audits,
+  auditPages,
+  auditIssues,
+  auditPageHtml,
+  duplicateClusters,
+  promptTemplates,
+  promptTemplateVersions,
+  issueTypes,
+  styleRules,
+  type UrlFilterConfig,
+} from './schema/audits';
+import { eq, and, asc, desc, sql, inArray, isNotNull } from 'drizzle-orm';
+import {
+  startAudit,
+  rerunAudit,
+  pauseAudit,
+  resumeAudit,
+  cancelAudit,
+  setAuditPriority,
+  getAuditProgress,
+  getPageDetail,
+  getPageFilterCondition,
+  generateCsvExport,
+  processCrawlPageJob,
+  processAnalyzePageJob,
+  processAnalyzeAuditJob,
+  reopenFailedPage,
+  failExpiredPageJob,
+  failExpiredAuditJob,
+  type PageFilters,
+} from './services/audit-service';
+import { compareAudits } from './services/audit-comparison';
+import {
+  SCHEDULE_FREQUENCIES,
+  validateScheduleInput,
+  validateSchedulePromptTemplate,
+  getSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  getScheduleRuns,
+  processScheduleAuditJob,
+  type ScheduleInput,
+} from './services/audit-schedules';
+import { startJobProcessor, getDeadJobs, retryDeadJob } from './services/job-queue';
+import { discoverSitemaps, normalizeSiteOrigin } from './services/sitemap-parser';
+import { validateUrlFilterConfig } from './services/url-filter';
+import { CRAWLER_BACKENDS, isCrawlerBackend } from './services/crawler';
+import { validateAiSettings, DEFAULT_ANALYSIS_PROMPT, PROMPT_PLACEHOLDERS, type AiSettings } from './services/ai-analyzer';
+import { LANGUAGES, isLanguage } from './services/language-detector';
+import {
+  validatePromptTemplateInput,
+  isPromptTemplateNameTaken,
+  getPromptTemplate,
+  createPromptTemplate,
+  updatePromptTemplate,
+  type PromptTemplateInput,
+} from './services/prompt-templates';
+import {
+  ISSUE_TYPE_COLORS,
+  STYLE_RULE_KINDS,
+  validateIssueTypeInput,
+  validateStyleRuleInput,
+  validateStyleRuleIssueType,
+  getIssueTypes,
+  getStyleRules,
+  type IssueTypeInput,
+  type StyleRuleInput,
+} from './services/style-rules';
+import {
+  ISSUE_STATUSES,
+  isIssueStatus,
+  validateTriageInput,
+  validateIssueIds,
+  triageIssues,
+  type TriageInput,
+} from './services/issue-triage';
 
 type Env = {
   RUNTIME?: string;
@@ -103,6 +178,7 @@ protectedRoutes.get('/me', (c) => {
       photo_url: user.photo_url,
       created_at: user.created_at,
       updated_at: user.updated_at,
+      is_admin: isAdminEmail(user.email),
     },
     message: 'You are authenticated!',
   });
@@ -111,11 +187,8 @@ protectedRoutes.get('/me', (c) => {
 // Mount the protected routes under /protected
 api.route('/protected', protectedRoutes);
 
-// Audit routes - optionally authenticated
-const auditRoutes = new Hono();
-
-// Optional auth middleware for audits (allows anonymous if configured)
-auditRoutes.use('*', async (c, next) => {
+// Optional auth middleware (allows anonymous if configured)
+const optionalAuth = async (c: any, next: () => Promise<void>) => {
   const authHeader = c.req.header('Authorization');
   if (authHeader && authHeader.startsWith('Bearer ')) {
     // User is authenticated, set user context
@@ -132,7 +205,12 @@ auditRoutes.use('*', async (c, next) => {
     // No auth header, continue as anonymous
     await next();
   }
-});
+};
+
+// Audit routes - optionally authenticated
+const auditRoutes = new Hono();
+
+auditRoutes.use('*', optionalAuth);
 
 // Helper to get user ID from context (if authenticated)
 const getUserId = (c: any): string | undefined => {
@@ -143,27 +221,126 @@ const getUserId = (c: any): string | undefined => {
   }
 };
 
+const getUserEmail = (c: any): string | null | undefined => {
+  try {
+    return c.get('user')?.email;
+  } catch {
+    return undefined;
+  }
+};
+
 // POST /audits - Start new audit
+// Accepts either an exact sitemap_url or a bare domain whose sitemaps are discovered
 auditRoutes.post('/', async (c) => {
   try {
     const body = await c.req.json();
-    const { sitemap_url, rate_limit_ms } = body;
+    const {
+      sitemap_url,
+      sitemap_urls,
+      domain,
+      rate_limit_ms,
+      crawler_backend,
+      url_filter,
+      modified_since,
+      ai_settings,
+      target_language,
+      prompt_template_id,
+    } = body;
 
-    if (!sitemap_url || typeof sitemap_url !== 'string') {
-      return c.json({ error: 'sitemap_url is required' }, 400);
+    if (!sitemap_url && !domain) {
+      return c.json({ error: 'sitemap_url or domain is required' }, 400);
     }
 
-    // Validate URL format
+    if (sitemap_url && typeof sitemap_url !== 'string') {
+      return c.json({ error: 'sitemap_url must be a string' }, 400);
+    }
+
+    if (domain && typeof domain !== 'string') {
+      return c.json({ error: 'domain must be a string' }, 400);
+    }
+
+    if (
+      sitemap_urls !== undefined &&
+      (!Array.isArray(sitemap_urls) || sitemap_urls.some((url: unknown) => typeof url !== 'string'))
+    ) {
+      return c.json({ error: 'sitemap_urls must be an array of URLs' }, 400);
+    }
+
+    let auditInput: string;
+    let sitemapUrls: string[];
+
     try {
-      new URL(sitemap_url);
+      if (domain) {
+        auditInput = normalizeSiteOrigin(domain);
+        sitemapUrls = sitemap_urls?.length
+          ? sitemap_urls
+          : (await discoverSitemaps(auditInput)).map((sitemap) => sitemap.url);
+      } else {
+        auditInput = sitemap_url;
+        sitemapUrls = sitemap_urls?.length ? sitemap_urls : [sitemap_url];
+      }
+      sitemapUrls.forEach((url) => new URL(url));
     } catch {
       return c.json({ error: 'Invalid sitemap URL format' }, 400);
     }
 
+    if (sitemapUrls.length === 0) {
+      return c.json({ error: `No sitemaps found for ${auditInput}` }, 404);
+    }
+
+    let urlFilter: UrlFilterConfig;
+    try {
+      urlFilter = validateUrlFilterConfig(url_filter);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid url_filter' }, 400);
+    }
+
+    let aiSettings: Partial<AiSettings>;
+    try {
+      aiSettings = validateAiSettings(ai_settings);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid ai_settings' }, 400);
+    }
+
+    if (target_language !== undefined && target_language !== null && !isLanguage(target_language)) {
+      return c.json({ error: `target_language must be one of: ${LANGUAGES.join(', ')}` }, 400);
+    }
+
+    if (
+      prompt_template_id !== undefined &&
+      prompt_template_id !== null &&
+      (typeof prompt_template_id !== 'string' || !(await getPromptTemplate(prompt_template_id)))
+    ) {
+      return c.json({ error: 'prompt_template_id must be the id of a prompt template' }, 400);
+    }
+
+    if (crawler_backend !== undefined && !isCrawlerBackend(crawler_backend)) {
+      return c.json({ error: `crawler_backend must be one of: ${CRAWLER_BACKENDS.join(', ')}` }, 400);
+    }
+
+    let modifiedSince: Date | undefined;
+    if (modified_since !== undefined && modified_since !== null && modified_since !== '') {
+      modifiedSince = new Date(modified_since);
+      if (typeof modified_since !== 'string' || isNaN(modifiedSince.getTime())) {
+        return c.json({ error: 'modified_since must be an ISO date' }, 400);
+      }
+    }
+
     const userId = getUserId(c);
     const rateLimit = rate_limit_ms && typeof rate_limit_ms === 'number' ? rate_limit_ms : 1000;
 
-    const auditId = await startAudit(sitemap_url, userId, rateLimit);
+    const auditId = await startAudit({
+      sitemapUrl: auditInput,
+      sitemapUrls,
+      userId,
+      rateLimitMs: rateLimit,
+      crawlerBackend: crawler_backend,
+      urlFilter,
+      modifiedSince,
+      aiSettings,
+      targetLanguage: target_language ?? undefined,
+      promptTemplateId: prompt_template_id ?? undefined,
+    });
 
     return c.json({ id: auditId, message: 'Audit started' }, 201);
   } catch (error) {
@@ -175,6 +352,29 @@ auditRoutes.post('/', async (c) => {
   }
 });
 
+// GET /audits/discover - Find the sitemaps of a domain before starting an audit
+auditRoutes.get('/discover', async (c) => {
+  try {
+    const domain = c.req.query('domain');
+    if (!domain) {
+      return c.json({ error: 'domain is required' }, 400);
+    }
+
+    let origin: string;
+    try {
+      origin = normalizeSiteOrigin(domain);
+    } catch {
+      return c.json({ error: 'Invalid domain format' }, 400);
+    }
+
+    const sitemaps = await discoverSitemaps(origin);
+    return c.json({ domain: origin, sitemaps });
+  } catch (error) {
+    console.error('Error discovering sitemaps:', error);
+    return c.json({ error: 'Failed to discover sitemaps' }, 500);
+  }
+});
+
 // GET /audits - List all audits (for authenticated user or all if anonymous)
 auditRoutes.get('/', async (c) => {
   try {
@@ -215,25 +415,216 @@ auditRoutes.get('/:id', async (c) => {
   }
 });
 
+// POST /audits/:id/rerun - Start a new audit with the settings of this one, linked to it for comparison
+auditRoutes.post('/:id/rerun', async (c) => {
+  try {
+    const auditId = c.req.param('id');
+    const db = await getDatabase();
+    const userId = getUserId(c);
+
+    const audit = isUuid(auditId) ? await db.select().from(audits).where(eq(audits.id, auditId)).limit(1) : [];
+    if (audit.length === 0) {
+      return c.json({ error: 'Audit not found' }, 404);
+    }
+
+    if (userId && audit[0].user_id && audit[0].user_id !== userId) {
+      return c.json({ error: 'Unauthorized' }, 403);
+    }
+
+    const newAuditId = await rerunAudit(audit[0], userId);
+    return c.json({ id: newAuditId, previous_audit_id: auditId, message: 'Audit started' }, 201);
+  } catch (error) {
+    console.error('Error re-running audit:', error);
+    return c.json(
+      { error: error instanceof Error ? error.message : 'Failed to re-run audit' },
+      500
+    );
+  }
+});
+
+// Audit of a pause/resume/cancel request, or the error response (404 / 403)
+const getControllableAudit = async (c: any) => {
+  const auditId = c.req.param('id');
+  const db = await getDatabase();
+  const userId = getUserId(c);
+
+  const audit = isUuid(auditId) ? await db.select().from(audits).where(eq(audits.id, auditId)).limit(1) : [];
+  if (audit.length === 0) {
+    return { response: c.json({ error: 'Audit not found' }, 404) };
+  }
+
+  if (userId && audit[0].user_id && audit[0].user_id !== userId) {
+    return { response: c.json({ error: 'Unauthorized' }, 403) };
+  }
+
+  return { audit: audit[0] };
+};
+
+// POST /audits/:id/pause - Stop processing the queued jobs of a running audit
+auditRoutes.post('/:id/pause', async (c) => {
+  try {
+    const { audit, response } = await getControllableAudit(c);
+    if (!audit) return response;
+
+    try {
+      await pauseAudit(audit);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+
+    return c.json({ id: audit.id, status: 'paused', message: 'Audit paused' });
+  } catch (error) {
+    console.error('Error pausing audit:', error);
+    return c.json({ error: 'Failed to pause audit' }, 500);
+  }
+});
+
+// POST /audits/:id/resume - Continue a paused audit
+auditRoutes.post('/:id/resume', async (c) => {
+  try {
+    const { audit, response } = await getControllableAudit(c);
+    if (!audit) return response;
+
+    try {
+      await resumeAudit(audit);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+
+    return c.json({ id: audit.id, message: 'Audit resumed' });
+  } catch (error) {
+    console.error('Error resuming audit:', error);
+    return c.json({ error: 'Failed to resume audit' }, 500);
+  }
+});
+
+// POST /audits/:id/cancel - Stop a running or paused audit for good (results so far are kept)
+auditRoutes.post('/:id/cancel', async (c) => {
+  try {
+    const { audit, response } = await getControllableAudit(c);
+    if (!audit) return response;
+
+    let removedJobs;
+    try {
+      removedJobs = await cancelAudit(audit);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+
+    return c.json({ id: audit.id, status: 'cancelled', removed_jobs: removedJobs, message: 'Audit cancelled' });
+  } catch (error) {
+    console.error('Error cancelling audit:', error);
+    return c.json({ error: 'Failed to cancel audit' }, 500);
+  }
+});
+
+// PUT /audits/:id/priority - Move an audit ahead of (or behind) others in the job queue (admins, any user's audit)
+auditRoutes.put('/:id/priority', async (c) => {
+  try {
+    if (!isAdminEmail(getUserEmail(c))) {
+      return c.json({ error: 'Only admins can change audit priorities' }, 403);
+    }
+
+    const auditId = c.req.param('id');
+    const db = await getDatabase();
+    const audit = isUuid(auditId) ? await db.select().from(audits).where(eq(audits.id, auditId)).limit(1) : [];
+    if (audit.length === 0) {
+      return c.json({ error: 'Audit not found' }, 404);
+    }
+
+    const body = await c.req.json();
+    let priority;
+    try {
+      priority = await setAuditPriority(audit[0], body.priority);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+
+    return c.json({ id: audit[0].id, priority, message: 'Audit priority updated' });
+  } catch (error) {
+    console.error('Error updating audit priority:', error);
+    return c.json({ error: 'Failed to update audit priority' }, 500);
+  }
+});
+
+// GET /audits/:id/compare - Differences to an earlier run (base, default: the audit this one re-runs)
+auditRoutes.get('/:id/compare', async (c) => {
+  try {
+    let comparison;
+    try {
+      comparison = await compareAudits(c.req.param('id'), c.req.query('base') || undefined);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+    if (!comparison) {
+      return c.json({ error: 'Audit not found' }, 404);
+    }
+
+    return c.json(comparison);
+  } catch (error) {
+    console.error('Error comparing audits:', error);
+    return c.json({ error: 'Failed to compare audits' }, 500);
+  }
+});
+
+// Page list filters from the query string (shared by the page list and the page view)
+// Throws an Error with a user-facing message if a filter is invalid
+const parsePageFilters = (c: any): PageFilters => {
+  const minScore = c.req.query('min_score');
+  const status = c.req.query('status');
+  const assigneeId = c.req.query('assignee_id');
+
+  if (status && !isIssueStatus(status)) {
+    throw new Error(`status must be one of: ${ISSUE_STATUSES.join(', ')}`);
+  }
+
+  return {
+    issueType: c.req.query('issue_type') || undefined,
+    minScore: minScore ? parseInt(minScore) : undefined,
+    status: status || undefined,
+    assigneeId: assigneeId === 'none' ? null : assigneeId || undefined,
+  };
+};
+
 // GET /audits/:id/pages - Get paginated list of pages
+// Filters: issue_type, min_score, status and assignee_id ("none" = unassigned) of the issues
 auditRoutes.get('/:id/pages', async (c) => {
   try {
     const auditId = c.req.param('id');
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '50');
-    const issueType = c.req.query('issue_type');
-    const minScore = c.req.query('min_score');
+
+    let filters: PageFilters;
+    try {
+      filters = parsePageFilters(c);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid filter' }, 400);
+    }
 
     const db = await getDatabase();
     const offset = (page - 1) * limit;
 
-    let query = db
+    const pages = await db
       .select({
         id: auditPages.id,
         url: auditPages.url,
         status: auditPages.status,
         title: auditPages.title,
+        lastmod: auditPages.lastmod,
+        changefreq: auditPages.changefreq,
+        priority: auditPages.priority,
+        http_status: auditPages.http_status,
+        final_url: auditPages.final_url,
+        canonical_url: auditPages.canonical_url,
+        meta_description: auditPages.meta_description,
+        lang: auditPages.lang,
+        hreflang: auditPages.hreflang,
+        headings: auditPages.headings,
+        word_count: auditPages.word_count,
+        response_headers: auditPages.response_headers,
+        detected_language: auditPages.detected_language,
         quality_score: auditPages.quality_score,
+        rejected_ai_issues: auditPages.rejected_ai_issues,
         error_message: auditPages.error_message,
         created_at: auditPages.created_at,
         analyzed_at: auditPages.analyzed_at,
@@ -241,63 +632,23 @@ auditRoutes.get('/:id/pages', async (c) => {
       })
       .from(auditPages)
       .leftJoin(auditIssues, eq(auditIssues.page_id, auditPages.id))
-      .where(eq(auditPages.audit_id, auditId))
+      .where(await getPageFilterCondition(auditId, filters))
       .groupBy(auditPages.id)
-      .orderBy(desc(auditPages.created_at))
+      .orderBy(desc(auditPages.created_at), asc(auditPages.id)) // Pages of a sitemap share created_at
       .limit(limit)
       .offset(offset);
 
-    // Apply filters
-    if (issueType) {
-      // This would require a subquery, simplified for now
-      // For MVP, we'll filter in memory
-    }
-
-    const pages = await query;
-
-    // Filter by issue type and min score if needed
-    let filteredPages = pages;
-    if (issueType || minScore) {
-      filteredPages = await Promise.all(
-        pages.map(async (page) => {
-          const issues = await db
+    // Load issues for all pages
+    const issues =
+      pages.length > 0
+        ? await db
             .select()
             .from(auditIssues)
-            .where(eq(auditIssues.page_id, page.id));
-
-          if (issueType && !issues.some((i) => i.issue_type === issueType)) {
-            return null;
-          }
-
-          if (minScore && (page.quality_score === null || page.quality_score < parseInt(minScore))) {
-            return null;
-          }
-
-          return {
-            ...page,
-            issues,
-          };
-        })
-      );
-      filteredPages = filteredPages.filter((p) => p !== null) as any[];
-    } else {
-      // Load issues for all pages
-      filteredPages = await Promise.all(
-        pages.map(async (page) => {
-          const issues = await db
-            .select()
-            .from(auditIssues)
-            .where(eq(auditIssues.page_id, page.id));
-          return {
-            ...page,
-            issues,
-          };
-        })
-      );
-    }
+            .where(inArray(auditIssues.page_id, pages.map((p) => p.id)))
+        : [];
 
     return c.json({
-      pages: filteredPages,
+      pages: pages.map((p) => ({ ...p, issues: issues.filter((issue) => issue.page_id === p.id) })),
       pagination: {
         page,
         limit,
@@ -310,6 +661,195 @@ auditRoutes.get('/:id/pages', async (c) => {
   }
 });
 
+// GET /audits/:id/pages/:pageId - One page with its issues, score breakdown and prev/next ids
+// Accepts the filters of the page list so navigation stays within the filtered pages
+auditRoutes.get('/:id/pages/:pageId', async (c) => {
+  try {
+    let filters: PageFilters;
+    try {
+      filters = parsePageFilters(c);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid filter' }, 400);
+    }
+
+    const detail = await getPageDetail(c.req.param('id'), c.req.param('pageId'), filters);
+
+    if (!detail) {
+      return c.json({ error: 'Page not found' }, 404);
+    }
+
+    return c.json(detail);
+  } catch (error) {
+    console.error('Error fetching page:', error);
+    return c.json({ error: 'Failed to fetch page' }, 500);
+  }
+});
+
+// GET /audits/:id/pages/:pageId/html - Raw HTML as crawled (served as plain text)
+auditRoutes.get('/:id/pages/:pageId/html', async (c) => {
+  try {
+    const auditId = c.req.param('id');
+    const pageId = c.req.param('pageId');
+    if (!isUuid(auditId) || !isUuid(pageId)) {
+      return c.json({ error: 'HTML not found' }, 404);
+    }
+    const db = await getDatabase();
+
+    const result = await db
+      .select({ html: auditPageHtml.html })
+      .from(auditPageHtml)
+      .innerJoin(auditPages, eq(auditPages.id, auditPageHtml.page_id))
+      .where(and(eq(auditPageHtml.page_id, pageId), eq(auditPages.audit_id, auditId)))
+      .limit(1);
+
+    if (result.length === 0) {
+      return c.json({ error: 'HTML not found' }, 404);
+    }
+
+    c.header('Content-Type', 'text/plain; charset=utf-8');
+    return c.text(result[0].html);
+  } catch (error) {
+    console.error('Error fetching page HTML:', error);
+    return c.json({ error: 'Failed to fetch page HTML' }, 500);
+  }
+});
+
+// GET /audits/:id/pages/:pageId/content - Crawled content with the issues positioned in it (inline highlighting)
+auditRoutes.get('/:id/pages/:pageId/content', async (c) => {
+  try {
+    const auditId = c.req.param('id');
+    const pageId = c.req.param('pageId');
+    if (!isUuid(auditId) || !isUuid(pageId)) {
+      return c.json({ error: 'Content not found' }, 404);
+    }
+    const db = await getDatabase();
+
+    const result = await db
+      .select({ content: auditPages.content })
+      .from(auditPages)
+      .where(and(eq(auditPages.id, pageId), eq(auditPages.audit_id, auditId)))
+      .limit(1);
+
+    if (result.length === 0 || result[0].content === null) {
+      return c.json({ error: 'Content not found' }, 404);
+    }
+
+    const issues = await db
+      .select()
+      .from(auditIssues)
+      .where(eq(auditIssues.page_id, pageId))
+      .orderBy(asc(auditIssues.snippet_offset));
+
+    return c.json({ content: result[0].content, issues });
+  } catch (error) {
+    console.error('Error fetching page content:', error);
+    return c.json({ error: 'Failed to fetch page content' }, 500);
+  }
+});
+
+// PATCH /audits/:id/issues/:issueId - Triage an issue (status, assignee_id, comment)
+// Marking an issue as false_positive suppresses the same finding on the same URL in later audits of the audit's owner
+auditRoutes.patch('/:id/issues/:issueId', async (c) => {
+  try {
+    let input: TriageInput;
+    try {
+      input = validateTriageInput(await c.req.json());
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+
+    let updated;
+    try {
+      updated = await triageIssues(c.req.param('id'), [c.req.param('issueId')], input, getUserId(c));
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+    if (!updated) {
+      return c.json({ error: 'Issue not found' }, 404);
+    }
+
+    return c.json({ issue: updated[0] });
+  } catch (error) {
+    console.error('Error updating issue:', error);
+    return c.json({ error: 'Failed to update issue' }, 500);
+  }
+});
+
+// PATCH /audits/:id/issues - Triage several issues at once (issue_ids plus the fields to set)
+auditRoutes.patch('/:id/issues', async (c) => {
+  try {
+    let issueIds: string[];
+    let input: TriageInput;
+    try {
+      const body = await c.req.json();
+      issueIds = validateIssueIds(body?.issue_ids);
+      input = validateTriageInput(body);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+
+    let updated;
+    try {
+      updated = await triageIssues(c.req.param('id'), issueIds, input, getUserId(c));
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+    }
+    if (!updated) {
+      return c.json({ error: 'Some issues do not belong to this audit' }, 404);
+    }
+
+    return c.json({ issues: updated });
+  } catch (error) {
+    console.error('Error updating issues:', error);
+    return c.json({ error: 'Failed to update issues' }, 500);
+  }
+});
+
+// GET /audits/:id/duplicates - Clusters of pages with near-identical content
+auditRoutes.get('/:id/duplicates', async (c) => {
+  try {
+    const auditId = c.req.param('id');
+    const db = await getDatabase();
+
+    const clusters = await db
+      .select()
+      .from(duplicateClusters)
+      .where(eq(duplicateClusters.audit_id, auditId))
+      .orderBy(desc(duplicateClusters.page_count), desc(duplicateClusters.similarity));
+
+    const clusterPages =
+      clusters.length === 0
+        ? []
+        : await db
+            .select({
+              cluster_id: auditIssues.cluster_id,
+              snippet: auditIssues.snippet,
+              id: auditPages.id,
+              url: auditPages.url,
+              title: auditPages.title,
+              quality_score: auditPages.quality_score,
+            })
+            .from(auditIssues)
+            .innerJoin(auditPages, eq(auditPages.id, auditIssues.page_id))
+            .where(inArray(auditIssues.cluster_id, clusters.map((cluster) => cluster.id)))
+            .orderBy(auditPages.url);
+
+    return c.json({
+      clusters: clusters.map((cluster) => {
+        const pages = clusterPages.filter((page) => page.cluster_id === cluster.id);
+        return {
+          ...cluster,
+          snippet: pages[0]?.snippet ?? '',
+          pages: pages.map(({ id, url, title, quality_score }) => ({ id, url, title, quality_score })),
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching duplicate clusters:', error);
+    return c.json({ error: 'Failed to fetch duplicate clusters' }, 500);
+  }
+});
+
 // GET /audits/:id/export - Export CSV
 auditRoutes.get('/:id/export', async (c) => {
   try {
@@ -345,7 +885,7 @@ auditRoutes.delete('/:id', async (c) => {
       return c.json({ error: 'Unauthorized' }, 403);
     }
 
-    // Delete audit (cascade will delete pages and issues)
+    // Delete audit (cascade will delete pages, issues and queued jobs)
     await db.delete(audits).where(eq(audits.id, auditId));
 
     return c.json({ message: 'Audit deleted' });
@@ -355,9 +895,594 @@ auditRoutes.delete('/:id', async (c) => {
   }
 });
 
+// Prompt template routes - optionally authenticated
+const promptTemplateRoutes = new Hono();
+
+promptTemplateRoutes.use('*', optionalAuth);
+
+// GET /prompt-templates - List templates with their latest version, plus the built-in prompt
+promptTemplateRoutes.get('/', async (c) => {
+  try {
+    const db = await getDatabase();
+
+    const templates = await db.select().from(promptTemplates).orderBy(promptTemplates.name);
+    const versions = await db
+      .select({
+        id: promptTemplateVersions.id,
+        template_id: promptTemplateVersions.template_id,
+        version: promptTemplateVersions.version,
+        created_at: promptTemplateVersions.created_at,
+      })
+      .from(promptTemplateVersions)
+      .orderBy(desc(promptTemplateVersions.version));
+
+    return c.json({
+      templates: templates.map((template) => {
+        const templateVersions = versions.filter((version) => version.template_id === template.id);
+        return {
+          ...template,
+          latest_version: templateVersions[0] ?? null,
+          version_count: templateVersions.length,
+        };
+      }),
+      builtin: {
+        content: DEFAULT_ANALYSIS_PROMPT,
+        placeholders: PROMPT_PLACEHOLDERS,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching prompt templates:', error);
+    return c.json({ error: 'Failed to fetch prompt templates' }, 500);
+  }
+});
+
+// POST /prompt-templates - Create a template (version 1)
+promptTemplateRoutes.post('/', async (c) => {
+  try {
+    let input: PromptTemplateInput;
+    try {
+      input = validatePromptTemplateInput(await c.req.json());
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid prompt template' }, 400);
+    }
+
+    if (await isPromptTemplateNameTaken(input.name!)) {
+      return c.json({ error: `A prompt template named "${input.name}" already exists` }, 409);
+    }
+
+    const result = await createPromptTemplate({ ...input, name: input.name!, content: input.content! }, getUserId(c));
+    return c.json(result, 201);
+  } catch (error) {
+    console.error('Error creating prompt template:', error);
+    return c.json({ error: 'Failed to create prompt template' }, 500);
+  }
+});
+
+// GET /prompt-templates/:id - Template with all versions
+promptTemplateRoutes.get('/:id', async (c) => {
+  try {
+    const result = await getPromptTemplate(c.req.param('id'));
+    if (!result) {
+      return c.json({ error: 'Prompt template not found' }, 404);
+    }
+    return c.json(result);
+  } catch (error) {
+    console.error('Error fetching prompt template:', error);
+    return c.json({ error: 'Failed to fetch prompt template' }, 500);
+  }
+});
+
+// PUT /prompt-templates/:id - Update a template (a changed content becomes a new version)
+promptTemplateRoutes.put('/:id', async (c) => {
+  try {
+    const templateId = c.req.param('id');
+
+    let input: PromptTemplateInput;
+    try {
+      input = validatePromptTemplateInput(await c.req.json(), true);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid prompt template' }, 400);
+    }
+
+    if (!(await getPromptTemplate(templateId))) {
+      return c.json({ error: 'Prompt template not found' }, 404);
+    }
+
+    if (input.name && (await isPromptTemplateNameTaken(input.name, templateId))) {
+      return c.json({ error: `A prompt template named "${input.name}" already exists` }, 409);
+    }
+
+    const result = await updatePromptTemplate(templateId, input, getUserId(c));
+    return c.json(result);
+  } catch (error) {
+    console.error('Error updating prompt template:', error);
+    return c.json({ error: 'Failed to update prompt template' }, 500);
+  }
+});
+
+// DELETE /prompt-templates/:id - Delete a template and its versions (not while audits use them)
+promptTemplateRoutes.delete('/:id', async (c) => {
+  try {
+    const templateId = c.req.param('id');
+    const db = await getDatabase();
+
+    const existing = await getPromptTemplate(templateId);
+    if (!existing) {
+      return c.json({ error: 'Prompt template not found' }, 404);
+    }
+
+    // Audits keep the version they were analyzed with, so their results stay reproducible
+    const usage = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(audits)
+      .innerJoin(promptTemplateVersions, eq(promptTemplateVersions.id, audits.prompt_version_id))
+      .where(eq(promptTemplateVersions.template_id, templateId));
+
+    if (Number(usage[0].count) > 0) {
+      return c.json({ error: `Prompt template is used by ${usage[0].count} audit(s)` }, 409);
+    }
+
+    await db.delete(promptTemplates).where(eq(promptTemplates.id, templateId));
+
+    return c.json({ message: 'Prompt template deleted' });
+  } catch (error) {
+    console.error('Error deleting prompt template:', error);
+    return c.json({ error: 'Failed to delete prompt template' }, 500);
+  }
+});
+
+// Issue type routes - optionally authenticated
+const issueTypeRoutes = new Hono();
+
+issueTypeRoutes.use('*', optionalAuth);
+
+// Shared issue types and style rules (no owner) apply to every user's audits, so only admins may write them
+const mayWriteShared = (c: any, ownerId: string | null) =>
+  ownerId ? ownerId === getUserId(c) : isAdminEmail(getUserEmail(c));
+
+// GET /issue-types - Built-in, shared and own issue types
+issueTypeRoutes.get('/', async (c) => {
+  try {
+    const types = await getIssueTypes(getUserId(c));
+    return c.json({ issue_types: types, colors: ISSUE_TYPE_COLORS });
+  } catch (error) {
+    console.error('Error fetching issue types:', error);
+    return c.json({ error: 'Failed to fetch issue types' }, 500);
+  }
+});
+
+// POST /issue-types - Create a custom issue type
+issueTypeRoutes.post('/', async (c) => {
+  try {
+    let input: IssueTypeInput;
+    try {
+      input = validateIssueTypeInput(await c.req.json());
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid issue type' }, 400);
+    }
+
+    const ownerId = input.shared ? null : getUserId(c) ?? null;
+    if (!mayWriteShared(c, ownerId)) {
+      return c.json({ error: 'Only admins can change shared issue types' }, 403);
+    }
+
+    const db = await getDatabase();
+    const existing = await db.select().from(issueTypes).where(eq(issueTypes.key, input.key)).limit(1);
+    if (existing.length > 0) {
+      return c.json({ error: `Issue type "${input.key}" already exists` }, 409);
+    }
+
+    const [issueType] = await db
+      .insert(issueTypes)
+      .values({
+        key: input.key,
+        label: input.label,
+        description: input.description,
+        color: input.color,
+        user_id: ownerId,
+      })
+      .returning();
+
+    return c.json({ issue_type: issueType }, 201);
+  } catch (error) {
+    console.error('Error creating issue type:', error);
+    return c.json({ error: 'Failed to create issue type' }, 500);
+  }
+});
+
+// PUT /issue-types/:key - Change label, description or color (the key is fixed)
+issueTypeRoutes.put('/:key', async (c) => {
+  try {
+    const key = c.req.param('key');
+
+    let input: IssueTypeInput;
+    try {
+      input = validateIssueTypeInput({ ...(await c.req.json()), key });
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid issue type' }, 400);
+    }
+
+    const db = await getDatabase();
+    const existing = await db.select().from(issueTypes).where(eq(issueTypes.key, key)).limit(1);
+    if (existing.length === 0) {
+      return c.json({ error: 'Issue type not found' }, 404);
+    }
+
+    if (existing[0].is_builtin) {
+      return c.json({ error: 'Built-in issue types cannot be changed' }, 409);
+    }
+
+    if (!mayWriteShared(c, existing[0].user_id)) {
+      return c.json({ error: 'Only admins can change shared issue types' }, 403);
+    }
+
+    const [issueType] = await db
+      .update(issueTypes)
+      .set({ label: input.label, description: input.description, color: input.color })
+      .where(eq(issueTypes.key, key))
+      .returning();
+
+    return c.json({ issue_type: issueType });
+  } catch (error) {
+    console.error('Error updating issue type:', error);
+    return c.json({ error: 'Failed to update issue type' }, 500);
+  }
+});
+
+// DELETE /issue-types/:key - Delete a custom issue type that is not in use
+issueTypeRoutes.delete('/:key', async (c) => {
+  try {
+    const key = c.req.param('key');
+    const db = await getDatabase();
+
+    const existing = await db.select().from(issueTypes).where(eq(issueTypes.key, key)).limit(1);
+    if (existing.length === 0) {
+      return c.json({ error: 'Issue type not found' }, 404);
+    }
+
+    if (existing[0].is_builtin) {
+      return c.json({ error: 'Built-in issue types cannot be deleted' }, 409);
+    }
+
+    if (!mayWriteShared(c, existing[0].user_id)) {
+      return c.json({ error: 'Only admins can change shared issue types' }, 403);
+    }
+
+    const [rulesUsing, issuesUsing] = await Promise.all([
+      db.select({ id: styleRules.id }).from(styleRules).where(eq(styleRules.issue_type, key)).limit(1),
+      db.select({ id: auditIssues.id }).from(auditIssues).where(eq(auditIssues.issue_type, key)).limit(1),
+    ]);
+    if (rulesUsing.length > 0 || issuesUsing.length > 0) {
+      return c.json({ error: 'Issue type is used by style rules or audit results' }, 409);
+    }
+
+    await db.delete(issueTypes).where(eq(issueTypes.key, key));
+
+    return c.json({ message: 'Issue type deleted' });
+  } catch (error) {
+    console.error('Error deleting issue type:', error);
+    return c.json({ error: 'Failed to delete issue type' }, 500);
+  }
+});
+
+// Style rule routes - optionally authenticated
+const styleRuleRoutes = new Hono();
+
+styleRuleRoutes.use('*', optionalAuth);
+
+// GET /style-rules - Own and shared custom checks
+styleRuleRoutes.get('/', async (c) => {
+  try {
+    const rules = await getStyleRules(getUserId(c));
+    return c.json({ rules, kinds: STYLE_RULE_KINDS });
+  } catch (error) {
+    console.error('Error fetching style rules:', error);
+    return c.json({ error: 'Failed to fetch style rules' }, 500);
+  }
+});
+
+// POST /style-rules - Create a custom check
+styleRuleRoutes.post('/', async (c) => {
+  try {
+    const userId = getUserId(c);
+
+    let input: StyleRuleInput;
+    try {
+      input = validateStyleRuleInput(await c.req.json());
+      await validateStyleRuleIssueType(input, userId);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid style rule' }, 400);
+    }
+
+    const ownerId = input.shared ? null : userId ?? null;
+    if (!mayWriteShared(c, ownerId)) {
+      return c.json({ error: 'Only admins can change shared style rules' }, 403);
+    }
+
+    const db = await getDatabase();
+    const [rule] = await db
+      .insert(styleRules)
+      .values({
+        user_id: ownerId,
+        issue_type: input.issueType,
+        name: input.name,
+        kind: input.kind,
+        terms: input.terms,
+        pattern: input.pattern,
+        instruction: input.instruction,
+        severity: input.severity,
+        suggestion: input.suggestion,
+        enabled: input.enabled,
+      })
+      .returning();
+
+    return c.json({ rule }, 201);
+  } catch (error) {
+    console.error('Error creating style rule:', error);
+    return c.json({ error: 'Failed to create style rule' }, 500);
+  }
+});
+
+// PUT /style-rules/:id - Replace a custom check
+styleRuleRoutes.put('/:id', async (c) => {
+  try {
+    const ruleId = c.req.param('id');
+    const userId = getUserId(c);
+    const db = await getDatabase();
+
+    const existing = (await getStyleRules(userId)).find((rule) => rule.id === ruleId);
+    if (!existing) {
+      return c.json({ error: 'Style rule not found' }, 404);
+    }
+
+    let input: StyleRuleInput;
+    try {
+      input = validateStyleRuleInput(await c.req.json());
+      await validateStyleRuleIssueType(input, userId);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid style rule' }, 400);
+    }
+
+    const ownerId = input.shared ? null : existing.user_id ?? userId ?? null;
+    if (!mayWriteShared(c, existing.user_id) || !mayWriteShared(c, ownerId)) {
+      return c.json({ error: 'Only admins can change shared style rules' }, 403);
+    }
+
+    const [rule] = await db
+      .update(styleRules)
+      .set({
+        user_id: ownerId,
+        issue_type: input.issueType,
+        name: input.name,
+        kind: input.kind,
+        terms: input.terms,
+        pattern: input.pattern,
+        instruction: input.instruction,
+        severity: input.severity,
+        suggestion: input.suggestion,
+        enabled: input.enabled,
+        updated_at: new Date(),
+      })
+      .where(eq(styleRules.id, ruleId))
+      .returning();
+
+    return c.json({ rule });
+  } catch (error) {
+    console.error('Error updating style rule:', error);
+    return c.json({ error: 'Failed to update style rule' }, 500);
+  }
+});
+
+// DELETE /style-rules/:id - Delete a custom check
+styleRuleRoutes.delete('/:id', async (c) => {
+  try {
+    const ruleId = c.req.param('id');
+    const existing = (await getStyleRules(getUserId(c))).find((rule) => rule.id === ruleId);
+    if (!existing) {
+      return c.json({ error: 'Style rule not found' }, 404);
+    }
+
+    if (!mayWriteShared(c, existing.user_id)) {
+      return c.json({ error: 'Only admins can change shared style rules' }, 403);
+    }
+
+    const db = await getDatabase();
+    await db.delete(styleRules).where(eq(styleRules.id, ruleId));
+
+    return c.json({ message: 'Style rule deleted' });
+  } catch (error) {
+    console.error('Error deleting style rule:', error);
+    return c.json({ error: 'Failed to delete style rule' }, 500);
+  }
+});
+
+// Audit schedule routes - optionally authenticated
+const scheduleRoutes = new Hono();
+
+scheduleRoutes.use('*', optionalAuth);
+
+// GET /schedules - Schedules of the user (all for anonymous users)
+scheduleRoutes.get('/', async (c) => {
+  try {
+    const schedules = await getSchedules(getUserId(c));
+    return c.json({ schedules, frequencies: SCHEDULE_FREQUENCIES });
+  } catch (error) {
+    console.error('Error fetching schedules:', error);
+    return c.json({ error: 'Failed to fetch schedules' }, 500);
+  }
+});
+
+// POST /schedules - Create a recurring audit
+scheduleRoutes.post('/', async (c) => {
+  try {
+    let input: ScheduleInput;
+    try {
+      input = validateScheduleInput(await c.req.json());
+      await validateSchedulePromptTemplate(input);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid schedule' }, 400);
+    }
+
+    const schedule = await createSchedule(input, getUserId(c));
+    return c.json({ schedule }, 201);
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    return c.json({ error: 'Failed to create schedule' }, 500);
+  }
+});
+
+// GET /schedules/:id - A schedule with its run history
+scheduleRoutes.get('/:id', async (c) => {
+  try {
+    const schedule = await getSchedule(c.req.param('id'));
+    if (!schedule) {
+      return c.json({ error: 'Schedule not found' }, 404);
+    }
+
+    const runs = await getScheduleRuns(schedule.id);
+    return c.json({ schedule, runs });
+  } catch (error) {
+    console.error('Error fetching schedule:', error);
+    return c.json({ error: 'Failed to fetch schedule' }, 500);
+  }
+});
+
+// PUT /schedules/:id - Replace a schedule (the next run is planned again)
+scheduleRoutes.put('/:id', async (c) => {
+  try {
+    const userId = getUserId(c);
+    const existing = await getSchedule(c.req.param('id'));
+    if (!existing) {
+      return c.json({ error: 'Schedule not found' }, 404);
+    }
+
+    if (userId && existing.user_id !== userId) {
+      return c.json({ error: 'Unauthorized' }, 403);
+    }
+
+    let input: ScheduleInput;
+    try {
+      input = validateScheduleInput(await c.req.json());
+      await validateSchedulePromptTemplate(input);
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid schedule' }, 400);
+    }
+
+    const schedule = await updateSchedule(existing.id, input);
+    return c.json({ schedule });
+  } catch (error) {
+    console.error('Error updating schedule:', error);
+    return c.json({ error: 'Failed to update schedule' }, 500);
+  }
+});
+
+// DELETE /schedules/:id - Delete a schedule (its audits are kept)
+scheduleRoutes.delete('/:id', async (c) => {
+  try {
+    const userId = getUserId(c);
+    const existing = await getSchedule(c.req.param('id'));
+    if (!existing) {
+      return c.json({ error: 'Schedule not found' }, 404);
+    }
+
+    if (userId && existing.user_id !== userId) {
+      return c.json({ error: 'Unauthorized' }, 403);
+    }
+
+    await deleteSchedule(existing.id);
+    return c.json({ message: 'Schedule deleted' });
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    return c.json({ error: 'Failed to delete schedule' }, 500);
+  }
+});
+
 // Mount audit routes
+// User routes - require authentication
+const userRoutes = new Hono();
+
+userRoutes.use('*', authMiddleware);
+
+// GET /users - Team members issues can be assigned to (signed-in users with an email address)
+userRoutes.get('/', async (c) => {
+  try {
+    const db = await getDatabase();
+    const result = await db
+      .select({ id: schema.users.id, email: schema.users.email, display_name: schema.users.display_name })
+      .from(schema.users)
+      .where(isNotNull(schema.users.email))
+      .orderBy(asc(schema.users.email));
+
+    return c.json({ users: result });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return c.json({ error: 'Failed to fetch users' }, 500);
+  }
+});
+
+// Job routes - require authentication
+const jobRoutes = new Hono();
+
+jobRoutes.use('*', authMiddleware);
+
+// The failed jobs of all users are listed, so only admins may see and retry them
+jobRoutes.use('*', async (c, next) => {
+  if (!isAdminEmail(getUserEmail(c))) {
+    return c.json({ error: 'Only admins can manage failed jobs' }, 403);
+  }
+  await next();
+});
+
+// GET /jobs/dead - Jobs that failed for good (permanent error or no attempts left)
+jobRoutes.get('/dead', async (c) => {
+  try {
+    const jobs = await getDeadJobs();
+    return c.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching dead jobs:', error);
+    return c.json({ error: 'Failed to fetch dead jobs' }, 500);
+  }
+});
+
+// POST /jobs/:id/retry - Put a dead job back into the queue
+jobRoutes.post('/:id/retry', async (c) => {
+  try {
+    const jobId = c.req.param('id');
+    const job = isUuid(jobId) ? await retryDeadJob(jobId) : null;
+
+    if (!job) {
+      return c.json({ error: 'Failed job not found or its audit was cancelled' }, 404);
+    }
+
+    if (job.job_type === 'crawl_page' || job.job_type === 'analyze_page') {
+      await reopenFailedPage(job);
+    }
+
+    return c.json({ job, message: 'Job queued again' });
+  } catch (error) {
+    console.error('Error retrying job:', error);
+    return c.json({ error: 'Failed to retry job' }, 500);
+  }
+});
+
 api.route('/audits', auditRoutes);
 
+// Mount user routes
+api.route('/users', userRoutes);
+
+// Mount job routes
+api.route('/jobs', jobRoutes);
+
+// Mount audit schedule routes
+api.route('/schedules', scheduleRoutes);
+
+// Mount custom check routes
+api.route('/issue-types', issueTypeRoutes);
+api.route('/style-rules', styleRuleRoutes);
+
+// Mount prompt template routes
+api.route('/prompt-templates', promptTemplateRoutes);
+
 // Mount the protected routes under /protected
 api.route('/protected', protectedRoutes);
 
@@ -368,9 +1493,19 @@ app.route('/api/v1', api);
 if (typeof process !== 'undefined') {
   startJobProcessor(async (job) => {
     if (job.job_type === 'crawl_page') {
-      await processCrawlPageJob(job);
+      return processCrawlPageJob(job);
     } else if (job.job_type === 'analyze_page') {
       await processAnalyzePageJob(job);
+    } else if (job.job_type === 'analyze_audit') {
+      await processAnalyzeAuditJob(job);
+    } else if (job.job_type === 'schedule_audit') {
+      await processScheduleAuditJob(job);
+    }
+  }, async (job) => {
+    if (job.job_type === 'crawl_page' || job.job_type === 'analyze_page') {
+      await failExpiredPageJob(job);
+    } else if (job.job_type === 'analyze_audit') {
+      await failExpiredAuditJob(job);
     }
   }).catch((error) => {
     console.error('Failed to start job processor:', error);
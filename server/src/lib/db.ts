@@ -65,4 +65,8 @@ export const testDatabaseConnection = async (): Promise<boolean> => {
 export const clearConnectionCache = (): void => {
   cachedConnection = null;
   cachedConnectionString = null;
-};
\ No newline at end of file
+};
+
+// Ids from URLs are checked before querying uuid columns (Postgres rejects malformed uuids with an error)
+export const isUuid = (value: string): boolean =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
@@ -79,6 +79,19 @@ export function getAllowAnonymousUsers(): boolean {
   return getEnv('ALLOW_ANONYMOUS_USERS') !== 'false';
 }
 
+/**
+ * Check if an email belongs to an admin (comma-separated ADMIN_EMAILS)
+ * Nobody is an admin if the variable is not set
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const adminEmails = (getEnv('ADMIN_EMAILS') || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(email.toLowerCase());
+}
+
 /**
  * For Node.js environments - get process.env
  */
@@ -1,23 +1,169 @@
-import { pgTable, uuid, text, integer, timestamp, jsonb, pgEnum } from 'drizzle-orm/pg-core';
-import { appSchema } from './users';
+import {
+  pgTable,
+  uuid,
+  text,
+  integer,
+  timestamp,
+  jsonb,
+  pgEnum,
+  real,
+  boolean,
+  unique,
+  type AnyPgColumn,
+} from 'drizzle-orm/pg-core';
+import { appSchema, users } from './users';
 
 // Enums
-export const auditStatusEnum = pgEnum('audit_status', ['pending', 'crawling', 'analyzing', 'completed', 'failed']);
-export const pageStatusEnum = pgEnum('page_status', ['pending', 'crawling', 'analyzing', 'completed', 'failed']);
-export const issueTypeEnum = pgEnum('issue_type', ['grammar', 'redundancy', 'contradiction', 'placeholder', 'empty']);
+export const auditStatusEnum = pgEnum('audit_status', ['pending', 'crawling', 'analyzing', 'completed', 'failed', 'paused', 'cancelled']);
+export const pageStatusEnum = pgEnum('page_status', ['pending', 'crawling', 'analyzing', 'completed', 'failed', 'skipped']);
+export const issueSourceEnum = pgEnum('issue_source', ['ai', 'rule']);
+export const issueStatusEnum = pgEnum('issue_status', ['open', 'accepted', 'false_positive', 'fixed', 'wont_fix']);
 export const severityEnum = pgEnum('severity', ['low', 'medium', 'high']);
-export const jobTypeEnum = pgEnum('job_type', ['crawl_page', 'analyze_page']);
+export const jobTypeEnum = pgEnum('job_type', ['crawl_page', 'analyze_page', 'analyze_audit', 'schedule_audit']);
+export const crawlerBackendEnum = pgEnum('crawler_backend', ['html', 'jina']);
+export const aiProviderEnum = pgEnum('ai_provider', ['openai', 'anthropic']);
+export const styleRuleKindEnum = pgEnum('style_rule_kind', ['forbidden_terms', 'required_spelling', 'pattern', 'ai']);
 export const jobStatusEnum = pgEnum('job_status', ['pending', 'processing', 'completed', 'failed']);
+export const scheduleFrequencyEnum = pgEnum('schedule_frequency', ['daily', 'weekly', 'monthly', 'cron']);
+
+// URL scoping chosen when the audit was started (stored on the audit for reference)
+export interface UrlFilterConfig {
+  include?: string[];
+  exclude?: string[];
+  max_urls?: number;
+  sample?: boolean;
+  sample_depth?: number;
+}
+
+// hreflang alternate link of a crawled page
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
+
+// Entry of the H1–H6 outline of a crawled page
+export interface HeadingOutlineItem {
+  level: number;
+  text: string;
+}
+
+// issue_types table (built-in types are seeded by the migration, custom checks add their own)
+export const issueTypes = appSchema.table('issue_types', {
+  key: text('key').primaryKey(), // Stored in audit_issues.issue_type and returned by the AI
+  label: text('label').notNull(),
+  description: text('description'),
+  color: text('color').notNull().default('gray'), // Badge color name, see ISSUE_TYPE_COLORS
+  is_builtin: boolean('is_builtin').notNull().default(false),
+  user_id: text('user_id').references(() => users.id, { onDelete: 'cascade' }), // null = shared
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// style_rules table (custom checks, e.g. brand style guide rules)
+export const styleRules = appSchema.table('style_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: text('user_id').references(() => users.id, { onDelete: 'cascade' }), // null = applies to every audit
+  issue_type: text('issue_type').references(() => issueTypes.key).notNull(),
+  name: text('name').notNull(),
+  kind: styleRuleKindEnum('kind').notNull(),
+  terms: jsonb('terms').$type<string[]>().notNull().default([]), // forbidden_terms / required_spelling
+  pattern: text('pattern'), // pattern: regular expression
+  instruction: text('instruction'), // ai: what the model should check
+  severity: severityEnum('severity').notNull().default('medium'),
+  suggestion: text('suggestion'),
+  enabled: boolean('enabled').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// prompt_templates table (analysis prompts editable at runtime; the text lives in the versions)
+export const promptTemplates = appSchema.table('prompt_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  is_default: boolean('is_default').notNull().default(false), // Used for new audits without an explicit template
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// prompt_template_versions table (immutable – every edit of the text adds a version)
+export const promptTemplateVersions = appSchema.table(
+  'prompt_template_versions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    template_id: uuid('template_id').references(() => promptTemplates.id, { onDelete: 'cascade' }).notNull(),
+    version: integer('version').notNull(),
+    content: text('content').notNull(),
+    created_by: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    templateVersion: unique('prompt_template_versions_template_version_unique').on(table.template_id, table.version),
+  })
+);
 
 // audits table
+// audit_schedules table (recurring audits, started by schedule_audit jobs)
+export const auditSchedules = appSchema.table('audit_schedules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  user_id: text('user_id').references(() => users.id, { onDelete: 'set null' }),
+  name: text('name').notNull(),
+  sitemap_url: text('sitemap_url').notNull(), // Sitemap URL, or the site origin if discover_sitemaps is set
+  discover_sitemaps: boolean('discover_sitemaps').notNull().default(false), // Find the sitemaps again on every run
+  frequency: scheduleFrequencyEnum('frequency').notNull(),
+  cron_expression: text('cron_expression'), // Only for frequency "cron"
+  enabled: boolean('enabled').notNull().default(true),
+  // Audit settings, null = default at the time of the run
+  rate_limit_ms: integer('rate_limit_ms').notNull().default(1000),
+  crawler_backend: crawlerBackendEnum('crawler_backend'),
+  url_filter: jsonb('url_filter').$type<UrlFilterConfig>(),
+  ai_provider: aiProviderEnum('ai_provider'),
+  ai_model: text('ai_model'),
+  ai_base_url: text('ai_base_url'),
+  ai_temperature: real('ai_temperature'),
+  ai_max_tokens: integer('ai_max_tokens'),
+  target_language: text('target_language'),
+  prompt_template_id: uuid('prompt_template_id').references(() => promptTemplates.id, { onDelete: 'set null' }),
+  next_run_at: timestamp('next_run_at'), // null while disabled
+  last_run_at: timestamp('last_run_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// audit_schedule_runs table (history of a schedule, including runs that could not start an audit)
+export const auditScheduleRuns = appSchema.table('audit_schedule_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  schedule_id: uuid('schedule_id').references(() => auditSchedules.id, { onDelete: 'cascade' }).notNull(),
+  audit_id: uuid('audit_id').references((): AnyPgColumn => audits.id, { onDelete: 'set null' }),
+  scheduled_for: timestamp('scheduled_for').notNull(),
+  error: text('error'), // Why no audit was started
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 export const audits = appSchema.table('audits', {
   id: uuid('id').primaryKey().defaultRandom(),
   user_id: text('user_id').references(() => appSchema.users.id, { onDelete: 'set null' }),
   sitemap_url: text('sitemap_url').notNull(),
+  sitemap_urls: jsonb('sitemap_urls').$type<string[]>().notNull().default([]),
   status: auditStatusEnum('status').notNull().default('pending'),
+  priority: integer('priority').notNull().default(0), // Higher is processed first, set by admins
   total_urls: integer('total_urls').notNull().default(0),
   processed_urls: integer('processed_urls').notNull().default(0),
   rate_limit_ms: integer('rate_limit_ms').notNull().default(1000),
+  crawler_backend: crawlerBackendEnum('crawler_backend').notNull().default('jina'),
+  url_filter: jsonb('url_filter').$type<UrlFilterConfig>(),
+  modified_since: timestamp('modified_since'),
+  // Model used for the AI analysis (null on audits created before it was configurable)
+  ai_provider: aiProviderEnum('ai_provider'),
+  ai_model: text('ai_model'),
+  ai_base_url: text('ai_base_url'),
+  ai_temperature: real('ai_temperature'),
+  ai_max_tokens: integer('ai_max_tokens'),
+  target_language: text('target_language'), // Only pages in this language are analyzed, null = all
+  // Prompt used for the AI analysis, null = built-in prompt (versions in use cannot be deleted)
+  prompt_version_id: uuid('prompt_version_id').references(() => promptTemplateVersions.id, { onDelete: 'restrict' }),
+  // Audit this one re-runs with the same settings (null = first run)
+  previous_audit_id: uuid('previous_audit_id').references((): AnyPgColumn => audits.id, { onDelete: 'set null' }),
+  schedule_id: uuid('schedule_id').references(() => auditSchedules.id, { onDelete: 'set null' }), // Started by a schedule
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -28,45 +174,146 @@ export const auditPages = appSchema.table('audit_pages', {
   audit_id: uuid('audit_id').references(() => audits.id, { onDelete: 'cascade' }).notNull(),
   url: text('url').notNull(),
   status: pageStatusEnum('status').notNull().default('pending'),
+  lastmod: timestamp('lastmod'),
+  changefreq: text('changefreq'),
+  priority: real('priority'),
   title: text('title'),
   content: text('content'),
+  http_status: integer('http_status'),
+  final_url: text('final_url'),
+  canonical_url: text('canonical_url'),
+  meta_description: text('meta_description'),
+  lang: text('lang'),
+  hreflang: jsonb('hreflang').$type<HreflangAlternate[]>(),
+  headings: jsonb('headings').$type<HeadingOutlineItem[]>(),
+  word_count: integer('word_count'),
+  response_headers: jsonb('response_headers').$type<Record<string, string>>(),
+  detected_language: text('detected_language'), // From content, lang attribute or hreflang
   quality_score: integer('quality_score'),
+  rejected_ai_issues: integer('rejected_ai_issues').notNull().default(0), // AI issues not matching the schema
   error_message: text('error_message'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   analyzed_at: timestamp('analyzed_at'),
 });
 
+// audit_page_html table (raw HTML kept apart from audit_pages to keep page queries light)
+export const auditPageHtml = appSchema.table('audit_page_html', {
+  page_id: uuid('page_id').primaryKey().references(() => auditPages.id, { onDelete: 'cascade' }),
+  html: text('html').notNull(),
+  fetched_at: timestamp('fetched_at').defaultNow().notNull(),
+});
+
+// duplicate_clusters table (pages of an audit with near-identical content)
+export const duplicateClusters = appSchema.table('duplicate_clusters', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  audit_id: uuid('audit_id').references(() => audits.id, { onDelete: 'cascade' }).notNull(),
+  similarity: real('similarity').notNull(), // Estimated Jaccard similarity (0-1)
+  page_count: integer('page_count').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // audit_issues table
 export const auditIssues = appSchema.table('audit_issues', {
   id: uuid('id').primaryKey().defaultRandom(),
   page_id: uuid('page_id').references(() => auditPages.id, { onDelete: 'cascade' }).notNull(),
-  issue_type: issueTypeEnum('issue_type').notNull(),
+  issue_type: text('issue_type').references(() => issueTypes.key).notNull(),
   severity: severityEnum('severity').notNull(),
   description: text('description').notNull(),
   snippet: text('snippet').notNull(),
+  // Position of the snippet in the page content (end exclusive), null if not found
+  snippet_offset: integer('snippet_offset'),
+  snippet_end: integer('snippet_end'),
+  snippet_confidence: real('snippet_confidence'), // 1 = exact match, lower = found approximately
   suggestion: text('suggestion'),
+  source: issueSourceEnum('source').notNull().default('ai'),
+  cluster_id: uuid('cluster_id').references(() => duplicateClusters.id, { onDelete: 'cascade' }), // duplicate_content only
+  // Cross-page findings: the other page and its conflicting text
+  related_page_id: uuid('related_page_id').references(() => auditPages.id, { onDelete: 'cascade' }),
+  related_url: text('related_url'),
+  related_snippet: text('related_snippet'),
+  // Triage by editors
+  status: issueStatusEnum('status').notNull().default('open'),
+  assignee_id: text('assignee_id').references(() => users.id, { onDelete: 'set null' }),
+  comment: text('comment'),
+  triaged_by: text('triaged_by').references(() => users.id, { onDelete: 'set null' }),
+  triaged_at: timestamp('triaged_at'),
 });
 
+// issue_suppressions table (false positives; the same finding on the same URL is dropped in later audits of the same owner)
+export const issueSuppressions = appSchema.table(
+  'issue_suppressions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    owner_id: text('owner_id').references(() => users.id, { onDelete: 'cascade' }).notNull(), // Owner of the audits it applies to
+    url: text('url').notNull(),
+    issue_type: text('issue_type').references(() => issueTypes.key, { onDelete: 'cascade' }).notNull(),
+    snippet_key: text('snippet_key').notNull(), // Normalized snippet used for matching
+    snippet: text('snippet').notNull(),
+    created_by: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+    created_at: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    ownerUrlTypeSnippet: unique('issue_suppressions_owner_url_type_snippet_unique').on(
+      table.owner_id,
+      table.url,
+      table.issue_type,
+      table.snippet_key
+    ),
+  })
+);
+
 // job_queue table
 export const jobQueue = appSchema.table('job_queue', {
   id: uuid('id').primaryKey().defaultRandom(),
   job_type: jobTypeEnum('job_type').notNull(),
+  audit_id: uuid('audit_id').references(() => audits.id, { onDelete: 'cascade' }), // Null for jobs not tied to an audit
   payload: jsonb('payload').notNull(),
   status: jobStatusEnum('status').notNull().default('pending'),
   attempts: integer('attempts').notNull().default(0),
   max_attempts: integer('max_attempts').notNull().default(3),
-  locked_until: timestamp('locked_until'),
+  locked_until: timestamp('locked_until'), // Lease of the worker processing the job, renewed by heartbeats
+  locked_by: text('locked_by'), // Worker that claimed the job
+  host: text('host'), // Host a crawl_page job requests; not claimed while the host has no free slot
+  claimed_at: timestamp('claimed_at'), // Last claim, for round-robin between audits and users
+  priority: integer('priority').notNull().default(0), // Added to the audit's priority, higher first
+  run_after: timestamp('run_after'), // Not picked up before this time (null = immediately), used for retry backoff
+  last_error: text('last_error'), // Error of the last failed attempt
   created_at: timestamp('created_at').defaultNow().notNull(),
   processed_at: timestamp('processed_at'),
 });
 
+// crawl_hosts table - rate limit state per host, shared by all workers and server instances
+export const crawlHosts = appSchema.table('crawl_hosts', {
+  host: text('host').primaryKey(),
+  booked_until: timestamp('booked_until').notNull(), // End of the crawl slots taken so far
+  next_slot_at: timestamp('next_slot_at').notNull(), // No crawl of the host is claimed before (earlier than booked_until with a burst)
+});
+
 // Types
+export type IssueTypeRecord = typeof issueTypes.$inferSelect;
+export type NewIssueTypeRecord = typeof issueTypes.$inferInsert;
+export type StyleRule = typeof styleRules.$inferSelect;
+export type NewStyleRule = typeof styleRules.$inferInsert;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type NewPromptTemplate = typeof promptTemplates.$inferInsert;
+export type PromptTemplateVersion = typeof promptTemplateVersions.$inferSelect;
+export type NewPromptTemplateVersion = typeof promptTemplateVersions.$inferInsert;
+export type AuditSchedule = typeof auditSchedules.$inferSelect;
+export type NewAuditSchedule = typeof auditSchedules.$inferInsert;
+export type AuditScheduleRun = typeof auditScheduleRuns.$inferSelect;
+export type NewAuditScheduleRun = typeof auditScheduleRuns.$inferInsert;
 export type Audit = typeof audits.$inferSelect;
 export type NewAudit = typeof audits.$inferInsert;
 export type AuditPage = typeof auditPages.$inferSelect;
 export type NewAuditPage = typeof auditPages.$inferInsert;
+export type AuditPageHtml = typeof auditPageHtml.$inferSelect;
+export type NewAuditPageHtml = typeof auditPageHtml.$inferInsert;
+export type DuplicateCluster = typeof duplicateClusters.$inferSelect;
+export type NewDuplicateCluster = typeof duplicateClusters.$inferInsert;
 export type AuditIssue = typeof auditIssues.$inferSelect;
 export type NewAuditIssue = typeof auditIssues.$inferInsert;
+export type IssueSuppression = typeof issueSuppressions.$inferSelect;
+export type NewIssueSuppression = typeof issueSuppressions.$inferInsert;
 export type JobQueue = typeof jobQueue.$inferSelect;
 export type NewJobQueue = typeof jobQueue.$inferInsert;
 
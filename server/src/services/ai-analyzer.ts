@@ -1,9 +1,24 @@
 import { getEnv } from '../lib/env';
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
+import { splitIntoChunks, type ContentChunk } from './content-chunker';
+import { locateSnippet, shiftLocation, yieldToEventLoop, type SnippetLocation } from './snippet-locator';
+import type { Language } from './language-detector';
 
-export type IssueType = 'grammar' | 'redundancy' | 'contradiction' | 'placeholder' | 'empty';
+// Built-in issue types; custom checks add their own (issue_types table), so an issue type is any key
+export type BuiltinIssueType =
+  | 'grammar'
+  | 'redundancy'
+  | 'contradiction'
+  | 'placeholder'
+  | 'empty'
+  | 'readability'
+  | 'metadata'
+  | 'formatting'
+  | 'duplicate_content';
+export type IssueType = string;
 export type Severity = 'low' | 'medium' | 'high';
+export type IssueSource = 'ai' | 'rule';
 
 export interface AnalysisIssue {
   type: IssueType;
@@ -11,70 +26,206 @@ export interface AnalysisIssue {
   description: string;
   snippet: string;
   suggestion?: string;
+  source: IssueSource;
+  location?: SnippetLocation; // Where the snippet is in the full page content
+}
+
+/**
+ * Custom check that needs judgement, added to the prompt
+ */
+export interface AiCheck {
+  type: IssueType; // Key of the issue type the model should report
+  instruction: string;
+}
+
+export interface AnalysisOptions {
+  language?: Language | null;
+  promptTemplate?: string; // Built-in prompt or a version from the prompt template store
+  customChecks?: AiCheck[];
 }
 
 export interface AnalysisResult {
   qualityScore: number; // 0-100
   issues: AnalysisIssue[];
+  rejectedIssues: number; // Issues returned by the model that did not match the schema
+}
+
+export type AiProvider = 'openai' | 'anthropic';
+
+export const AI_PROVIDERS: AiProvider[] = ['openai', 'anthropic'];
+
+/**
+ * Model settings used for an analysis (stored per audit)
+ */
+export interface AiSettings {
+  provider: AiProvider;
+  model: string;
+  baseUrl: string | null; // OpenAI-compatible or proxy endpoint, null = provider default
+  temperature: number;
+  maxTokens: number;
 }
 
-const ANALYSIS_PROMPT = `Analysiere den folgenden Website-Content auf Textqualitätsprobleme.
+const DEFAULT_MODELS: Record<AiProvider, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-haiku-20240307',
+};
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 4000;
+const MAX_TEMPERATURE = 2;
+const MAX_MAX_TOKENS = 200000;
+const DEFAULT_MAX_CHUNK_CHARS = 12000;
+
+// Issue types the built-in prompt asks for
+const AI_ISSUE_TYPES: BuiltinIssueType[] = ['grammar', 'redundancy', 'contradiction', 'placeholder', 'empty'];
+
+const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+// Points an issue of each severity deducts from the quality score
+export const SEVERITY_WEIGHTS: Record<Severity, number> = { low: 5, medium: 15, high: 30 };
+
+// Name of the structured output (OpenAI) and of the tool the model has to call (Claude)
+const ISSUE_REPORT_NAME = 'report_issues';
+
+// Placeholders filled in for every analyzed chunk; {content} is required in custom templates
+export const PROMPT_PLACEHOLDERS = ['language', 'grammar_rules', 'title', 'section', 'content', 'custom_checks'] as const;
+
+export type PromptPlaceholder = (typeof PROMPT_PLACEHOLDERS)[number];
 
-Titel: {title}
+/**
+ * Built-in analysis prompt, used when an audit has no prompt template
+ */
+export const DEFAULT_ANALYSIS_PROMPT = `Analysiere den folgenden Website-Content auf Textqualitätsprobleme.
+Sprache des Contents: {language}
+
+Titel: {title}{section}
 Content:
 {content}
 
 Prüfe auf:
-1. Grammatik/Rechtschreibung - Fehler in Sprache
+1. Grammatik/Rechtschreibung - Fehler in Sprache, nach den Regeln der Sprache des Contents:
+{grammar_rules}
 2. Redundanz - Wiederholte Phrasen oder Absätze
 3. Widersprüche - Inkonsistente Informationen (z.B. verschiedene Material-Angaben)
 4. Platzhalter - Lorem Ipsum, TODO, "[hier einfügen]", etc.
-5. Leere Inhalte - Fehlende Beschreibungen
+5. Leere Inhalte - Fehlende Beschreibungen{custom_checks}
 
-Antworte NUR mit einem gültigen JSON-Array im folgenden Format (kein zusätzlicher Text):
-[{ "type": "grammar|redundancy|contradiction|placeholder|empty", 
-   "severity": "low|medium|high",
-   "description": "...",
-   "snippet": "betroffener Text",
-   "suggestion": "Verbesserungsvorschlag" }]
+Gib jedes gefundene Problem mit "type", "severity" (low, medium, high), "description",
+"snippet" (betroffener Text, wörtlich aus dem Content) und "suggestion" (Verbesserungsvorschlag) zurück.
+Ohne Probleme gib eine leere Liste zurück.
 
-Berechne zusätzlich einen Quality Score (0-100) basierend auf der Anzahl und Schwere der gefundenen Probleme.`;
+Schreibe "description" auf Deutsch, "suggestion" in der Sprache des Contents.`;
+
+// Language name and typical error classes the model should look for
+const LANGUAGE_PROMPTS: Record<Language, { name: string; grammarRules: string[] }> = {
+  de: {
+    name: 'Deutsch',
+    grammarRules: [
+      'Groß- und Kleinschreibung (Substantivierungen, Anrede "Sie")',
+      '"das" vs. "dass", "seid" vs. "seit"',
+      'Kommasetzung bei Nebensätzen und Infinitivgruppen',
+      'Zusammenschreibung von Komposita (keine Leerzeichen in Komposita)',
+    ],
+  },
+  en: {
+    name: 'Englisch',
+    grammarRules: [
+      '"its" vs. "it\'s", "their/there/they\'re", "your/you\'re"',
+      'Übereinstimmung von Subjekt und Verb',
+      'Einheitlich britische oder amerikanische Schreibweise innerhalb der Seite',
+      'Einheitliche Großschreibung in Überschriften',
+    ],
+  },
+  fr: {
+    name: 'Französisch',
+    grammarRules: [
+      'Angleichung in Genus und Numerus (Adjektive, Partizipien)',
+      'Akzente (é, è, à, ç) – fehlende Akzente sind Fehler',
+      'Geschütztes Leerzeichen vor ; : ! ? und innerhalb von « »',
+      'Elision (l\', d\', qu\') sowie "a" vs. "à"',
+    ],
+  },
+  it: {
+    name: 'Italienisch',
+    grammarRules: [
+      'Akzente (perché, più, "è" vs. "e") – Apostroph statt Akzent ist ein Fehler',
+      'Apostroph bei Artikeln ("un\'amica" vs. "un amico", "qual è")',
+      'Angleichung in Genus und Numerus',
+      'Doppelkonsonanten',
+    ],
+  },
+  nl: {
+    name: 'Niederländisch',
+    grammarRules: [
+      'd/t/dt-Fehler bei Verben ("wordt", "gebeurd" vs. "gebeurt")',
+      'Zusammenschreibung von Komposita',
+      '"hun" vs. "hen", "als" vs. "dan" bei Vergleichen',
+      'Fugen-n und Fugen-s in Komposita',
+    ],
+  },
+};
+
+const UNKNOWN_LANGUAGE_PROMPT = {
+  name: 'unbekannt – bestimme sie selbst',
+  grammarRules: ['Rechtschreibung, Grammatik und Zeichensetzung der jeweiligen Sprache'],
+};
 
 /**
  * Analyze content using AI (OpenAI or Claude)
+ * Prompt and grammar rules follow the page language (unknown languages are left to the model)
  */
 export async function analyzeContent(
   title: string,
-  content: string
+  content: string,
+  settings: AiSettings = getDefaultAiSettings(),
+  options: AnalysisOptions = {}
 ): Promise<AnalysisResult> {
-  const provider = getEnv('AI_PROVIDER', 'openai');
-  const prompt = ANALYSIS_PROMPT.replace('{title}', title).replace('{content}', content);
+  const { language = null, promptTemplate = DEFAULT_ANALYSIS_PROMPT, customChecks = [] } = options;
+  const allowedTypes = [...AI_ISSUE_TYPES, ...customChecks.map((check) => check.type)];
+  const languagePrompt = language ? LANGUAGE_PROMPTS[language] : UNKNOWN_LANGUAGE_PROMPT;
+  const maxChunkChars = parseInt(getEnv('AI_MAX_CHUNK_CHARS', '') || '') || DEFAULT_MAX_CHUNK_CHARS;
+  const chunks = splitIntoChunks(content, { maxChars: maxChunkChars });
 
   try {
-    let issues: AnalysisIssue[] = [];
-    let qualityScore = 100;
+    const issues: AnalysisIssue[] = [];
+    let rejectedIssues = 0;
 
-    if (provider === 'anthropic') {
-      issues = await analyzeWithClaude(prompt);
-    } else {
-      issues = await analyzeWithOpenAI(prompt);
-    }
+    // Chunks are analyzed one after another to stay within provider rate limits
+    for (const [index, chunk] of chunks.entries()) {
+      const prompt = renderPrompt(promptTemplate, {
+        language: languagePrompt.name,
+        grammar_rules: languagePrompt.grammarRules.map((rule) => `   - ${rule}`).join('\n'),
+        title,
+        section: describeChunk(chunk, index, chunks.length),
+        content: chunk.text,
+        custom_checks: describeCustomChecks(customChecks),
+      });
 
-    // Calculate quality score based on issues
-    if (issues.length > 0) {
-      const severityWeights = { low: 5, medium: 15, high: 30 };
-      let totalDeduction = 0;
+      const output =
+        settings.provider === 'anthropic'
+          ? await analyzeWithClaude(prompt, settings, allowedTypes)
+          : await analyzeWithOpenAI(prompt, settings, allowedTypes);
+      const { valid, rejected } = validateIssues(output.issues, allowedTypes);
+      rejectedIssues += rejected;
 
-      for (const issue of issues) {
-        totalDeduction += severityWeights[issue.severity];
+      for (const issue of valid) {
+        const location =
+          shiftLocation(locateSnippet(chunk.text, issue.snippet), chunk.start) ?? locateSnippet(content, issue.snippet);
+        issues.push({ ...issue, location: location ?? undefined });
+        await yieldToEventLoop();
       }
+    }
+
+    const uniqueIssues = chunks.length > 1 ? dedupeChunkIssues(issues) : issues;
 
-      qualityScore = Math.max(0, 100 - totalDeduction);
+    if (rejectedIssues > 0) {
+      console.warn(`⚠️ Dropped ${rejectedIssues} AI issue(s) not matching the schema: ${title}`);
     }
 
     return {
-      qualityScore,
-      issues,
+      qualityScore: calculateQualityScore(uniqueIssues),
+      issues: uniqueIssues,
+      rejectedIssues,
     };
   } catch (error) {
     if (error instanceof Error) {
@@ -84,112 +235,369 @@ export async function analyzeContent(
   }
 }
 
-async function analyzeWithOpenAI(prompt: string): Promise<AnalysisIssue[]> {
-  const apiKey = getEnv('OPENAI_API_KEY');
-  if (!apiKey) {
+/**
+ * Fill the placeholders of a prompt template (every occurrence, in a single pass,
+ * so placeholders inside the page content are left alone)
+ */
+function renderPrompt(template: string, values: Record<PromptPlaceholder, string>): string {
+  const pattern = new RegExp(`\\{(${PROMPT_PLACEHOLDERS.join('|')})\\}`, 'g');
+  return template.replace(pattern, (_, name: PromptPlaceholder) => values[name]);
+}
+
+/**
+ * Custom checks as additional numbered prompt items
+ */
+function describeCustomChecks(checks: AiCheck[]): string {
+  if (checks.length === 0) return '';
+  const items = checks.map(
+    (check, index) => `${AI_ISSUE_TYPES.length + 1 + index}. ${check.instruction} - type "${check.type}"`
+  );
+  return `\n${items.join('\n')}\n(Für diese Prüfungen den angegebenen "type" verwenden)`;
+}
+
+/**
+ * Tell the model it sees a part of a longer page
+ */
+function describeChunk(chunk: ContentChunk, index: number, total: number): string {
+  if (total === 1) return '';
+  const section = chunk.headings.length > 0 ? ` – Abschnitt: ${chunk.headings.join(' > ')}` : '';
+  return `\nAusschnitt ${index + 1} von ${total}${section} (fehlender Kontext vor oder nach dem Ausschnitt ist kein Problem)`;
+}
+
+/**
+ * Chunks overlap, so the same finding can be reported twice near a boundary
+ * Keeps the more severe of two issues with the same type and overlapping snippet
+ */
+function dedupeChunkIssues(issues: AnalysisIssue[]): AnalysisIssue[] {
+  const result: AnalysisIssue[] = [];
+
+  for (const issue of issues) {
+    const index = result.findIndex((existing) => isSameFinding(existing, issue));
+    if (index === -1) {
+      result.push(issue);
+    } else if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[result[index].severity]) {
+      result[index] = issue;
+    }
+  }
+
+  return result;
+}
+
+function isSameFinding(a: AnalysisIssue, b: AnalysisIssue): boolean {
+  if (a.type !== b.type) return false;
+  if (a.location && b.location) {
+    return a.location.start < b.location.end && b.location.start < a.location.end;
+  }
+  return a.snippet.trim().toLowerCase() === b.snippet.trim().toLowerCase();
+}
+
+export function isAiProvider(value: unknown): value is AiProvider {
+  return typeof value === 'string' && (AI_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Settings from the environment (AI_PROVIDER, AI_MODEL, AI_BASE_URL, AI_TEMPERATURE, AI_MAX_TOKENS)
+ * AI_MODEL and AI_BASE_URL only apply to the provider configured in AI_PROVIDER
+ */
+export function getDefaultAiSettings(provider?: AiProvider): AiSettings {
+  const envProvider = getEnv('AI_PROVIDER', 'openai');
+  const defaultProvider: AiProvider = isAiProvider(envProvider) ? envProvider : 'openai';
+  const selected = provider ?? defaultProvider;
+  const useEnvEndpoint = selected === defaultProvider;
+
+  const temperature = parseFloat(getEnv('AI_TEMPERATURE', '') || '');
+  const maxTokens = parseInt(getEnv('AI_MAX_TOKENS', '') || '');
+
+  return {
+    provider: selected,
+    model: (useEnvEndpoint && getEnv('AI_MODEL')) || DEFAULT_MODELS[selected],
+    baseUrl: (useEnvEndpoint && getEnv('AI_BASE_URL')) || null,
+    temperature: isNaN(temperature) ? DEFAULT_TEMPERATURE : temperature,
+    maxTokens: isNaN(maxTokens) ? DEFAULT_MAX_TOKENS : maxTokens,
+  };
+}
+
+/**
+ * Fill settings that are not set with the defaults for the chosen provider
+ */
+export function resolveAiSettings(overrides: Partial<AiSettings> = {}): AiSettings {
+  const defaults = getDefaultAiSettings(overrides.provider);
+  return {
+    provider: defaults.provider,
+    model: overrides.model || defaults.model,
+    baseUrl: overrides.baseUrl || defaults.baseUrl,
+    temperature: overrides.temperature ?? defaults.temperature,
+    maxTokens: overrides.maxTokens ?? defaults.maxTokens,
+  };
+}
+
+/**
+ * Validate AI settings from a request body (snake_case keys)
+ * Throws an Error with a user-facing message if invalid
+ */
+export function validateAiSettings(input: unknown): Partial<AiSettings> {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('ai_settings must be an object');
+  }
+
+  const { provider, model, base_url, temperature, max_tokens } = input as Record<string, unknown>;
+  const settings: Partial<AiSettings> = {};
+
+  if (provider !== undefined && provider !== null && provider !== '') {
+    if (!isAiProvider(provider)) {
+      throw new Error(`ai_settings.provider must be one of: ${AI_PROVIDERS.join(', ')}`);
+    }
+    settings.provider = provider;
+  }
+
+  if (model !== undefined && model !== null && model !== '') {
+    if (typeof model !== 'string' || model.length > 200) {
+      throw new Error('ai_settings.model must be a model name');
+    }
+    settings.model = model.trim();
+  }
+
+  if (base_url !== undefined && base_url !== null && base_url !== '') {
+    try {
+      if (typeof base_url !== 'string' || !/^https?:$/.test(new URL(base_url).protocol)) {
+        throw new Error();
+      }
+    } catch {
+      throw new Error('ai_settings.base_url must be an http(s) URL');
+    }
+    settings.baseUrl = base_url.replace(/\/+$/, '');
+  }
+
+  if (temperature !== undefined && temperature !== null) {
+    if (typeof temperature !== 'number' || temperature < 0 || temperature > MAX_TEMPERATURE) {
+      throw new Error(`ai_settings.temperature must be a number between 0 and ${MAX_TEMPERATURE}`);
+    }
+    if (settings.provider === 'anthropic' && temperature > 1) {
+      throw new Error('ai_settings.temperature must be between 0 and 1 for anthropic');
+    }
+    settings.temperature = temperature;
+  }
+
+  if (max_tokens !== undefined && max_tokens !== null) {
+    if (!Number.isInteger(max_tokens) || (max_tokens as number) < 1 || (max_tokens as number) > MAX_MAX_TOKENS) {
+      throw new Error(`ai_settings.max_tokens must be an integer between 1 and ${MAX_MAX_TOKENS}`);
+    }
+    settings.maxTokens = max_tokens as number;
+  }
+
+  return settings;
+}
+
+/**
+ * API key to send with a request
+ * The provider keys only go to the provider itself or the operator's AI_BASE_URL: base_url comes
+ * from the request, so any other endpoint gets AI_CUSTOM_API_KEY or no key at all
+ */
+function getApiKey(settings: AiSettings): string | undefined {
+  const envBaseUrl = getEnv('AI_BASE_URL')?.replace(/\/+$/, '');
+  if (!settings.baseUrl || settings.baseUrl === envBaseUrl) {
+    return getEnv(settings.provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY');
+  }
+  return getEnv('AI_CUSTOM_API_KEY');
+}
+
+/**
+ * Check whether the API key for the provider is set
+ * Custom endpoints (local OpenAI-compatible servers) usually need no key
+ */
+export function isAiAnalysisConfigured(settings: AiSettings = getDefaultAiSettings()): boolean {
+  if (settings.baseUrl) return true;
+  return Boolean(getEnv(settings.provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY'));
+}
+
+/**
+ * Calculate quality score (0-100) based on number and severity of issues
+ */
+export function calculateQualityScore(issues: Pick<AnalysisIssue, 'severity'>[]): number {
+  let totalDeduction = 0;
+
+  for (const issue of issues) {
+    totalDeduction += SEVERITY_WEIGHTS[issue.severity];
+  }
+
+  return Math.max(0, 100 - totalDeduction);
+}
+
+/**
+ * JSON schema of the model output, shared by both providers
+ * Mirrors AnalysisIssue without the fields set locally (source, location); strict mode needs every
+ * property listed as required, so the optional suggestion is nullable instead
+ */
+function buildIssueReportSchema(allowedTypes: IssueType[]) {
+  return {
+    type: 'object' as const,
+    properties: {
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: allowedTypes },
+            severity: { type: 'string', enum: SEVERITIES },
+            description: { type: 'string' },
+            snippet: { type: 'string', description: 'Betroffener Text, wörtlich aus dem Content' },
+            suggestion: { type: ['string', 'null'] },
+          },
+          required: ['type', 'severity', 'description', 'snippet', 'suggestion'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['issues'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Raw model output; the issues are validated by validateIssues
+ */
+interface IssueReport {
+  issues: unknown[];
+}
+
+function toIssueReport(output: unknown, provider: string): IssueReport {
+  if (typeof output !== 'object' || output === null || !Array.isArray((output as IssueReport).issues)) {
+    throw new Error(`${provider} response does not match the issue schema`);
+  }
+  return output as IssueReport;
+}
+
+async function analyzeWithOpenAI(
+  prompt: string,
+  settings: AiSettings,
+  allowedTypes: IssueType[]
+): Promise<IssueReport> {
+  const apiKey = getApiKey(settings);
+  if (!apiKey && !settings.baseUrl) {
     throw new Error('OPENAI_API_KEY is not set');
   }
 
-  const openai = new OpenAI({ apiKey });
+  // Local OpenAI-compatible servers accept any key
+  const openai = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: settings.baseUrl ?? undefined });
 
   const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+    model: settings.model,
     messages: [
       {
         role: 'system',
-        content: 'Du bist ein Experte für Textqualitäts-Analyse. Antworte nur mit gültigem JSON.',
+        content: 'Du bist ein Experte für Textqualitäts-Analyse.',
       },
       {
         role: 'user',
         content: prompt,
       },
     ],
-    response_format: { type: 'json_object' },
-    temperature: 0.3,
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: ISSUE_REPORT_NAME, strict: true, schema: buildIssueReportSchema(allowedTypes) },
+    },
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
   });
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
+  const message = response.choices[0]?.message;
+  if (message?.refusal) {
+    throw new Error(`OpenAI refused the analysis: ${message.refusal}`);
+  }
+  if (!message?.content) {
     throw new Error('No response from OpenAI');
   }
+  if (response.choices[0].finish_reason === 'length') {
+    throw new Error('OpenAI response was cut off (max_tokens reached)');
+  }
 
   try {
-    const parsed = JSON.parse(content);
-    // Handle both array and object with issues array
-    const issues = Array.isArray(parsed) ? parsed : parsed.issues || [];
-    return validateIssues(issues);
+    return toIssueReport(JSON.parse(message.content), 'OpenAI');
   } catch (error) {
-    // Try to extract JSON from markdown code blocks
-    const jsonMatch = content.match(/```(?:json)?\s*(\[[\s\S]*\])\s*```/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[1]);
-      return validateIssues(Array.isArray(parsed) ? parsed : []);
-    }
-    throw new Error('Failed to parse OpenAI response as JSON');
+    // Only endpoints that ignore json_schema (some OpenAI-compatible servers) get here
+    throw new Error(`Failed to parse OpenAI response: ${error instanceof Error ? error.message : error}`);
   }
 }
 
-async function analyzeWithClaude(prompt: string): Promise<AnalysisIssue[]> {
-  const apiKey = getEnv('ANTHROPIC_API_KEY');
-  if (!apiKey) {
+async function analyzeWithClaude(
+  prompt: string,
+  settings: AiSettings,
+  allowedTypes: IssueType[]
+): Promise<IssueReport> {
+  const apiKey = getApiKey(settings);
+  if (!apiKey && !settings.baseUrl) {
     throw new Error('ANTHROPIC_API_KEY is not set');
   }
 
-  const anthropic = new Anthropic({ apiKey });
+  const anthropic = new Anthropic({ apiKey: apiKey || 'not-needed', baseURL: settings.baseUrl ?? undefined });
 
-  const response = await anthropic.messages.create({
-    model: 'claude-3-haiku-20240307',
-    max_tokens: 4000,
+  // The model has to answer by calling the tool, its input follows the schema
+  // (tool_choice is missing from the types of the installed SDK version, hence the separate body)
+  const body = {
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    temperature: settings.temperature,
+    tools: [
+      {
+        name: ISSUE_REPORT_NAME,
+        description: 'Gefundene Textqualitätsprobleme melden',
+        input_schema: buildIssueReportSchema(allowedTypes),
+      },
+    ],
+    tool_choice: { type: 'tool', name: ISSUE_REPORT_NAME },
     messages: [
       {
-        role: 'user',
+        role: 'user' as const,
         content: prompt,
       },
     ],
-  });
+  };
+  const response = await anthropic.beta.tools.messages.create(body);
 
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
+  const toolUse = response.content.find((block) => block.type === 'tool_use' && block.name === ISSUE_REPORT_NAME);
+  if (!toolUse || toolUse.type !== 'tool_use') {
+    throw new Error(
+      response.stop_reason === 'max_tokens'
+        ? 'Claude response was cut off (max_tokens reached)'
+        : 'Claude did not return the issue report'
+    );
   }
 
-  try {
-    // Try to parse as JSON
-    const parsed = JSON.parse(content.text);
-    const issues = Array.isArray(parsed) ? parsed : parsed.issues || [];
-    return validateIssues(issues);
-  } catch (error) {
-    // Try to extract JSON from markdown code blocks
-    const jsonMatch = content.text.match(/```(?:json)?\s*(\[[\s\S]*\])\s*```/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[1]);
-      return validateIssues(Array.isArray(parsed) ? parsed : []);
-    }
-    throw new Error('Failed to parse Claude response as JSON');
-  }
-}
-
-function validateIssues(issues: any[]): AnalysisIssue[] {
-  const validTypes: IssueType[] = ['grammar', 'redundancy', 'contradiction', 'placeholder', 'empty'];
-  const validSeverities: Severity[] = ['low', 'medium', 'high'];
-
-  return issues
-    .filter((issue) => {
-      return (
-        issue &&
-        typeof issue === 'object' &&
-        validTypes.includes(issue.type) &&
-        validSeverities.includes(issue.severity) &&
-        typeof issue.description === 'string' &&
-        typeof issue.snippet === 'string'
-      );
-    })
-    .map((issue) => ({
-      type: issue.type as IssueType,
-      severity: issue.severity as Severity,
-      description: issue.description,
-      snippet: issue.snippet,
-      suggestion: issue.suggestion || undefined,
-    }));
+  return toIssueReport(toolUse.input, 'Claude');
 }
 
+/**
+ * Keep the issues that match the schema and count the others
+ * Structured output makes rejects rare; a proxy ignoring the schema shows up in the count
+ */
+function validateIssues(issues: unknown[], validTypes: IssueType[]): { valid: AnalysisIssue[]; rejected: number } {
+  const valid: AnalysisIssue[] = [];
+
+  for (const item of issues) {
+    const issue = item as Record<string, unknown> | null;
+    const isValid =
+      typeof issue === 'object' &&
+      issue !== null &&
+      validTypes.includes(issue.type as IssueType) &&
+      SEVERITIES.includes(issue.severity as Severity) &&
+      typeof issue.description === 'string' &&
+      typeof issue.snippet === 'string' &&
+      (issue.suggestion === undefined || issue.suggestion === null || typeof issue.suggestion === 'string');
+
+    if (isValid) {
+      valid.push({
+        type: issue.type as IssueType,
+        severity: issue.severity as Severity,
+        description: issue.description as string,
+        snippet: issue.snippet as string,
+        suggestion: (issue.suggestion as string | null) || undefined,
+        source: 'ai',
+      });
+    }
+  }
+
+  return { valid, rejected: issues.length - valid.length };
+}
@@ -0,0 +1,331 @@
+/**
+ * Comparison of two runs of an audit (a re-run and its predecessor, or any two audits)
+ * Pages are matched by URL, issues by URL, type and snippet like remembered false positives
+ */
+
+import { getDatabase, isUuid } from '../lib/db';
+import { audits, auditPages, auditIssues, type Audit } from '../schema/audits';
+import { eq, and, ne, inArray, sql } from 'drizzle-orm';
+import { snippetKey } from './issue-triage';
+import type { Severity } from './ai-analyzer';
+
+// Runs shown in the trend, counted back from the newer audit
+const MAX_TREND_RUNS = 20;
+
+export interface AuditRunSummary {
+  id: string;
+  created_at: Date;
+  status: Audit['status'];
+  analyzed_pages: number;
+  average_score: number | null;
+  issues: number; // Without issues marked as false positive
+  issues_by_severity: Record<Severity, number>;
+}
+
+export interface ComparedPage {
+  page_id: string;
+  url: string;
+  title: string | null;
+  quality_score: number | null;
+}
+
+export interface ComparedIssue {
+  issue_type: string;
+  severity: Severity;
+  description: string;
+  snippet: string;
+}
+
+export interface PageComparison {
+  url: string;
+  title: string | null;
+  base_page_id: string;
+  target_page_id: string;
+  base_score: number | null;
+  target_score: number | null;
+  score_delta: number | null; // null unless both runs scored the page
+  new_issues: ComparedIssue[];
+  resolved_issues: ComparedIssue[];
+}
+
+export interface AuditComparison {
+  base: AuditRunSummary;
+  target: AuditRunSummary;
+  pages: {
+    added: ComparedPage[];
+    removed: ComparedPage[];
+    changed: PageComparison[]; // Pages in both runs with a different score or issues
+    unchanged: number;
+  };
+  issues: {
+    new: number;
+    resolved: number;
+    persisting: number;
+    by_type: Record<string, { new: number; resolved: number }>;
+  };
+  trend: AuditRunSummary[]; // Oldest first, ending with the target
+}
+
+interface RunPage extends ComparedPage {
+  status: string;
+  issues: ComparedIssue[];
+}
+
+/**
+ * Compare an audit with an earlier one (default: the audit it re-runs)
+ * Returns null if one of the audits does not exist
+ * Throws an Error with a user-facing message if there is nothing to compare with
+ */
+export async function compareAudits(targetId: string, baseId?: string): Promise<AuditComparison | null> {
+  if (!isUuid(targetId) || (baseId !== undefined && !isUuid(baseId))) {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const target = await db.select().from(audits).where(eq(audits.id, targetId)).limit(1);
+  if (target.length === 0) {
+    return null;
+  }
+
+  const resolvedBaseId = baseId ?? target[0].previous_audit_id;
+  if (!resolvedBaseId) {
+    throw new Error('Audit is not a re-run, pass the audit to compare with as base');
+  }
+  if (resolvedBaseId === targetId) {
+    throw new Error('An audit cannot be compared with itself');
+  }
+
+  const base = await db.select({ id: audits.id }).from(audits).where(eq(audits.id, resolvedBaseId)).limit(1);
+  if (base.length === 0) {
+    return null;
+  }
+
+  const [basePages, targetPages] = await Promise.all([getRunPages(resolvedBaseId), getRunPages(targetId)]);
+  const trendIds = await getTrendIds(targetId);
+  const summaries = await getRunSummaries(Array.from(new Set([resolvedBaseId, ...trendIds])));
+
+  const baseByUrl = new Map(basePages.map((page) => [page.url, page]));
+  const targetUrls = new Set(targetPages.map((page) => page.url));
+
+  const comparison: AuditComparison = {
+    base: summaries.get(resolvedBaseId)!,
+    target: summaries.get(targetId)!,
+    pages: {
+      added: targetPages.filter((page) => !baseByUrl.has(page.url)).map(toComparedPage),
+      removed: basePages.filter((page) => !targetUrls.has(page.url)).map(toComparedPage),
+      changed: [],
+      unchanged: 0,
+    },
+    issues: { new: 0, resolved: 0, persisting: 0, by_type: {} },
+    trend: trendIds
+      .slice()
+      .reverse()
+      .map((id) => summaries.get(id)!),
+  };
+
+  const countType = (issueType: string, field: 'new' | 'resolved') => {
+    if (!comparison.issues.by_type[issueType]) {
+      comparison.issues.by_type[issueType] = { new: 0, resolved: 0 };
+    }
+    comparison.issues.by_type[issueType][field]++;
+  };
+
+  for (const targetPage of targetPages) {
+    const basePage = baseByUrl.get(targetPage.url);
+    if (!basePage) {
+      continue;
+    }
+
+    // Issues are only compared when both runs analyzed the page, a failed crawl resolves nothing
+    const bothAnalyzed = basePage.status === 'completed' && targetPage.status === 'completed';
+    const { added, removed, persisting } = bothAnalyzed
+      ? diffIssues(basePage.issues, targetPage.issues)
+      : { added: [], removed: [], persisting: 0 };
+
+    comparison.issues.new += added.length;
+    comparison.issues.resolved += removed.length;
+    comparison.issues.persisting += persisting;
+    added.forEach((issue) => countType(issue.issue_type, 'new'));
+    removed.forEach((issue) => countType(issue.issue_type, 'resolved'));
+
+    const scoreDelta =
+      basePage.quality_score !== null && targetPage.quality_score !== null
+        ? targetPage.quality_score - basePage.quality_score
+        : null;
+
+    if (added.length === 0 && removed.length === 0 && basePage.quality_score === targetPage.quality_score) {
+      comparison.pages.unchanged++;
+      continue;
+    }
+
+    comparison.pages.changed.push({
+      url: targetPage.url,
+      title: targetPage.title ?? basePage.title,
+      base_page_id: basePage.page_id,
+      target_page_id: targetPage.page_id,
+      base_score: basePage.quality_score,
+      target_score: targetPage.quality_score,
+      score_delta: scoreDelta,
+      new_issues: added,
+      resolved_issues: removed,
+    });
+  }
+
+  // Biggest drops first, they need attention before the improvements
+  comparison.pages.changed.sort((a, b) => (a.score_delta ?? 0) - (b.score_delta ?? 0));
+
+  return comparison;
+}
+
+/**
+ * Issues only in the newer run (added) and only in the older run (removed)
+ * Issues with the same key are matched one to one, so a duplicated finding still counts
+ */
+function diffIssues(baseIssues: ComparedIssue[], targetIssues: ComparedIssue[]) {
+  const issueKey = (issue: ComparedIssue) => `${issue.issue_type}\n${snippetKey(issue.snippet)}`;
+
+  const unmatched = new Map<string, ComparedIssue[]>();
+  for (const issue of baseIssues) {
+    const key = issueKey(issue);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), issue]);
+  }
+
+  const added: ComparedIssue[] = [];
+  let persisting = 0;
+  for (const issue of targetIssues) {
+    const candidates = unmatched.get(issueKey(issue));
+    if (candidates?.length) {
+      candidates.pop();
+      persisting++;
+    } else {
+      added.push(issue);
+    }
+  }
+
+  return { added, removed: Array.from(unmatched.values()).flat(), persisting };
+}
+
+const toComparedPage = ({ page_id, url, title, quality_score }: RunPage): ComparedPage => ({
+  page_id,
+  url,
+  title,
+  quality_score,
+});
+
+/**
+ * Pages of an audit with their issues (issues marked as false positive are left out)
+ */
+async function getRunPages(auditId: string): Promise<RunPage[]> {
+  const db = await getDatabase();
+
+  const pages = await db
+    .select({
+      page_id: auditPages.id,
+      url: auditPages.url,
+      title: auditPages.title,
+      status: auditPages.status,
+      quality_score: auditPages.quality_score,
+    })
+    .from(auditPages)
+    .where(eq(auditPages.audit_id, auditId));
+
+  const issues = await db
+    .select({
+      page_id: auditIssues.page_id,
+      issue_type: auditIssues.issue_type,
+      severity: auditIssues.severity,
+      description: auditIssues.description,
+      snippet: auditIssues.snippet,
+    })
+    .from(auditIssues)
+    .innerJoin(auditPages, eq(auditPages.id, auditIssues.page_id))
+    .where(and(eq(auditPages.audit_id, auditId), ne(auditIssues.status, 'false_positive')));
+
+  const issuesByPage = new Map<string, ComparedIssue[]>();
+  for (const { page_id, ...issue } of issues) {
+    issuesByPage.set(page_id, [...(issuesByPage.get(page_id) ?? []), issue]);
+  }
+
+  return pages.map((page) => ({ ...page, issues: issuesByPage.get(page.page_id) ?? [] }));
+}
+
+/**
+ * The audit and the audits it re-runs, newest first
+ */
+async function getTrendIds(auditId: string): Promise<string[]> {
+  const db = await getDatabase();
+  const ids = [auditId];
+
+  while (ids.length < MAX_TREND_RUNS) {
+    const result = await db
+      .select({ previous_audit_id: audits.previous_audit_id })
+      .from(audits)
+      .where(eq(audits.id, ids[ids.length - 1]))
+      .limit(1);
+
+    const previousId = result[0]?.previous_audit_id;
+    if (!previousId || ids.includes(previousId)) {
+      break;
+    }
+    ids.push(previousId);
+  }
+
+  return ids;
+}
+
+/**
+ * Page and issue totals of audits, by audit id
+ */
+async function getRunSummaries(auditIds: string[]): Promise<Map<string, AuditRunSummary>> {
+  const db = await getDatabase();
+
+  const runs = await db
+    .select({ id: audits.id, created_at: audits.created_at, status: audits.status })
+    .from(audits)
+    .where(inArray(audits.id, auditIds));
+
+  const pageStats = await db
+    .select({
+      audit_id: auditPages.audit_id,
+      analyzed: sql<number>`count(*) filter (where ${auditPages.status} = 'completed')`,
+      average_score: sql<number | null>`avg(${auditPages.quality_score})`,
+    })
+    .from(auditPages)
+    .where(inArray(auditPages.audit_id, auditIds))
+    .groupBy(auditPages.audit_id);
+
+  const issueStats = await db
+    .select({
+      audit_id: auditPages.audit_id,
+      severity: auditIssues.severity,
+      count: sql<number>`count(*)`,
+    })
+    .from(auditIssues)
+    .innerJoin(auditPages, eq(auditPages.id, auditIssues.page_id))
+    .where(and(inArray(auditPages.audit_id, auditIds), ne(auditIssues.status, 'false_positive')))
+    .groupBy(auditPages.audit_id, auditIssues.severity);
+
+  return new Map(
+    runs.map((run) => {
+      const pages = pageStats.find((stats) => stats.audit_id === run.id);
+      const bySeverity: Record<Severity, number> = { high: 0, medium: 0, low: 0 };
+      for (const stats of issueStats.filter((stats) => stats.audit_id === run.id)) {
+        bySeverity[stats.severity] = Number(stats.count);
+      }
+
+      return [
+        run.id,
+        {
+          ...run,
+          analyzed_pages: Number(pages?.analyzed ?? 0),
+          average_score:
+            pages?.average_score !== null && pages?.average_score !== undefined
+              ? Math.round(Number(pages.average_score) * 10) / 10
+              : null,
+          issues: bySeverity.high + bySeverity.medium + bySeverity.low,
+          issues_by_severity: bySeverity,
+        },
+      ];
+    })
+  );
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AuditSchedule, JobQueue } from '../schema/audits';
+
+// Query builder stand-in: reads resolve to the next rows set by the test, updates to the claimed rows
+const db = vi.hoisted(() => {
+  const state = { reads: [] as unknown[][], claimed: [] as unknown[] };
+  const query = (rows: () => unknown[]): any =>
+    new Proxy(
+      {},
+      {
+        get: (_target, prop) =>
+          prop === 'then'
+            ? (resolve: (rows: unknown[]) => unknown) => Promise.resolve(rows()).then(resolve)
+            : () => query(rows),
+      }
+    );
+  return {
+    state,
+    connection: {
+      select: () => query(() => state.reads.shift() ?? []),
+      update: () => query(() => state.claimed),
+      insert: () => query(() => []),
+    },
+  };
+});
+
+vi.mock('../lib/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/db')>()),
+  getDatabase: async () => db.connection,
+}));
+
+const { enqueueJob, startAudit } = vi.hoisted(() => ({
+  enqueueJob: vi.fn(async () => 'job-2'),
+  startAudit: vi.fn(async () => 'audit-1'),
+}));
+vi.mock('./job-queue', () => ({ enqueueJob }));
+vi.mock('./audit-service', () => ({ startAudit }));
+
+const { processScheduleAuditJob } = await import('./audit-schedules');
+
+const RUN_AT = '2024-03-11T06:00:00.000Z';
+
+const schedule = {
+  id: '3f2b6c1e-8d4a-4f5b-9c2d-1a2b3c4d5e6f',
+  user_id: 'user-1',
+  sitemap_url: 'https://shop.example.com/sitemap.xml',
+  discover_sitemaps: false,
+  frequency: 'daily',
+  cron_expression: null,
+  enabled: true,
+  rate_limit_ms: 1000,
+  crawler_backend: null,
+  url_filter: null,
+  ai_provider: null,
+  ai_model: null,
+  ai_base_url: null,
+  ai_temperature: null,
+  ai_max_tokens: null,
+  target_language: null,
+  prompt_template_id: null,
+  next_run_at: new Date(RUN_AT),
+} as unknown as AuditSchedule;
+
+const scheduleJob = { payload: { schedule_id: schedule.id, run_at: RUN_AT } } as JobQueue;
+
+describe('processScheduleAuditJob', () => {
+  beforeEach(() => {
+    db.state.reads = [[schedule]];
+    db.state.claimed = [];
+    enqueueJob.mockClear();
+    startAudit.mockClear();
+  });
+
+  it('starts the audit and plans the next run once the run is claimed', async () => {
+    db.state.claimed = [schedule];
+
+    await processScheduleAuditJob(scheduleJob);
+
+    expect(enqueueJob).toHaveBeenCalledTimes(1);
+    expect(startAudit).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing if another worker claimed the run first', async () => {
+    await processScheduleAuditJob(scheduleJob);
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(startAudit).not.toHaveBeenCalled();
+  });
+
+  it('skips runs the schedule was re-planned away from', async () => {
+    db.state.reads = [[{ ...schedule, next_run_at: new Date('2024-03-12T06:00:00.000Z') }]];
+    db.state.claimed = [schedule];
+
+    await processScheduleAuditJob(scheduleJob);
+
+    expect(startAudit).not.toHaveBeenCalled();
+  });
+});
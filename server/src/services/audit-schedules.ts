@@ -0,0 +1,394 @@
+/**
+ * Recurring audits
+ * Each enabled schedule has one pending schedule_audit job for its next run; the job starts the
+ * audit and enqueues the job for the run after that. Runs re-run the schedule's previous audit,
+ * so consecutive runs can be compared.
+ */
+
+import { getDatabase, isUuid } from '../lib/db';
+import {
+  audits,
+  auditSchedules,
+  auditScheduleRuns,
+  type AuditSchedule,
+  type JobQueue,
+  type UrlFilterConfig,
+} from '../schema/audits';
+import { eq, and, desc, isNotNull } from 'drizzle-orm';
+import { startAudit } from './audit-service';
+import { parseCron, getNextCronRun } from './cron';
+import { enqueueJob } from './job-queue';
+import { discoverSitemaps, normalizeSiteOrigin } from './sitemap-parser';
+import { validateUrlFilterConfig } from './url-filter';
+import { CRAWLER_BACKENDS, isCrawlerBackend, type CrawlerBackend } from './crawler';
+import { validateAiSettings, type AiSettings } from './ai-analyzer';
+import { LANGUAGES, isLanguage, type Language } from './language-detector';
+import { getPromptTemplate } from './prompt-templates';
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'cron';
+
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ['daily', 'weekly', 'monthly', 'cron'];
+
+// Presets run at night (UTC): daily, Mondays and on the first of the month
+const PRESET_CRON_EXPRESSIONS: Record<Exclude<ScheduleFrequency, 'cron'>, string> = {
+  daily: '0 2 * * *',
+  weekly: '0 2 * * 1',
+  monthly: '0 2 1 * *',
+};
+
+const MAX_RUNS_IN_HISTORY = 50;
+
+export interface ScheduleInput {
+  name: string;
+  sitemapUrl: string;
+  discoverSitemaps: boolean;
+  frequency: ScheduleFrequency;
+  cronExpression: string | null;
+  enabled: boolean;
+  rateLimitMs: number;
+  crawlerBackend: CrawlerBackend | null;
+  urlFilter: UrlFilterConfig | null;
+  aiSettings: Partial<AiSettings>;
+  targetLanguage: Language | null;
+  promptTemplateId: string | null;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduled_for: Date;
+  created_at: Date;
+  error: string | null;
+  audit_id: string | null;
+  audit_status: string | null;
+  total_urls: number | null;
+}
+
+/**
+ * Validate a schedule from a request body (snake_case keys, same audit settings as POST /audits)
+ * Throws an Error with a user-facing message if invalid
+ */
+export function validateScheduleInput(input: unknown): ScheduleInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Request body must be an object');
+  }
+
+  const {
+    name,
+    sitemap_url,
+    domain,
+    frequency,
+    cron_expression,
+    enabled,
+    rate_limit_ms,
+    crawler_backend,
+    url_filter,
+    ai_settings,
+    target_language,
+    prompt_template_id,
+  } = input as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+    throw new Error('name must be a non-empty string of at most 100 characters');
+  }
+
+  let sitemapUrl: string;
+  if (domain) {
+    if (typeof domain !== 'string') {
+      throw new Error('domain must be a string');
+    }
+    try {
+      sitemapUrl = normalizeSiteOrigin(domain);
+    } catch {
+      throw new Error('Invalid domain format');
+    }
+  } else if (typeof sitemap_url === 'string' && sitemap_url) {
+    try {
+      new URL(sitemap_url);
+    } catch {
+      throw new Error('Invalid sitemap URL format');
+    }
+    sitemapUrl = sitemap_url;
+  } else {
+    throw new Error('sitemap_url or domain is required');
+  }
+
+  if (!SCHEDULE_FREQUENCIES.includes(frequency as ScheduleFrequency)) {
+    throw new Error(`frequency must be one of: ${SCHEDULE_FREQUENCIES.join(', ')}`);
+  }
+
+  let cronExpression: string | null = null;
+  if (frequency === 'cron') {
+    if (typeof cron_expression !== 'string') {
+      throw new Error('cron_expression is required for frequency "cron"');
+    }
+    cronExpression = cron_expression.trim().split(/\s+/).join(' ');
+    // Also rejects expressions that never match, like 30 February
+    getNextCronRun(parseCron(cronExpression), new Date());
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error('enabled must be a boolean');
+  }
+  if (rate_limit_ms !== undefined && (typeof rate_limit_ms !== 'number' || rate_limit_ms < 0)) {
+    throw new Error('rate_limit_ms must be a positive number');
+  }
+  if (crawler_backend !== undefined && crawler_backend !== null && !isCrawlerBackend(crawler_backend)) {
+    throw new Error(`crawler_backend must be one of: ${CRAWLER_BACKENDS.join(', ')}`);
+  }
+  if (target_language !== undefined && target_language !== null && !isLanguage(target_language)) {
+    throw new Error(`target_language must be one of: ${LANGUAGES.join(', ')}`);
+  }
+  if (prompt_template_id !== undefined && prompt_template_id !== null && typeof prompt_template_id !== 'string') {
+    throw new Error('prompt_template_id must be the id of a prompt template');
+  }
+
+  const urlFilter = validateUrlFilterConfig(url_filter);
+
+  return {
+    name: name.trim(),
+    sitemapUrl,
+    discoverSitemaps: Boolean(domain),
+    frequency: frequency as ScheduleFrequency,
+    cronExpression,
+    enabled: enabled ?? true,
+    rateLimitMs: (rate_limit_ms as number | undefined) || 1000,
+    crawlerBackend: (crawler_backend as CrawlerBackend | null | undefined) ?? null,
+    urlFilter: Object.keys(urlFilter).length > 0 ? urlFilter : null,
+    aiSettings: validateAiSettings(ai_settings),
+    targetLanguage: (target_language as Language | null | undefined) ?? null,
+    promptTemplateId: (prompt_template_id as string | null | undefined) || null,
+  };
+}
+
+/**
+ * Check that the schedule's prompt template exists
+ * Throws an Error with a user-facing message if not
+ */
+export async function validateSchedulePromptTemplate(input: ScheduleInput): Promise<void> {
+  if (input.promptTemplateId && !(await getPromptTemplate(input.promptTemplateId))) {
+    throw new Error('prompt_template_id must be the id of a prompt template');
+  }
+}
+
+/**
+ * Next run of a schedule after the given time
+ */
+export function getNextRunAt(
+  schedule: { frequency: ScheduleFrequency; cron_expression: string | null },
+  after: Date = new Date()
+): Date {
+  const expression =
+    schedule.frequency === 'cron' ? schedule.cron_expression ?? '' : PRESET_CRON_EXPRESSIONS[schedule.frequency];
+  return getNextCronRun(parseCron(expression), after);
+}
+
+/**
+ * Schedules of a user (all schedules for anonymous users, like the audit list)
+ */
+export async function getSchedules(userId?: string | null): Promise<AuditSchedule[]> {
+  const db = await getDatabase();
+  return db
+    .select()
+    .from(auditSchedules)
+    .where(userId ? eq(auditSchedules.user_id, userId) : undefined)
+    .orderBy(auditSchedules.name);
+}
+
+export async function getSchedule(scheduleId: string): Promise<AuditSchedule | null> {
+  if (!isUuid(scheduleId)) {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const result = await db.select().from(auditSchedules).where(eq(auditSchedules.id, scheduleId)).limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Create a schedule and enqueue its first run
+ */
+export async function createSchedule(input: ScheduleInput, userId?: string | null): Promise<AuditSchedule> {
+  const db = await getDatabase();
+  const [schedule] = await db
+    .insert(auditSchedules)
+    .values({ ...toColumns(input), user_id: userId ?? null })
+    .returning();
+
+  return planNextRun(schedule);
+}
+
+/**
+ * Replace a schedule's settings and plan its next run again
+ * The job of the previously planned run is left in the queue and skipped when it comes up
+ */
+export async function updateSchedule(scheduleId: string, input: ScheduleInput): Promise<AuditSchedule> {
+  const db = await getDatabase();
+  const [schedule] = await db
+    .update(auditSchedules)
+    .set({ ...toColumns(input), updated_at: new Date() })
+    .where(eq(auditSchedules.id, scheduleId))
+    .returning();
+
+  return planNextRun(schedule);
+}
+
+/**
+ * Delete a schedule; its audits are kept, pending jobs are skipped
+ */
+export async function deleteSchedule(scheduleId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.delete(auditSchedules).where(eq(auditSchedules.id, scheduleId));
+}
+
+/**
+ * Run history of a schedule, newest first
+ */
+export async function getScheduleRuns(scheduleId: string): Promise<ScheduleRun[]> {
+  const db = await getDatabase();
+  return db
+    .select({
+      id: auditScheduleRuns.id,
+      scheduled_for: auditScheduleRuns.scheduled_for,
+      created_at: auditScheduleRuns.created_at,
+      error: auditScheduleRuns.error,
+      audit_id: auditScheduleRuns.audit_id,
+      audit_status: audits.status,
+      total_urls: audits.total_urls,
+    })
+    .from(auditScheduleRuns)
+    .leftJoin(audits, eq(audits.id, auditScheduleRuns.audit_id))
+    .where(eq(auditScheduleRuns.schedule_id, scheduleId))
+    .orderBy(desc(auditScheduleRuns.created_at))
+    .limit(MAX_RUNS_IN_HISTORY);
+}
+
+/**
+ * Process a schedule_audit job: start the schedule's audit and plan the next run
+ * A failed start is recorded in the run history instead of retrying the job, the next run still happens
+ */
+export async function processScheduleAuditJob(job: JobQueue): Promise<void> {
+  const db = await getDatabase();
+  const payload = job.payload as { schedule_id: string; run_at: string };
+
+  const schedule = await getSchedule(payload.schedule_id);
+  // Deleted, disabled or re-planned since the job was enqueued
+  if (!schedule || !schedule.enabled || schedule.next_run_at?.toISOString() !== payload.run_at) {
+    console.log(`⏭️  Skipping outdated run of schedule ${payload.schedule_id}`);
+    return;
+  }
+
+  // Claim the run by moving next_run_at on, in one statement: of two workers (or a retry of this job)
+  // holding the same run, only one gets the row back
+  const nextRunAt = getNextRunAt(schedule, new Date(Math.max(Date.now(), schedule.next_run_at.getTime())));
+  const claimed = await db
+    .update(auditSchedules)
+    .set({ next_run_at: nextRunAt, last_run_at: new Date() })
+    .where(
+      and(
+        eq(auditSchedules.id, schedule.id),
+        eq(auditSchedules.enabled, true),
+        eq(auditSchedules.next_run_at, schedule.next_run_at)
+      )
+    )
+    .returning();
+  if (claimed.length === 0) {
+    console.log(`⏭️  Skipping run of schedule ${payload.schedule_id}, already claimed or re-planned`);
+    return;
+  }
+
+  // Plan the next run before starting the audit, so a failed start does not end the schedule
+  // (a crash between the claim and this enqueue does: the run was claimed, so no retry plans it)
+  await enqueueJob('schedule_audit', { schedule_id: schedule.id, run_at: nextRunAt.toISOString() }, nextRunAt);
+
+  try {
+    const sitemapUrls = schedule.discover_sitemaps
+      ? (await discoverSitemaps(schedule.sitemap_url)).map((sitemap) => sitemap.url)
+      : [schedule.sitemap_url];
+    if (sitemapUrls.length === 0) {
+      throw new Error(`No sitemaps found for ${schedule.sitemap_url}`);
+    }
+
+    const previousRun = await db
+      .select({ audit_id: auditScheduleRuns.audit_id })
+      .from(auditScheduleRuns)
+      .where(and(eq(auditScheduleRuns.schedule_id, schedule.id), isNotNull(auditScheduleRuns.audit_id)))
+      .orderBy(desc(auditScheduleRuns.created_at))
+      .limit(1);
+
+    const auditId = await startAudit({
+      sitemapUrl: schedule.sitemap_url,
+      sitemapUrls,
+      userId: schedule.user_id ?? undefined,
+      rateLimitMs: schedule.rate_limit_ms,
+      crawlerBackend: schedule.crawler_backend ?? undefined,
+      urlFilter: schedule.url_filter ?? {},
+      aiSettings: {
+        provider: schedule.ai_provider ?? undefined,
+        model: schedule.ai_model ?? undefined,
+        baseUrl: schedule.ai_base_url,
+        temperature: schedule.ai_temperature ?? undefined,
+        maxTokens: schedule.ai_max_tokens ?? undefined,
+      },
+      targetLanguage: isLanguage(schedule.target_language) ? schedule.target_language : undefined,
+      promptTemplateId: schedule.prompt_template_id ?? undefined,
+      previousAuditId: previousRun[0]?.audit_id ?? undefined,
+      scheduleId: schedule.id,
+    });
+
+    await db.insert(auditScheduleRuns).values({
+      schedule_id: schedule.id,
+      audit_id: auditId,
+      scheduled_for: schedule.next_run_at,
+    });
+    console.log(`⏰ Schedule ${schedule.id} started audit ${auditId}, next run ${nextRunAt.toISOString()}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await db.insert(auditScheduleRuns).values({
+      schedule_id: schedule.id,
+      scheduled_for: schedule.next_run_at,
+      error: message,
+    });
+    console.error(`❌ Schedule ${schedule.id} could not start an audit:`, message);
+  }
+}
+
+function toColumns(input: ScheduleInput) {
+  return {
+    name: input.name,
+    sitemap_url: input.sitemapUrl,
+    discover_sitemaps: input.discoverSitemaps,
+    frequency: input.frequency,
+    cron_expression: input.cronExpression,
+    enabled: input.enabled,
+    rate_limit_ms: input.rateLimitMs,
+    crawler_backend: input.crawlerBackend,
+    url_filter: input.urlFilter,
+    ai_provider: input.aiSettings.provider ?? null,
+    ai_model: input.aiSettings.model ?? null,
+    ai_base_url: input.aiSettings.baseUrl ?? null,
+    ai_temperature: input.aiSettings.temperature ?? null,
+    ai_max_tokens: input.aiSettings.maxTokens ?? null,
+    target_language: input.targetLanguage,
+    prompt_template_id: input.promptTemplateId,
+  };
+}
+
+/**
+ * Store the next run of a schedule and enqueue its job (disabled schedules get none)
+ * If the next run did not move, the job enqueued for it before is kept
+ */
+async function planNextRun(schedule: AuditSchedule): Promise<AuditSchedule> {
+  const db = await getDatabase();
+  const nextRunAt = schedule.enabled ? getNextRunAt(schedule) : null;
+
+  if (nextRunAt && nextRunAt.getTime() !== schedule.next_run_at?.getTime()) {
+    await enqueueJob('schedule_audit', { schedule_id: schedule.id, run_at: nextRunAt.toISOString() }, nextRunAt);
+  }
+
+  const [updated] = await db
+    .update(auditSchedules)
+    .set({ next_run_at: nextRunAt })
+    .where(eq(auditSchedules.id, schedule.id))
+    .returning();
+  return updated;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { JobQueue } from '../schema/audits';
+
+// Query builder stand-in: reads fail with the error set by the test, updates record their values
+const db = vi.hoisted(() => {
+  const state = { readError: null as Error | null, updates: [] as unknown[] };
+  const query = (result: () => Promise<unknown[]>): any =>
+    new Proxy(
+      {},
+      {
+        get: (_target, prop) =>
+          prop === 'then'
+            ? (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+                result().then(resolve, reject)
+            : () => query(result),
+      }
+    );
+  const read = () => (state.readError ? Promise.reject(state.readError) : Promise.resolve([]));
+  return {
+    state,
+    connection: {
+      select: () => query(read),
+      update: () => ({
+        set: (values: unknown) => {
+          state.updates.push(values);
+          return query(() => Promise.resolve([]));
+        },
+      }),
+    },
+  };
+});
+
+vi.mock('../lib/db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/db')>()),
+  getDatabase: async () => db.connection,
+}));
+
+const { processAnalyzeAuditJob, failExpiredAuditJob } = await import('./audit-service');
+
+const analyzeJob = (attempts: number) =>
+  ({
+    id: 'job-1',
+    job_type: 'analyze_audit',
+    payload: { audit_id: 'audit-1' },
+    attempts,
+    max_attempts: 3,
+  }) as JobQueue;
+
+describe('analyze_audit failures', () => {
+  beforeEach(() => {
+    db.state.readError = new Error('Connection terminated unexpectedly');
+    db.state.updates = [];
+  });
+
+  it('leaves the audit analyzing while the job is retried', async () => {
+    await expect(processAnalyzeAuditJob(analyzeJob(1))).rejects.toThrow('Connection terminated');
+
+    expect(db.state.updates).toEqual([]);
+  });
+
+  it('completes the audit without cross-page findings after the last attempt', async () => {
+    await expect(processAnalyzeAuditJob(analyzeJob(3))).rejects.toThrow('Connection terminated');
+
+    expect(db.state.updates).toEqual([{ status: 'completed' }]);
+  });
+
+  it('completes the audit when the lease of the last attempt expires', async () => {
+    await failExpiredAuditJob(analyzeJob(3));
+
+    expect(db.state.updates).toEqual([{ status: 'completed' }]);
+  });
+});
@@ -1,56 +1,160 @@
-import { getDatabase } from '../lib/db';
+import { getDatabase, isUuid } from '../lib/db';
 import {
   audits,
   auditPages,
   auditIssues,
+  auditPageHtml,
+  duplicateClusters,
+  jobQueue,
+  promptTemplates,
+  promptTemplateVersions,
+  type Audit,
+  type AuditPage,
+  type AuditIssue,
   type NewAudit,
   type NewAuditPage,
   type NewAuditIssue,
+  type UrlFilterConfig,
 } from '../schema/audits';
-import { eq, and, sql } from 'drizzle-orm';
-import { parseSitemap } from './sitemap-parser';
-import { crawlUrl } from './jina-crawler';
-import { analyzeContent } from './ai-analyzer';
-import { enqueueJob, getNextJob, completeJob, failJob, type JobQueue } from './job-queue';
+import { eq, and, or, sql, inArray, notInArray, isNull, isNotNull, gte, asc, desc, type SQL } from 'drizzle-orm';
+import { parseSitemaps, type SitemapEntry } from './sitemap-parser';
+import { applyUrlFilter } from './url-filter';
+import { crawlUrl, getCrawler, getDefaultCrawlerBackend, type CrawlerBackend } from './crawler';
+import {
+  analyzeContent,
+  calculateQualityScore,
+  SEVERITY_WEIGHTS,
+  isAiAnalysisConfigured,
+  resolveAiSettings,
+  type AiSettings,
+  type AnalysisIssue,
+  type Severity,
+} from './ai-analyzer';
+import { runRuleChecks, mergeIssues } from './rule-engine';
+import { getStyleRules, runStyleRules, getAiChecks } from './style-rules';
+import { findDuplicateClusters } from './duplicate-detector';
+import { locateSnippet, yieldToEventLoop, type SnippetLocation } from './snippet-locator';
+import { detectLanguage, isLanguage, type Language } from './language-detector';
+import { findFactContradictions } from './product-facts';
+import { resolvePromptVersion, getPromptVersionContent } from './prompt-templates';
+import { dropSuppressedIssues, snippetKey, type IssueStatus } from './issue-triage';
+import {
+  enqueueJob,
+  getNextJob,
+  completeJob,
+  failJob,
+  willRetryJob,
+  getAuditQueueStatus,
+  STOPPED_AUDIT_STATUSES,
+  LEASE_EXPIRED_ERROR,
+  type JobQueue,
+  type DeferJob,
+} from './job-queue';
+import { reserveCrawlSlot } from './host-rate-limiter';
+
+export interface StartAuditOptions {
+  sitemapUrl: string; // User input (sitemap or domain)
+  sitemapUrls?: string[]; // Sitemaps to parse, defaults to [sitemapUrl]
+  userId?: string;
+  rateLimitMs?: number;
+  crawlerBackend?: CrawlerBackend;
+  urlFilter?: UrlFilterConfig;
+  modifiedSince?: Date; // Skip pages whose sitemap lastmod is older
+  aiSettings?: Partial<AiSettings>; // Unset values fall back to the environment defaults
+  targetLanguage?: Language; // Only analyze pages in this language (default: all)
+  promptTemplateId?: string; // Prompt template to use (default: the default template, else the built-in prompt)
+  promptVersionId?: string | null; // Exact prompt version instead of a template (null = built-in prompt)
+  previousAuditId?: string; // Audit this one re-runs
+  scheduleId?: string; // Schedule that started the audit
+}
+
+// Default priority for sitemap entries without <priority> (sitemaps.org)
+const DEFAULT_SITEMAP_PRIORITY = 0.5;
+
+const compareSitemapPriority = (a: SitemapEntry, b: SitemapEntry): number =>
+  (b.priority ?? DEFAULT_SITEMAP_PRIORITY) - (a.priority ?? DEFAULT_SITEMAP_PRIORITY);
 
 /**
  * Start a new audit
- * Parses sitemap, creates audit and page records, enqueues crawl jobs
+ * Parses sitemaps, applies URL filters, creates audit and page records, enqueues crawl jobs
  */
-export async function startAudit(
-  sitemapUrl: string,
-  userId?: string,
-  rateLimitMs: number = 1000
-): Promise<string> {
+export async function startAudit(options: StartAuditOptions): Promise<string> {
   const db = await getDatabase();
+  const { sitemapUrl, userId, rateLimitMs = 1000, urlFilter = {}, modifiedSince } = options;
+  const sitemapUrls = options.sitemapUrls?.length ? options.sitemapUrls : [sitemapUrl];
+  const crawlerBackend = options.crawlerBackend || getDefaultCrawlerBackend();
+  // Resolved now, so the audit records exactly which model analyzed it
+  const aiSettings = resolveAiSettings(options.aiSettings);
+  // Pinned to the current version, so later template edits do not change this audit's results
+  const promptVersionId =
+    options.promptVersionId !== undefined
+      ? options.promptVersionId
+      : (await resolvePromptVersion(options.promptTemplateId))?.id ?? null;
 
-  // Parse sitemap to get all URLs
-  console.log(`📋 Parsing sitemap: ${sitemapUrl}`);
-  const urls = await parseSitemap(sitemapUrl);
-  console.log(`✅ Found ${urls.length} URLs in sitemap`);
+  // Parse sitemaps to get all URLs
+  console.log(`📋 Parsing sitemaps: ${sitemapUrls.join(', ')}`);
+  const allEntries = await parseSitemaps(sitemapUrls);
+  console.log(`✅ Found ${allEntries.length} URLs in sitemaps`);
 
-  if (urls.length === 0) {
+  if (allEntries.length === 0) {
     throw new Error('No URLs found in sitemap');
   }
 
+  // Pages without lastmod are kept, since we cannot tell whether they changed
+  const changedEntries = modifiedSince
+    ? allEntries.filter((entry) => !entry.lastmod || entry.lastmod >= modifiedSince)
+    : allEntries;
+
+  // Highest priority first, so both the URL cap and the crawl order favour important pages
+  // (sorted again after filtering because sampling shuffles)
+  const prioritizedEntries = [...changedEntries].sort(compareSitemapPriority);
+  const entries = applyUrlFilter(prioritizedEntries, urlFilter).sort(compareSitemapPriority);
+  if (entries.length < allEntries.length) {
+    console.log(`🔎 ${entries.length} URLs left after filtering`);
+  }
+
+  if (entries.length === 0) {
+    throw new Error(
+      modifiedSince
+        ? 'No URLs left after applying the URL filter and modification date'
+        : 'No URLs left after applying the URL filter'
+    );
+  }
+
   // Create audit record
   const newAudit: NewAudit = {
     user_id: userId,
     sitemap_url: sitemapUrl,
+    sitemap_urls: sitemapUrls,
     status: 'pending',
-    total_urls: urls.length,
+    total_urls: entries.length,
     processed_urls: 0,
     rate_limit_ms: rateLimitMs,
+    crawler_backend: crawlerBackend,
+    url_filter: Object.keys(urlFilter).length > 0 ? urlFilter : null,
+    modified_since: modifiedSince ?? null,
+    ai_provider: aiSettings.provider,
+    ai_model: aiSettings.model,
+    ai_base_url: aiSettings.baseUrl,
+    ai_temperature: aiSettings.temperature,
+    ai_max_tokens: aiSettings.maxTokens,
+    target_language: options.targetLanguage ?? null,
+    prompt_version_id: promptVersionId,
+    previous_audit_id: options.previousAuditId ?? null,
+    schedule_id: options.scheduleId ?? null,
   };
 
   const auditResult = await db.insert(audits).values(newAudit).returning({ id: audits.id });
   const auditId = auditResult[0].id;
 
   // Create page records for all URLs
-  const pageRecords: NewAuditPage[] = urls.map((url) => ({
+  const pageRecords: NewAuditPage[] = entries.map((entry) => ({
     audit_id: auditId,
-    url,
+    url: entry.url,
     status: 'pending',
+    lastmod: entry.lastmod ?? null,
+    changefreq: entry.changefreq ?? null,
+    priority: entry.priority ?? null,
   }));
 
   await db.insert(auditPages).values(pageRecords);
@@ -58,8 +162,8 @@ export async function startAudit(
   // Update audit status to crawling
   await db.update(audits).set({ status: 'crawling' }).where(eq(audits.id, auditId));
 
-  // Enqueue crawl jobs for all pages
-  for (const url of urls) {
+  // Enqueue crawl jobs for all pages (in priority order, the queue processes jobs oldest first)
+  for (const { url } of entries) {
     const page = await db
       .select()
       .from(auditPages)
@@ -72,14 +176,147 @@ export async function startAudit(
         page_id: page[0].id,
         url,
         rate_limit_ms: rateLimitMs,
+        crawler_backend: crawlerBackend,
+        target_language: options.targetLanguage,
       });
     }
   }
 
-  console.log(`🚀 Started audit ${auditId} with ${urls.length} pages`);
+  console.log(`🚀 Started audit ${auditId} with ${entries.length} pages`);
+  return auditId;
+}
+
+/**
+ * Re-run an audit with the settings it was started with
+ * Model and prompt version are kept too, so differences between the runs come from the content
+ */
+export async function rerunAudit(audit: Audit, userId?: string): Promise<string> {
+  const auditId = await startAudit({
+    sitemapUrl: audit.sitemap_url,
+    sitemapUrls: audit.sitemap_urls,
+    userId,
+    rateLimitMs: audit.rate_limit_ms,
+    crawlerBackend: audit.crawler_backend,
+    urlFilter: audit.url_filter ?? {},
+    modifiedSince: audit.modified_since ?? undefined,
+    aiSettings: getAuditAiSettings(audit),
+    targetLanguage: toLanguage(audit.target_language) ?? undefined,
+    promptVersionId: audit.prompt_version_id,
+    previousAuditId: audit.id,
+  });
+
+  console.log(`🔁 Audit ${auditId} re-runs audit ${audit.id}`);
   return auditId;
 }
 
+// Audits the job processor is still working on
+const RUNNING_AUDIT_STATUSES: Audit['status'][] = ['pending', 'crawling', 'analyzing'];
+
+/**
+ * Pause a running audit
+ * Its queued jobs wait until it is resumed, jobs already running finish
+ * Throws an Error with a user-facing message if the audit is not running
+ */
+export async function pauseAudit(audit: Audit): Promise<void> {
+  const db = await getDatabase();
+  const paused = await db
+    .update(audits)
+    .set({ status: 'paused' })
+    .where(and(eq(audits.id, audit.id), inArray(audits.status, RUNNING_AUDIT_STATUSES)))
+    .returning();
+
+  if (paused.length === 0) {
+    throw new Error('Only running audits can be paused');
+  }
+  console.log(`⏸️ Paused audit ${audit.id}`);
+}
+
+/**
+ * Resume a paused audit where it stopped
+ * Throws an Error with a user-facing message if the audit is not paused
+ */
+export async function resumeAudit(audit: Audit): Promise<void> {
+  const db = await getDatabase();
+  const crawlJobs = await db
+    .select({ id: jobQueue.id })
+    .from(jobQueue)
+    .where(
+      and(
+        eq(jobQueue.audit_id, audit.id),
+        eq(jobQueue.job_type, 'crawl_page'),
+        inArray(jobQueue.status, ['pending', 'processing'])
+      )
+    )
+    .limit(1);
+
+  const resumed = await db
+    .update(audits)
+    .set({ status: crawlJobs.length > 0 ? 'crawling' : 'analyzing' })
+    .where(and(eq(audits.id, audit.id), eq(audits.status, 'paused')))
+    .returning();
+
+  if (resumed.length === 0) {
+    throw new Error('Only paused audits can be resumed');
+  }
+
+  // Pages that finished while paused did not start the audit-level analysis
+  await updateAuditProgress(audit.id);
+  console.log(`▶️ Resumed audit ${audit.id}`);
+}
+
+/**
+ * Cancel a running or paused audit
+ * Queued jobs are removed, jobs already running finish (jobs or retries they queue are dropped,
+ * see enqueueJob); results so far are kept
+ * Returns the number of removed jobs
+ * Throws an Error with a user-facing message if the audit is already finished
+ */
+export async function cancelAudit(audit: Audit): Promise<number> {
+  const db = await getDatabase();
+  const cancelled = await db
+    .update(audits)
+    .set({ status: 'cancelled' })
+    .where(and(eq(audits.id, audit.id), inArray(audits.status, [...RUNNING_AUDIT_STATUSES, 'paused'])))
+    .returning();
+
+  if (cancelled.length === 0) {
+    throw new Error('Only running or paused audits can be cancelled');
+  }
+
+  const removed = await db
+    .delete(jobQueue)
+    .where(and(eq(jobQueue.audit_id, audit.id), eq(jobQueue.status, 'pending')))
+    .returning();
+
+  console.log(`⏹️ Cancelled audit ${audit.id} (${removed.length} queued jobs removed)`);
+  return removed.length;
+}
+
+// Range of audit priorities admins can set (0 = normal)
+const MIN_AUDIT_PRIORITY = -10;
+const MAX_AUDIT_PRIORITY = 10;
+
+/**
+ * Set the priority of an audit, its jobs are picked before those of lower-priority audits
+ * Throws an Error with a user-facing message if the priority is invalid
+ */
+export async function setAuditPriority(audit: Audit, priority: unknown): Promise<number> {
+  if (
+    typeof priority !== 'number' ||
+    !Number.isInteger(priority) ||
+    priority < MIN_AUDIT_PRIORITY ||
+    priority > MAX_AUDIT_PRIORITY
+  ) {
+    throw new Error(`priority must be an integer between ${MIN_AUDIT_PRIORITY} and ${MAX_AUDIT_PRIORITY}`);
+  }
+
+  const db = await getDatabase();
+  await db.update(audits).set({ priority }).where(eq(audits.id, audit.id));
+
+  console.log(`🔝 Set priority of audit ${audit.id} to ${priority}`);
+  return priority;
+}
+
 /**
  * Get audit progress
  */
@@ -91,10 +328,24 @@ export async function getAuditProgress(auditId: string) {
     throw new Error('Audit not found');
   }
 
+  const prompt = audit[0].prompt_version_id
+    ? await db
+        .select({
+          template_id: promptTemplates.id,
+          name: promptTemplates.name,
+          version: promptTemplateVersions.version,
+        })
+        .from(promptTemplateVersions)
+        .innerJoin(promptTemplates, eq(promptTemplates.id, promptTemplateVersions.template_id))
+        .where(eq(promptTemplateVersions.id, audit[0].prompt_version_id))
+        .limit(1)
+    : [];
+
   const pages = await db
     .select({
       status: auditPages.status,
       count: sql<number>`count(*)`,
+      rejected: sql<number>`coalesce(sum(${auditPages.rejected_ai_issues}), 0)`,
     })
     .from(auditPages)
     .where(eq(auditPages.audit_id, auditId))
@@ -104,15 +355,135 @@ export async function getAuditProgress(auditId: string) {
   const completedPages =
     pages.find((p) => p.status === 'completed')?.count || 0;
   const failedPages = pages.find((p) => p.status === 'failed')?.count || 0;
+  const skippedPages = pages.find((p) => p.status === 'skipped')?.count || 0;
+  const donePages = Number(completedPages) + Number(skippedPages);
 
   return {
     audit: audit[0],
+    prompt: prompt[0] ?? null, // null = built-in prompt
     progress: {
       total: totalPages,
       completed: Number(completedPages),
       failed: Number(failedPages),
-      pending: totalPages - Number(completedPages) - Number(failedPages),
-      percentage: totalPages > 0 ? Math.round((Number(completedPages) / totalPages) * 100) : 0,
+      skipped: Number(skippedPages),
+      pending: totalPages - donePages - Number(failedPages),
+      percentage: totalPages > 0 ? Math.round((donePages / totalPages) * 100) : 0,
+    },
+    // AI issues dropped for not matching the schema – a high count points at an unsuitable model or endpoint
+    rejected_ai_issues: pages.reduce((sum, p) => sum + Number(p.rejected), 0),
+    queue: await getAuditQueueStatus(auditId), // null = no queued or running jobs
+  };
+}
+
+// Filters of the page list (query parameters of GET /audits/:id/pages)
+// Issue filters match pages with at least one issue meeting all of them
+export interface PageFilters {
+  issueType?: string;
+  minScore?: number;
+  status?: IssueStatus;
+  assigneeId?: string | null; // null = unassigned issues
+}
+
+/**
+ * Where condition for the pages of an audit matching the page list filters
+ */
+export async function getPageFilterCondition(auditId: string, filters: PageFilters = {}): Promise<SQL | undefined> {
+  const db = await getDatabase();
+  const conditions: SQL[] = [eq(auditPages.audit_id, auditId)];
+
+  const issueConditions: SQL[] = [];
+  if (filters.issueType) {
+    issueConditions.push(eq(auditIssues.issue_type, filters.issueType));
+  }
+  if (filters.status) {
+    issueConditions.push(eq(auditIssues.status, filters.status));
+  }
+  if (filters.assigneeId !== undefined) {
+    issueConditions.push(
+      filters.assigneeId === null ? isNull(auditIssues.assignee_id) : eq(auditIssues.assignee_id, filters.assigneeId)
+    );
+  }
+  if (issueConditions.length > 0) {
+    const pagesWithIssues = db
+      .select({ id: auditIssues.page_id })
+      .from(auditIssues)
+      .where(and(...issueConditions));
+    conditions.push(inArray(auditPages.id, pagesWithIssues));
+  }
+
+  if (filters.minScore !== undefined) {
+    conditions.push(gte(auditPages.quality_score, filters.minScore));
+  }
+
+  return and(...conditions);
+}
+
+export interface PageDetail {
+  page: AuditPage;
+  issues: AuditIssue[];
+  score_breakdown: Record<Severity, { count: number; deduction: number }>;
+  navigation: {
+    position: number | null; // 1-based position in the filtered list, null if the page does not match the filters
+    total: number;
+    prev_id: string | null;
+    next_id: string | null;
+  };
+}
+
+/**
+ * A page with its issues, how its score came about and its neighbours in the filtered page list
+ * Returns null if the page does not belong to the audit
+ */
+export async function getPageDetail(
+  auditId: string,
+  pageId: string,
+  filters: PageFilters = {}
+): Promise<PageDetail | null> {
+  if (!isUuid(auditId) || !isUuid(pageId)) {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const page = await db
+    .select()
+    .from(auditPages)
+    .where(and(eq(auditPages.id, pageId), eq(auditPages.audit_id, auditId)))
+    .limit(1);
+  if (page.length === 0) {
+    return null;
+  }
+
+  const issues = await db
+    .select()
+    .from(auditIssues)
+    .where(eq(auditIssues.page_id, pageId))
+    .orderBy(asc(auditIssues.snippet_offset));
+
+  const scoreBreakdown = {} as PageDetail['score_breakdown'];
+  for (const severity of Object.keys(SEVERITY_WEIGHTS) as Severity[]) {
+    const count = issues.filter((issue) => issue.severity === severity).length;
+    scoreBreakdown[severity] = { count, deduction: count * SEVERITY_WEIGHTS[severity] };
+  }
+
+  // Same order as the page list
+  const pageIds = (
+    await db
+      .select({ id: auditPages.id })
+      .from(auditPages)
+      .where(await getPageFilterCondition(auditId, filters))
+      .orderBy(desc(auditPages.created_at), asc(auditPages.id))
+  ).map((row) => row.id);
+  const index = pageIds.indexOf(pageId);
+
+  return {
+    page: page[0],
+    issues,
+    score_breakdown: scoreBreakdown,
+    navigation: {
+      position: index === -1 ? null : index + 1,
+      total: pageIds.length,
+      prev_id: index > 0 ? pageIds[index - 1] : null,
+      next_id: index !== -1 && index < pageIds.length - 1 ? pageIds[index + 1] : null,
     },
   };
 }
@@ -188,10 +559,24 @@ export async function generateCsvExport(auditId: string): Promise<string> {
 
 /**
  * Process a crawl_page job
+ * Deferred if another worker took the host's slot since the job was claimed (see host-rate-limiter)
  */
-export async function processCrawlPageJob(job: JobQueue): Promise<void> {
+export async function processCrawlPageJob(job: JobQueue): Promise<void | DeferJob> {
   const db = await getDatabase();
-  const payload = job.payload as { audit_id: string; page_id: string; url: string; rate_limit_ms: number };
+  const payload = job.payload as {
+    audit_id: string;
+    page_id: string;
+    url: string;
+    rate_limit_ms: number;
+    crawler_backend?: CrawlerBackend;
+    target_language?: Language;
+  };
+
+  const crawler = getCrawler(payload.crawler_backend);
+  const busyUntil = await reserveCrawlSlot(payload.url, payload.rate_limit_ms, crawler.hostRequests);
+  if (busyUntil) {
+    return { defer_until: busyUntil };
+  }
 
   try {
     // Update page status to crawling
@@ -200,25 +585,70 @@ export async function processCrawlPageJob(job: JobQueue): Promise<void> {
       .set({ status: 'crawling' })
       .where(eq(auditPages.id, payload.page_id));
 
-    // Wait for rate limiting
-    if (payload.rate_limit_ms > 0) {
-      await new Promise((resolve) => setTimeout(resolve, payload.rate_limit_ms));
+    // Crawl the URL
+    console.log(`🕷️ Crawling (${crawler.backend}): ${payload.url}`);
+    const { title, content, snapshot, wordCount } = await crawlUrl(payload.url, crawler.backend);
+    const metadata = snapshot?.metadata;
+
+    // Error pages keep their status, final URL and headers, then the crawl fails
+    if (metadata && metadata.httpStatus >= 400) {
+      await db
+        .update(auditPages)
+        .set({
+          http_status: metadata.httpStatus,
+          final_url: metadata.finalUrl,
+          response_headers: metadata.responseHeaders,
+        })
+        .where(eq(auditPages.id, payload.page_id));
+      throw new Error(`Crawling failed for ${payload.url}: HTTP error (${metadata.httpStatus})`);
     }
 
-    // Crawl the URL
-    console.log(`🕷️ Crawling: ${payload.url}`);
-    const { title, content } = await crawlUrl(payload.url);
+    const language = detectLanguage({
+      content,
+      lang: metadata?.lang,
+      hreflang: metadata?.hreflang,
+      url: metadata?.finalUrl ?? payload.url,
+    });
+    // Pages of unknown language are analyzed, since they may still be in the target language
+    const skip = Boolean(payload.target_language && language && language !== payload.target_language);
 
-    // Update page with crawled content
+    // Update page with crawled content and metadata
     await db
       .update(auditPages)
       .set({
         title,
         content,
-        status: 'pending', // Ready for analysis
+        word_count: wordCount,
+        http_status: metadata?.httpStatus ?? null,
+        final_url: metadata?.finalUrl ?? null,
+        canonical_url: metadata?.canonicalUrl ?? null,
+        meta_description: metadata?.metaDescription ?? null,
+        lang: metadata?.lang ?? null,
+        hreflang: metadata?.hreflang ?? null,
+        headings: metadata?.headings ?? null,
+        response_headers: metadata?.responseHeaders ?? null,
+        detected_language: language,
+        status: skip ? 'skipped' : 'pending', // Pending = ready for analysis
       })
       .where(eq(auditPages.id, payload.page_id));
 
+    // Keep the raw HTML (replaces an earlier snapshot if the job is retried)
+    if (snapshot) {
+      await db
+        .insert(auditPageHtml)
+        .values({ page_id: payload.page_id, html: snapshot.html })
+        .onConflictDoUpdate({
+          target: auditPageHtml.page_id,
+          set: { html: snapshot.html, fetched_at: new Date() },
+        });
+    }
+
+    if (skip) {
+      console.log(`⏭️ Skipping ${payload.url} (language ${language}, audit targets ${payload.target_language})`);
+      await finishPage(payload.audit_id);
+      return;
+    }
+
     // Enqueue analysis job
     await enqueueJob('analyze_page', {
       audit_id: payload.audit_id,
@@ -227,21 +657,39 @@ export async function processCrawlPageJob(job: JobQueue): Promise<void> {
 
     console.log(`✅ Crawled: ${payload.url}`);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`❌ Crawl failed for ${payload.url}: ${errorMessage}`);
-
-    await db
-      .update(auditPages)
-      .set({
-        status: 'failed',
-        error_message: errorMessage,
-      })
-      .where(eq(auditPages.id, payload.page_id));
-
+    console.error(`❌ Crawl failed for ${payload.url}: ${error instanceof Error ? error.message : error}`);
+    await failPage(job, payload.audit_id, payload.page_id, error);
     throw error;
   }
 }
 
+/**
+ * Snippet position columns of an issue (located here if the check did not report one)
+ */
+function snippetPosition(content: string, snippet: string, location?: SnippetLocation | null) {
+  const found = location ?? locateSnippet(content, snippet);
+  return {
+    snippet_offset: found?.start ?? null,
+    snippet_end: found?.end ?? null,
+    snippet_confidence: found?.confidence ?? null,
+  };
+}
+
+const toLanguage = (value: string | null): Language | null => (isLanguage(value) ? value : null);
+
+/**
+ * AI settings stored on an audit (older audits without settings use the environment defaults)
+ */
+function getAuditAiSettings(audit: Audit): AiSettings {
+  return resolveAiSettings({
+    provider: audit.ai_provider ?? undefined,
+    model: audit.ai_model ?? undefined,
+    baseUrl: audit.ai_base_url,
+    temperature: audit.ai_temperature ?? undefined,
+    maxTokens: audit.ai_max_tokens ?? undefined,
+  });
+}
+
 /**
  * Process an analyze_page job
  */
@@ -262,102 +710,495 @@ export async function processAnalyzePageJob(job: JobQueue): Promise<void> {
     }
 
     const pageData = page[0];
-    if (!pageData.title || !pageData.content) {
+    if (pageData.title === null || pageData.content === null) {
       throw new Error('Page has no content to analyze');
     }
 
+    const auditRecord = await db
+      .select()
+      .from(audits)
+      .where(eq(audits.id, payload.audit_id))
+      .limit(1);
+    const aiSettings = auditRecord.length > 0 ? getAuditAiSettings(auditRecord[0]) : resolveAiSettings();
+    const promptVersionId = auditRecord[0]?.prompt_version_id;
+    const promptTemplate = promptVersionId ? await getPromptVersionContent(promptVersionId) : null;
+    const styleRules = await getStyleRules(auditRecord[0]?.user_id, true);
+
     // Update page status to analyzing
     await db
       .update(auditPages)
       .set({ status: 'analyzing' })
       .where(eq(auditPages.id, payload.page_id));
 
-    // Analyze content
-    console.log(`🤖 Analyzing: ${pageData.url}`);
-    const analysis = await analyzeContent(pageData.title, pageData.content);
+    // Deterministic checks first – they need no API key and cost nothing
+    const ruleIssues = [
+      ...runRuleChecks({
+        title: pageData.title,
+        content: pageData.content,
+        metaDescription: pageData.meta_description,
+        wordCount: pageData.word_count,
+        httpStatus: pageData.http_status,
+      }),
+      ...runStyleRules(pageData.content, styleRules),
+    ];
 
-    // Save issues
-    const issueRecords: NewAuditIssue[] = analysis.issues.map((issue) => ({
-      page_id: payload.page_id,
-      issue_type: issue.type,
-      severity: issue.severity,
-      description: issue.description,
-      snippet: issue.snippet,
-      suggestion: issue.suggestion,
-    }));
-
-    if (issueRecords.length > 0) {
-      await db.insert(auditIssues).values(issueRecords);
+    let aiIssues: AnalysisIssue[] = [];
+    let rejectedAiIssues = 0;
+    if (!pageData.content.trim()) {
+      console.log(`⏭️ Skipping AI analysis of empty page: ${pageData.url}`);
+    } else if (!isAiAnalysisConfigured(aiSettings)) {
+      console.log(`⏭️ No AI provider configured, using rule checks only: ${pageData.url}`);
+    } else {
+      console.log(`🤖 Analyzing (${aiSettings.provider}/${aiSettings.model}): ${pageData.url}`);
+      const language = toLanguage(pageData.detected_language);
+      const result = await analyzeContent(pageData.title, pageData.content, aiSettings, {
+        language,
+        promptTemplate: promptTemplate ?? undefined,
+        customChecks: getAiChecks(styleRules),
+      });
+      aiIssues = result.issues;
+      rejectedAiIssues = result.rejectedIssues;
+    }
+
+    const issues = mergeIssues(ruleIssues, aiIssues);
+
+    // Save issues (except findings marked as false positive on this URL in an earlier audit)
+    const allIssueRecords: NewAuditIssue[] = [];
+    for (const issue of issues) {
+      allIssueRecords.push({
+        page_id: payload.page_id,
+        issue_type: issue.type,
+        severity: issue.severity,
+        description: issue.description,
+        snippet: issue.snippet,
+        ...snippetPosition(pageData.content ?? '', issue.snippet, issue.location),
+        suggestion: issue.suggestion,
+        source: issue.source,
+      });
+      await yieldToEventLoop(); // Snippets without a location are searched in the page content
     }
+    const issueRecords = await dropSuppressedIssues(auditRecord[0]?.user_id, allIssueRecords, () => pageData.url);
+    const qualityScore = calculateQualityScore(issueRecords);
+
+    await replacePageIssues(payload.page_id, issueRecords);
 
     // Update page with quality score
     await db
       .update(auditPages)
       .set({
-        quality_score: analysis.qualityScore,
+        quality_score: qualityScore,
+        rejected_ai_issues: rejectedAiIssues,
         status: 'completed',
         analyzed_at: new Date(),
       })
       .where(eq(auditPages.id, payload.page_id));
 
-    // Update audit processed count
-    const currentAudit = await db
-      .select()
-      .from(audits)
-      .where(eq(audits.id, payload.audit_id))
+    await finishPage(payload.audit_id);
+
+    console.log(`✅ Analyzed: ${pageData.url} (Score: ${qualityScore}, ${ruleIssues.length} rule / ${aiIssues.length} AI issues, ${allIssueRecords.length - issueRecords.length} suppressed)`);
+  } catch (error) {
+    console.error(`❌ Analysis failed for page ${payload.page_id}: ${error instanceof Error ? error.message : error}`);
+    await failPage(job, payload.audit_id, payload.page_id, error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the issues an earlier attempt of the analysis saved on a page
+ * Cross-page findings stay, they belong to processAnalyzeAuditJob. Delete and insert run as one
+ * statement, so they are atomic on Neon's HTTP driver too, which has no transactions
+ */
+async function replacePageIssues(pageId: string, records: NewAuditIssue[]): Promise<void> {
+  const db = await getDatabase();
+  const isEarlierIssue = and(
+    eq(auditIssues.page_id, pageId),
+    isNull(auditIssues.cluster_id),
+    isNull(auditIssues.related_page_id)
+  );
+
+  if (records.length === 0) {
+    await db.delete(auditIssues).where(isEarlierIssue);
+    return;
+  }
+  // The delete does not see the rows inserted by the same statement
+  await db.execute(
+    sql`with added as ${db.insert(auditIssues).values(records)} delete from ${auditIssues} where ${isEarlierIssue}`
+  );
+}
+
+/**
+ * Record the error of a failed crawl or analysis on its page
+ * The page only counts as failed once its job is not retried; until then it waits as pending
+ */
+async function failPage(job: JobQueue, auditId: string, pageId: string, error: unknown): Promise<void> {
+  const db = await getDatabase();
+  const retrying = willRetryJob(job, error);
+
+  await db
+    .update(auditPages)
+    .set({
+      status: retrying ? 'pending' : 'failed',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+    })
+    .where(eq(auditPages.id, pageId));
+
+  if (!retrying) {
+    await finishPage(auditId);
+  }
+}
+
+/**
+ * Fail the page of a crawl or analysis job whose worker stopped responding on the last attempt
+ * (see failExpiredJobs), so the audit can still finish
+ */
+export async function failExpiredPageJob(job: JobQueue): Promise<void> {
+  const payload = job.payload as { audit_id?: string; page_id?: string };
+  if (!payload.audit_id || !payload.page_id) {
+    return;
+  }
+  await failPage(job, payload.audit_id, payload.page_id, new Error(LEASE_EXPIRED_ERROR));
+}
+
+/**
+ * Complete the audit of an analyze_audit job whose worker stopped responding on the last attempt
+ */
+export async function failExpiredAuditJob(job: JobQueue): Promise<void> {
+  const payload = job.payload as { audit_id?: string };
+  if (!payload.audit_id) {
+    return;
+  }
+  console.error(`❌ Cross-page analysis failed for audit ${payload.audit_id}: ${LEASE_EXPIRED_ERROR}`);
+  await completeAuditWithoutAnalysis(payload.audit_id);
+}
+
+/**
+ * Complete an audit whose cross-page analysis failed for good, so it does not stay analyzing
+ * The page results stand on their own; the dead job can be retried to add the cross-page findings
+ */
+async function completeAuditWithoutAnalysis(auditId: string): Promise<void> {
+  const db = await getDatabase();
+  await db
+    .update(audits)
+    .set({ status: 'completed' })
+    .where(isRunningAudit(auditId));
+
+  console.log(`⚠️ Audit ${auditId} completed without cross-page findings`);
+}
+
+/**
+ * Reopen the page of a dead crawl or analysis job that is retried by hand
+ * The page no longer counts as processed, and a finished audit continues
+ */
+export async function reopenFailedPage(job: JobQueue): Promise<void> {
+  const payload = job.payload as { audit_id?: string; page_id?: string };
+  if (!payload.audit_id || !payload.page_id) {
+    return;
+  }
+
+  const db = await getDatabase();
+  const reopened = await db
+    .update(auditPages)
+    .set({ status: 'pending' })
+    .where(and(eq(auditPages.id, payload.page_id), eq(auditPages.status, 'failed')))
+    .returning();
+
+  if (reopened.length > 0) {
+    await db
+      .update(audits)
+      .set({ processed_urls: sql`greatest(${audits.processed_urls} - 1, 0)` })
+      .where(eq(audits.id, payload.audit_id));
+    await db
+      .update(audits)
+      .set({ status: job.job_type === 'crawl_page' ? 'crawling' : 'analyzing' })
+      .where(isRunningAudit(payload.audit_id));
+  }
+}
+
+/**
+ * Condition for status changes by the job processor, which must not override paused or cancelled
+ */
+const isRunningAudit = (auditId: string) =>
+  and(eq(audits.id, auditId), notInArray(audits.status, STOPPED_AUDIT_STATUSES));
+
+
+/**
+ * Count a processed page and start the audit-level analysis once every page is done
+ */
+async function finishPage(auditId: string): Promise<void> {
+  const db = await getDatabase();
+
+  // Update audit processed count (in SQL, pages of an audit finish in parallel)
+  await db
+    .update(audits)
+    .set({
+      processed_urls: sql`${audits.processed_urls} + 1`,
+    })
+    .where(eq(audits.id, auditId));
+
+  await updateAuditProgress(auditId);
+}
+
+/**
+ * Move a running audit on: start the audit-level analysis once every page is done,
+ * otherwise switch to analyzing once crawling is over
+ */
+async function updateAuditProgress(auditId: string): Promise<void> {
+  const db = await getDatabase();
+
+  // Check if all pages are done
+  const allPages = await db
+    .select()
+    .from(auditPages)
+    .where(eq(auditPages.audit_id, auditId));
+
+  const allCompleted = allPages.every(
+    (p) => p.status === 'completed' || p.status === 'failed' || p.status === 'skipped'
+  );
+
+  if (allCompleted) {
+    // Cross-page checks run once all pages are done, then complete the audit
+    // (a paused audit starts them when resumed, a cancelled one never)
+    const running = await db
+      .update(audits)
+      .set({ status: 'analyzing' })
+      .where(isRunningAudit(auditId))
+      .returning();
+    if (running.length === 0) {
+      return;
+    }
+
+    // The last pages may finish at the same time, only one of them enqueues the audit analysis
+    const queued = await db
+      .select({ id: jobQueue.id })
+      .from(jobQueue)
+      .where(
+        and(
+          eq(jobQueue.audit_id, auditId),
+          eq(jobQueue.job_type, 'analyze_audit'),
+          inArray(jobQueue.status, ['pending', 'processing'])
+        )
+      )
       .limit(1);
-    
-    if (currentAudit.length > 0) {
+    if (queued.length === 0) {
+      await enqueueJob('analyze_audit', { audit_id: auditId });
+    }
+  } else {
+    // Check if we should update status to analyzing
+    const hasAnalyzing = allPages.some((p) => p.status === 'analyzing');
+    const hasCrawling = allPages.some((p) => p.status === 'crawling');
+    if (hasAnalyzing && !hasCrawling) {
       await db
         .update(audits)
-        .set({
-          processed_urls: currentAudit[0].processed_urls + 1,
-        })
-        .where(eq(audits.id, payload.audit_id));
+        .set({ status: 'analyzing' })
+        .where(isRunningAudit(auditId));
     }
+  }
+}
 
-    // Check if all pages are done
-    const allPages = await db
-      .select()
+/**
+ * Save the cross-page findings of an analyze_audit run
+ * A finding an earlier run already saved (same page, type, other page and snippet) updates that issue,
+ * so its status, assignee and comment are kept; new findings are saved unless the audit's owner
+ * marked them as false positive before, and earlier findings not found again are deleted
+ * Returns the IDs of the pages that have cross-page findings now
+ */
+async function saveCrossPageIssues(
+  ownerId: string | null | undefined,
+  issues: NewAuditIssue[],
+  earlierIssues: AuditIssue[],
+  urlOf: (issue: NewAuditIssue) => string
+): Promise<Set<string>> {
+  const db = await getDatabase();
+  const crossPageKey = (issue: NewAuditIssue | AuditIssue) =>
+    [issue.page_id, issue.issue_type, issue.related_page_id ?? '', snippetKey(issue.snippet)].join('\n');
+  const earlierByKey = new Map(earlierIssues.map((issue) => [crossPageKey(issue), issue]));
+
+  const newIssues: NewAuditIssue[] = [];
+  const keptIds = new Set<string>();
+  for (const issue of issues) {
+    const earlier = earlierByKey.get(crossPageKey(issue));
+    if (!earlier || keptIds.has(earlier.id)) {
+      newIssues.push(issue);
+      continue;
+    }
+    keptIds.add(earlier.id);
+    await db
+      .update(auditIssues)
+      .set({
+        severity: issue.severity,
+        description: issue.description,
+        snippet: issue.snippet,
+        snippet_offset: issue.snippet_offset ?? null,
+        snippet_end: issue.snippet_end ?? null,
+        snippet_confidence: issue.snippet_confidence ?? null,
+        suggestion: issue.suggestion,
+        cluster_id: issue.cluster_id ?? null,
+        related_url: issue.related_url ?? null,
+        related_snippet: issue.related_snippet ?? null,
+      })
+      .where(eq(auditIssues.id, earlier.id));
+  }
+
+  const records = await dropSuppressedIssues(ownerId, newIssues, urlOf);
+  if (records.length > 0) {
+    await db.insert(auditIssues).values(records);
+  }
+
+  const goneIds = earlierIssues.filter((issue) => !keptIds.has(issue.id)).map((issue) => issue.id);
+  if (goneIds.length > 0) {
+    await db.delete(auditIssues).where(inArray(auditIssues.id, goneIds));
+  }
+
+  const pageIds = new Set(records.map((record) => record.page_id));
+  earlierIssues.filter((issue) => keptIds.has(issue.id)).forEach((issue) => pageIds.add(issue.page_id));
+  return pageIds;
+}
+
+/**
+ * Process an analyze_audit job
+ * Audit-level analysis across all pages (near-duplicate content, contradicting product facts),
+ * then marks the audit completed
+ */
+export async function processAnalyzeAuditJob(job: JobQueue): Promise<void> {
+  const payload = job.payload as { audit_id: string };
+
+  try {
+    const db = await getDatabase();
+
+    const pages = await db
+      .select({ id: auditPages.id, url: auditPages.url, title: auditPages.title, content: auditPages.content })
+      .from(auditPages)
+      .where(and(eq(auditPages.audit_id, payload.audit_id), eq(auditPages.status, 'completed')));
+
+    const [auditRecord] = await db
+      .select({ user_id: audits.user_id })
+      .from(audits)
+      .where(eq(audits.id, payload.audit_id));
+    const ownerId = auditRecord?.user_id;
+
+    // Findings of an earlier run are matched against the new ones, so their triage survives;
+    // pages flagged by an earlier run need a new score as well
+    const auditPageIds = db
+      .select({ id: auditPages.id })
       .from(auditPages)
       .where(eq(auditPages.audit_id, payload.audit_id));
+    const earlierIssues = await db
+      .select()
+      .from(auditIssues)
+      .where(
+        and(
+          inArray(auditIssues.page_id, auditPageIds),
+          or(isNotNull(auditIssues.cluster_id), isNotNull(auditIssues.related_page_id))
+        )
+      );
+    const rescorePageIds = new Set(earlierIssues.map((issue) => issue.page_id));
+    const earlierClusters = await db
+      .select({ id: duplicateClusters.id })
+      .from(duplicateClusters)
+      .where(eq(duplicateClusters.audit_id, payload.audit_id));
 
-    const allCompleted = allPages.every(
-      (p) => p.status === 'completed' || p.status === 'failed'
+    console.log(`🔍 Detecting duplicate content across ${pages.length} pages`);
+    const contentById = new Map(pages.map((page) => [page.id, page.content || '']));
+    const urlById = new Map(pages.map((page) => [page.id, page.url]));
+    const clusters = findDuplicateClusters(
+      pages.map((page) => ({ id: page.id, content: page.content || '' }))
     );
 
-    if (allCompleted) {
-      await db
-        .update(audits)
-        .set({ status: 'completed' })
-        .where(eq(audits.id, payload.audit_id));
-      console.log(`🎉 Audit ${payload.audit_id} completed!`);
-    } else {
-      // Check if we should update status to analyzing
-      const hasAnalyzing = allPages.some((p) => p.status === 'analyzing');
-      const hasCrawling = allPages.some((p) => p.status === 'crawling');
-      if (hasAnalyzing && !hasCrawling) {
-        await db
-          .update(audits)
-          .set({ status: 'analyzing' })
-          .where(eq(audits.id, payload.audit_id));
+    const crossPageIssues: NewAuditIssue[] = [];
+    for (const cluster of clusters) {
+      const [clusterRecord] = await db
+        .insert(duplicateClusters)
+        .values({
+          audit_id: payload.audit_id,
+          similarity: cluster.similarity,
+          page_count: cluster.pageIds.length,
+        })
+        .returning();
+
+      const otherPages = cluster.pageIds.length - 1;
+      for (const pageId of cluster.pageIds) {
+        const content = contentById.get(pageId) || '';
+        const snippet = content.trim().slice(0, 200);
+        crossPageIssues.push({
+          page_id: pageId,
+          issue_type: 'duplicate_content',
+          severity: 'medium',
+          description: `Nahezu identischer Inhalt wie ${otherPages} weitere ${otherPages === 1 ? 'Seite' : 'Seiten'} (${Math.round(cluster.similarity * 100)}% Ähnlichkeit)`,
+          snippet,
+          ...snippetPosition(content, snippet),
+          suggestion: 'Inhalte individualisieren oder per Canonical auf eine Hauptseite verweisen',
+          source: 'rule',
+          cluster_id: clusterRecord.id,
+        });
       }
     }
 
-    console.log(`✅ Analyzed: ${pageData.url} (Score: ${analysis.qualityScore})`);
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`❌ Analysis failed for page ${payload.page_id}: ${errorMessage}`);
+    console.log(`🔍 Comparing product facts across related pages`);
+    const contradictions = findFactContradictions(pages);
+    for (const { label, a, b } of contradictions) {
+      for (const [own, other] of [
+        [a, b],
+        [b, a],
+      ]) {
+        crossPageIssues.push({
+          page_id: own.pageId,
+          issue_type: 'contradiction',
+          severity: 'medium',
+          description: `${label} widerspricht einer verwandten Seite: „${own.text}“ statt „${other.text}“`,
+          snippet: own.snippet,
+          ...snippetPosition(contentById.get(own.pageId) || '', own.snippet),
+          suggestion: `${label} auf beiden Seiten abgleichen`,
+          source: 'rule',
+          related_page_id: other.pageId,
+          related_url: other.url,
+          related_snippet: other.snippet,
+        });
+      }
+    }
+
+    const savedPageIds = await saveCrossPageIssues(ownerId, crossPageIssues, earlierIssues, (issue) =>
+      urlById.get(issue.page_id) || ''
+    );
+    savedPageIds.forEach((pageId) => rescorePageIds.add(pageId));
+
+    // Clusters of the earlier run no longer have issues
+    if (earlierClusters.length > 0) {
+      await db.delete(duplicateClusters).where(
+        inArray(
+          duplicateClusters.id,
+          earlierClusters.map((cluster) => cluster.id)
+        )
+      );
+    }
+
+    // Quality scores include the duplicate_content issues
+    if (rescorePageIds.size > 0) {
+      const issues = await db
+        .select({ page_id: auditIssues.page_id, severity: auditIssues.severity })
+        .from(auditIssues)
+        .where(inArray(auditIssues.page_id, Array.from(rescorePageIds)));
+
+      for (const pageId of rescorePageIds) {
+        await db
+          .update(auditPages)
+          .set({ quality_score: calculateQualityScore(issues.filter((issue) => issue.page_id === pageId)) })
+          .where(eq(auditPages.id, pageId));
+      }
+    }
 
     await db
-      .update(auditPages)
-      .set({
-        status: 'failed',
-        error_message: errorMessage,
-      })
-      .where(eq(auditPages.id, payload.page_id));
+      .update(audits)
+      .set({ status: 'completed' })
+      .where(isRunningAudit(payload.audit_id));
 
+    console.log(
+      `🎉 Audit ${payload.audit_id} completed! (${clusters.length} duplicate clusters, ${contradictions.length} cross-page contradictions)`
+    );
+  } catch (error) {
+    console.error(`❌ Cross-page analysis failed for audit ${payload.audit_id}: ${error instanceof Error ? error.message : error}`);
+    if (!willRetryJob(job, error)) {
+      await completeAuditWithoutAnalysis(payload.audit_id);
+    }
     throw error;
   }
 }
-
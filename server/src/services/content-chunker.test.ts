@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { splitIntoChunks } from './content-chunker';
+
+const paragraph = (label: string, sentences = 8) =>
+  Array.from({ length: sentences }, (_, i) => `${label} Satz ${i + 1} beschreibt das Produkt ausführlich.`).join(' ');
+
+describe('splitIntoChunks', () => {
+  it('keeps short content in a single chunk', () => {
+    expect(splitIntoChunks('# Titel\n\nKurzer Text.')).toEqual([
+      { text: '# Titel\n\nKurzer Text.', start: 0, end: 21, headings: [] },
+    ]);
+  });
+
+  it('cuts at headings and records the heading path', () => {
+    const content = [
+      '# Produkt',
+      paragraph('Intro'),
+      '## Maße',
+      paragraph('Maße'),
+      '## Pflege',
+      paragraph('Pflege'),
+    ].join('\n\n');
+    const chunks = splitIntoChunks(content, { maxChars: 500, overlapChars: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(500);
+      expect(chunk.text).toBe(content.slice(chunk.start, chunk.end));
+    }
+    expect(chunks.map((chunk) => chunk.headings)).toContainEqual(['Produkt', 'Maße']);
+    expect(chunks.map((chunk) => chunk.headings)).toContainEqual(['Produkt', 'Pflege']);
+    expect(chunks.find((chunk) => chunk.text.startsWith('## Pflege'))).toBeDefined();
+  });
+
+  it('covers the whole content without gaps', () => {
+    const content = Array.from({ length: 12 }, (_, i) => paragraph(`Absatz ${i}`)).join('\n\n');
+    const chunks = splitIntoChunks(content, { maxChars: 800, overlapChars: 0 });
+
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(content.length);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBe(chunks[i - 1].end);
+    }
+  });
+
+  it('repeats the end of the previous chunk, starting at a word boundary', () => {
+    const content = Array.from({ length: 12 }, (_, i) => paragraph(`Absatz ${i}`)).join('\n\n');
+    const chunks = splitIntoChunks(content, { maxChars: 800, overlapChars: 100 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+      expect(chunks[i - 1].end - chunks[i].start).toBeLessThanOrEqual(100);
+      expect(content[chunks[i].start - 1]).toMatch(/\s/);
+    }
+  });
+
+  it('splits text without paragraphs at sentence boundaries', () => {
+    const content = paragraph('Lang', 60);
+    const chunks = splitIntoChunks(content, { maxChars: 1000, overlapChars: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.text.trimEnd()).toMatch(/\.$/);
+    }
+  });
+});
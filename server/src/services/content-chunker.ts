@@ -0,0 +1,137 @@
+/**
+ * Split long markdown content into section-aware chunks for the AI analysis
+ */
+
+export interface ContentChunk {
+  text: string;
+  start: number; // Offset of the chunk in the full document
+  end: number;
+  headings: string[]; // Heading path of the section the chunk starts in (e.g. ["Produkt", "Maße"])
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number; // Text repeated from the end of the previous chunk, so boundary findings are seen
+}
+
+const DEFAULT_MAX_CHARS = 12000;
+const DEFAULT_OVERLAP_CHARS = 600;
+
+interface Section {
+  start: number;
+  end: number;
+  headings: string[];
+}
+
+/**
+ * Split content into chunks of at most maxChars (plus overlap)
+ * Chunks end at markdown headings where possible, then at paragraphs, then at sentence/word boundaries
+ */
+export function splitIntoChunks(content: string, options: ChunkOptions = {}): ContentChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 4));
+
+  if (content.length <= maxChars) {
+    return [{ text: content, start: 0, end: content.length, headings: [] }];
+  }
+
+  // Pieces no longer than maxChars, each starting at a section, paragraph or sentence boundary
+  const pieces: Section[] = [];
+  for (const section of splitSections(content)) {
+    for (const [start, end] of splitRange(content, section.start, section.end, maxChars)) {
+      pieces.push({ start, end, headings: section.headings });
+    }
+  }
+
+  // Greedily merge consecutive pieces up to maxChars
+  const ranges: Section[] = [];
+  for (const piece of pieces) {
+    const current = ranges[ranges.length - 1];
+    if (current && piece.end - current.start <= maxChars) {
+      current.end = piece.end;
+    } else {
+      ranges.push({ ...piece });
+    }
+  }
+
+  return ranges.map((range, index) => {
+    const start = index === 0 ? range.start : overlapStart(content, range.start, overlapChars);
+    return {
+      text: content.slice(start, range.end),
+      start,
+      end: range.end,
+      headings: range.headings,
+    };
+  });
+}
+
+/**
+ * Sections start at markdown headings; each carries the heading path it belongs to
+ */
+function splitSections(content: string): Section[] {
+  const sections: Section[] = [];
+  const path: { level: number; text: string }[] = [];
+  const headingPattern = /^(#{1,6})\s+(.+?)\s*#*\s*$/gm;
+
+  let sectionStart = 0;
+  let sectionHeadings: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = headingPattern.exec(content)) !== null) {
+    if (match.index > sectionStart) {
+      sections.push({ start: sectionStart, end: match.index, headings: sectionHeadings });
+    }
+
+    const level = match[1].length;
+    while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+    path.push({ level, text: match[2] });
+
+    sectionStart = match.index;
+    sectionHeadings = path.map((heading) => heading.text);
+  }
+
+  if (sectionStart < content.length) {
+    sections.push({ start: sectionStart, end: content.length, headings: sectionHeadings });
+  }
+  return sections;
+}
+
+/**
+ * Split [start, end) into ranges of at most maxChars at the best available boundary
+ */
+function splitRange(content: string, start: number, end: number, maxChars: number): [number, number][] {
+  const ranges: [number, number][] = [];
+  let position = start;
+
+  while (end - position > maxChars) {
+    const window = content.slice(position, position + maxChars);
+    const cut =
+      lastBoundary(window, /\n\s*\n/g) ?? lastBoundary(window, /[.!?]\s+/g) ?? lastBoundary(window, /\s+/g) ?? maxChars;
+    ranges.push([position, position + cut]);
+    position += cut;
+  }
+
+  ranges.push([position, end]);
+  return ranges;
+}
+
+// End of the last boundary match in the second half of the window (keeps pieces reasonably large)
+function lastBoundary(window: string, pattern: RegExp): number | null {
+  let best: number | null = null;
+  for (const match of window.matchAll(pattern)) {
+    const end = match.index! + match[0].length;
+    if (end >= window.length / 2 && end < window.length) best = end;
+  }
+  return best;
+}
+
+// Start the overlap at a paragraph or word boundary instead of mid-word
+function overlapStart(content: string, start: number, overlapChars: number): number {
+  if (overlapChars <= 0) return start;
+  const from = Math.max(0, start - overlapChars);
+  const window = content.slice(from, start).trimEnd();
+  const paragraph = window.indexOf('\n\n');
+  if (paragraph !== -1) return from + paragraph + 2;
+  const space = window.search(/\s/);
+  return space === -1 ? start : from + space + 1;
+}
@@ -0,0 +1,104 @@
+import { getEnv } from '../lib/env';
+import { crawlWithJina } from './jina-crawler';
+import { crawlWithHtmlFetcher, fetchPageSnapshot } from './html-crawler';
+import type { HeadingOutlineItem, HreflangAlternate } from '../schema/audits';
+
+export type CrawlerBackend = 'html' | 'jina';
+
+export const CRAWLER_BACKENDS: CrawlerBackend[] = ['html', 'jina'];
+
+/**
+ * Structured metadata of the crawled HTML document
+ */
+export interface PageMetadata {
+  httpStatus: number;
+  finalUrl: string; // After redirects
+  canonicalUrl: string | null;
+  metaDescription: string | null;
+  lang: string | null;
+  hreflang: HreflangAlternate[];
+  headings: HeadingOutlineItem[];
+  responseHeaders: Record<string, string>;
+}
+
+export interface PageSnapshot {
+  html: string;
+  metadata: PageMetadata;
+}
+
+export interface CrawlResult {
+  title: string;
+  content: string; // Main content as markdown
+  snapshot?: PageSnapshot; // Raw HTML and metadata, if the backend fetched the HTML itself
+}
+
+export interface CrawledPage extends CrawlResult {
+  wordCount: number;
+}
+
+/**
+ * A crawler backend turns a URL into its title and main content
+ */
+export interface Crawler {
+  backend: CrawlerBackend;
+  crawl(url: string): Promise<CrawlResult>;
+  // Requests crawlUrl sends to the page's host, booked against its rate limit
+  hostRequests: number;
+}
+
+const crawlers: Record<CrawlerBackend, Crawler> = {
+  html: { backend: 'html', crawl: crawlWithHtmlFetcher, hostRequests: 1 },
+  // Jina fetches the page, and crawlUrl fetches it again for the snapshot
+  jina: { backend: 'jina', crawl: crawlWithJina, hostRequests: 2 },
+};
+
+export function isCrawlerBackend(value: unknown): value is CrawlerBackend {
+  return typeof value === 'string' && (CRAWLER_BACKENDS as string[]).includes(value);
+}
+
+/**
+ * Backend used when an audit does not choose one (CRAWLER_BACKEND env var, default: jina)
+ */
+export function getDefaultCrawlerBackend(): CrawlerBackend {
+  const backend = getEnv('CRAWLER_BACKEND', 'jina');
+  return isCrawlerBackend(backend) ? backend : 'jina';
+}
+
+export function getCrawler(backend: CrawlerBackend = getDefaultCrawlerBackend()): Crawler {
+  return crawlers[backend];
+}
+
+/**
+ * Crawl a URL with the given backend
+ * Backends that do not see the HTML (Jina) get a best-effort direct fetch for the snapshot,
+ * so metadata is available whenever the page is reachable from here
+ * Error statuses of the page are reported in the snapshot's metadata, not thrown
+ */
+export async function crawlUrl(url: string, backend?: CrawlerBackend): Promise<CrawledPage> {
+  const result = await getCrawler(backend).crawl(url);
+
+  let snapshot = result.snapshot;
+  if (!snapshot) {
+    snapshot = await fetchPageSnapshot(url).catch((error) => {
+      console.warn(`⚠️ Could not fetch HTML snapshot for ${url}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    });
+  }
+
+  return {
+    ...result,
+    snapshot,
+    wordCount: countWords(result.content),
+  };
+}
+
+/**
+ * Count words of markdown content, ignoring link targets and markup
+ */
+export function countWords(markdown: string): number {
+  const text = markdown
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`|~-]+/g, ' ');
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
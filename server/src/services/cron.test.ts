@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, getNextCronRun } from './cron';
+
+const next = (expression: string, after: string) =>
+  getNextCronRun(parseCron(expression), new Date(after)).toISOString();
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('*/15 6-8 1,15 * 1-5');
+
+    expect([...cron.minute.values]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hour.values]).toEqual([6, 7, 8]);
+    expect([...cron.dayOfMonth.values]).toEqual([1, 15]);
+    expect(cron.month.values.size).toBe(12);
+    expect([...cron.dayOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('reads a start with a step as every nth value from there', () => {
+    expect([...parseCron('5/20 * * * *').minute.values]).toEqual([5, 25, 45]);
+  });
+
+  it('accepts 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').dayOfWeek.values]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 6 * *')).toThrow('cron_expression must have 5 fields');
+    expect(() => parseCron('0 6 * * mon')).toThrow('Invalid day of week field in cron_expression: mon');
+    expect(() => parseCron('60 * * * *')).toThrow('minute in cron_expression must be between 0 and 59: 60');
+    expect(() => parseCron('0 10-8 * * *')).toThrow('hour in cron_expression must be between 0 and 23: 10-8');
+    expect(() => parseCron('*/0 * * * *')).toThrow('minute in cron_expression must be between 0 and 59');
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('returns the next matching minute, strictly after the given time', () => {
+    expect(next('0 6 * * *', '2024-03-10T05:59:30Z')).toBe('2024-03-10T06:00:00.000Z');
+    expect(next('0 6 * * *', '2024-03-10T06:00:00Z')).toBe('2024-03-11T06:00:00.000Z');
+    expect(next('*/15 * * * *', '2024-03-10T10:07:00Z')).toBe('2024-03-10T10:15:00.000Z');
+  });
+
+  it('skips to the next matching weekday', () => {
+    // 2024-03-09 is a Saturday
+    expect(next('30 7 * * 1-5', '2024-03-09T12:00:00Z')).toBe('2024-03-11T07:30:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th (a Friday) or any Monday, whichever comes first
+    expect(next('0 0 15 * 1', '2024-03-12T00:00:00Z')).toBe('2024-03-15T00:00:00.000Z');
+    expect(next('0 0 15 * 1', '2024-03-15T00:00:00Z')).toBe('2024-03-18T00:00:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    expect(next('0 0 1 1 *', '2024-06-01T00:00:00Z')).toBe('2025-01-01T00:00:00.000Z');
+    expect(next('0 12 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T12:00:00.000Z');
+  });
+
+  it('throws for expressions that never match', () => {
+    expect(() => next('0 0 30 2 *', '2024-01-01T00:00:00Z')).toThrow('cron_expression never matches a date');
+  });
+});
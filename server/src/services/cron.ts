@@ -0,0 +1,125 @@
+/**
+ * Cron expressions for audit schedules
+ * Five fields (minute hour day-of-month month day-of-week), evaluated in UTC
+ * Supports *, lists, ranges and steps (e.g. "0 6 * * 1-5" or "30 2 1,15 * *"), no names or L/W/#
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean; // Starts with *, relevant for the day-of-month / day-of-week rule
+}
+
+export interface CronExpression {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are Sunday
+];
+
+const PART_PATTERN = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/;
+
+// Enough steps to find a match in any valid expression within a few years
+const MAX_SEARCH_STEPS = 100000;
+
+/**
+ * Parse a cron expression
+ * Throws an Error with a user-facing message if invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('cron_expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+
+  // Sunday may be written as 0 or 7
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function parseField(text: string, field: (typeof FIELDS)[number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const match = part.match(PART_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} field in cron_expression: ${text}`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-').map((value) => parseInt(value, 10));
+      start = from;
+      // "5/10" means every 10th from 5 on, like in Vixie cron
+      end = to ?? (stepText ? field.max : from);
+    }
+
+    if (step < 1 || start < field.min || end > field.max || start > end) {
+      throw new Error(`${field.name} in cron_expression must be between ${field.min} and ${field.max}: ${text}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: text.startsWith('*') };
+}
+
+/**
+ * Day-of-month and day-of-week are alternatives when both are restricted (standard cron behaviour)
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.dayOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = cron.dayOfWeek.values.has(date.getUTCDay());
+
+  if (cron.dayOfMonth.wildcard && cron.dayOfWeek.wildcard) return true;
+  if (cron.dayOfMonth.wildcard) return dayOfWeek;
+  if (cron.dayOfWeek.wildcard) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First time after the given date (at minute precision) that matches the expression
+ * Throws an Error if the expression never matches (e.g. 30 February)
+ */
+export function getNextCronRun(cron: CronExpression, after: Date): Date {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match instead of testing every minute
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error('cron_expression never matches a date');
+}
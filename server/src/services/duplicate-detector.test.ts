@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateClusters, computeMinHash, estimateSimilarity } from './duplicate-detector';
+
+// Deterministic text of distinct words, so shingles only repeat where pages share content
+const text = (prefix: string, words = 200) =>
+  Array.from({ length: words }, (_, i) => `${prefix}${(i * 7919) % 1009}`).join(' ');
+
+const edit = (content: string, ...positions: number[]) => {
+  const words = content.split(' ');
+  positions.forEach((position) => (words[position] = 'geändert'));
+  return words.join(' ');
+};
+
+describe('findDuplicateClusters', () => {
+  it('clusters near-identical pages and leaves different pages out', () => {
+    const base = text('wort');
+    const clusters = findDuplicateClusters([
+      { id: 'a', content: base },
+      { id: 'b', content: edit(base, 100) },
+      { id: 'c', content: edit(base, 10, 190) },
+      { id: 'd', content: text('anders') },
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].pageIds.sort()).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].similarity).toBeGreaterThanOrEqual(0.8);
+    expect(clusters[0].similarity).toBeLessThanOrEqual(1);
+  });
+
+  it('ignores markdown link targets and case', () => {
+    const base = text('wort');
+    const linked = base.replace('wort0', '[WORT0](https://example.com/ziel)');
+    const [cluster] = findDuplicateClusters([
+      { id: 'a', content: base },
+      { id: 'b', content: linked },
+    ]);
+
+    expect(cluster.similarity).toBe(1);
+  });
+
+  it('skips pages below the minimum word count', () => {
+    const short = text('wort', 20);
+    const pages = [
+      { id: 'a', content: short },
+      { id: 'b', content: short },
+    ];
+
+    expect(findDuplicateClusters(pages)).toEqual([]);
+    expect(findDuplicateClusters(pages, { minWords: 10 })).toHaveLength(1);
+  });
+
+  it('links pages only above the threshold', () => {
+    const base = text('wort');
+    // Six edits change about 30 of the 196 shingles (Jaccard similarity around 0.7)
+    const changed = edit(base, 20, 50, 80, 110, 140, 170);
+    const pages = [
+      { id: 'a', content: base },
+      { id: 'b', content: changed },
+    ];
+
+    expect(findDuplicateClusters(pages)).toEqual([]);
+    expect(findDuplicateClusters(pages, { threshold: 0.5 })).toHaveLength(1);
+  });
+});
+
+describe('estimateSimilarity', () => {
+  it('is 1 for equal sets and low for disjoint ones', () => {
+    const a = computeMinHash(new Set(['a b c', 'b c d', 'c d e']));
+    const b = computeMinHash(new Set(['x y z', 'y z w', 'z w v']));
+
+    expect(estimateSimilarity(a, computeMinHash(new Set(['c d e', 'b c d', 'a b c'])))).toBe(1);
+    expect(estimateSimilarity(a, b)).toBeLessThan(0.2);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Near-duplicate detection across the pages of an audit
+ * Word shingles → MinHash signatures → LSH banding for candidate pairs → clusters
+ */
+
+export interface DuplicateCandidate {
+  id: string;
+  content: string;
+}
+
+export interface DuplicateCluster {
+  pageIds: string[];
+  similarity: number; // Average estimated Jaccard similarity of the linked pairs (0-1)
+}
+
+export interface DuplicateDetectionOptions {
+  threshold?: number; // Minimum estimated similarity for two pages to be linked
+  shingleSize?: number; // Words per shingle
+  minWords?: number; // Shorter pages are skipped (too few shingles to compare)
+}
+
+const NUM_HASHES = 64;
+const BANDS = 16; // 16 bands × 4 rows: pairs with ~0.5 similarity become candidates
+const ROWS_PER_BAND = NUM_HASHES / BANDS;
+
+const DEFAULT_THRESHOLD = 0.8;
+const DEFAULT_SHINGLE_SIZE = 5;
+const DEFAULT_MIN_WORDS = 30;
+
+// Fixed seeds, so signatures are stable between runs
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(0x9e3779b9 ^ Math.imul(i + 1, 0x85ebca6b)));
+
+/**
+ * Find clusters of pages with (nearly) the same content
+ * Pages end up in the same cluster when they are linked through pairs above the threshold
+ */
+export function findDuplicateClusters(
+  pages: DuplicateCandidate[],
+  options: DuplicateDetectionOptions = {}
+): DuplicateCluster[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const shingleSize = options.shingleSize ?? DEFAULT_SHINGLE_SIZE;
+  const minWords = options.minWords ?? DEFAULT_MIN_WORDS;
+
+  const signatures = new Map<string, Uint32Array>();
+  for (const page of pages) {
+    const words = tokenize(page.content);
+    if (words.length < minWords) continue;
+    signatures.set(page.id, computeMinHash(shingle(words, shingleSize)));
+  }
+
+  // LSH: pages sharing any band bucket are candidates
+  const buckets = new Map<string, string[]>();
+  for (const [id, signature] of signatures) {
+    for (let band = 0; band < BANDS; band++) {
+      const rows = signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+      const key = `${band}:${Array.from(rows).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(id);
+      else buckets.set(key, [id]);
+    }
+  }
+
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  for (const id of signatures.keys()) parent.set(id, id);
+
+  const checked = new Set<string>();
+  const linkedPairs: { a: string; b: string; similarity: number }[] = [];
+
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2) continue;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = bucket[i] < bucket[j] ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+        const pairKey = `${a}|${b}`;
+        if (checked.has(pairKey)) continue;
+        checked.add(pairKey);
+
+        const similarity = estimateSimilarity(signatures.get(a)!, signatures.get(b)!);
+        if (similarity >= threshold) {
+          linkedPairs.push({ a, b, similarity });
+          parent.set(find(a), find(b));
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<string, { pageIds: string[]; similarities: number[] }>();
+  for (const pair of linkedPairs) {
+    const root = find(pair.a);
+    const cluster = clusters.get(root) ?? { pageIds: [], similarities: [] };
+    cluster.similarities.push(pair.similarity);
+    clusters.set(root, cluster);
+  }
+  for (const id of signatures.keys()) {
+    clusters.get(find(id))?.pageIds.push(id);
+  }
+
+  return Array.from(clusters.values())
+    .map(({ pageIds, similarities }) => ({
+      pageIds,
+      similarity: similarities.reduce((sum, s) => sum + s, 0) / similarities.length,
+    }))
+    .sort((a, b) => b.pageIds.length - a.pageIds.length);
+}
+
+/**
+ * MinHash signature of a set of shingles
+ */
+export function computeMinHash(shingles: Set<string>): Uint32Array {
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+
+  for (const value of shingles) {
+    const base = fnv1a(value);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const hash = fmix32(base ^ HASH_SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Share of equal signature slots – estimates the Jaccard similarity of the shingle sets
+ */
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / NUM_HASHES;
+}
+
+function tokenize(markdown: string): string[] {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function shingle(words: string[], size: number): Set<string> {
+  const shingles = new Set<string>();
+  if (words.length <= size) {
+    shingles.add(words.join(' '));
+    return shingles;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finalizer
+function fmix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
@@ -0,0 +1,84 @@
+import { getDatabase } from '../lib/db';
+import { getEnv } from '../lib/env';
+import { crawlHosts } from '../schema/audits';
+import { eq, lte, lt, sql } from 'drizzle-orm';
+
+/**
+ * Per-host crawling politeness (generic cell rate algorithm)
+ * Each crawl books one rate limit interval per request it sends to its host in crawl_hosts. The job queue does not
+ * claim crawl jobs of a host before its next_slot_at, so workers pick up other jobs meanwhile.
+ * The state lives in the database, so the limit holds across workers and server instances.
+ */
+
+// Hosts without crawls for this long are dropped from crawl_hosts
+const IDLE_HOST_MS = 60 * 60 * 1000;
+
+/**
+ * Number of requests a host may receive back to back before the rate limit applies
+ */
+function getBurst(): number {
+  return parseInt(getEnv('CRAWL_HOST_BURST', '') || '') || 1;
+}
+
+/**
+ * Host a crawl of the URL is rate-limited by (null for invalid URLs)
+ */
+export function getCrawlHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Book the next slot of the URL's host for a crawl sending the given number of requests to it
+ * Returns null if the crawl may start now, otherwise the time the host is free again
+ * (another worker took the slot between claiming and booking)
+ */
+export async function reserveCrawlSlot(url: string, intervalMs: number, requests = 1): Promise<Date | null> {
+  const host = getCrawlHost(url);
+  if (!host || intervalMs <= 0) {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const now = new Date();
+  const booking = requests * intervalMs;
+  const tolerance = (getBurst() - 1) * intervalMs;
+  const bookedUntil = sql`greatest(${crawlHosts.booked_until}, ${now.toISOString()}::timestamp) + ${booking} * interval '1 millisecond'`;
+
+  const booked = await db
+    .insert(crawlHosts)
+    .values({
+      host,
+      booked_until: new Date(now.getTime() + booking),
+      next_slot_at: new Date(now.getTime() + booking - tolerance),
+    })
+    .onConflictDoUpdate({
+      target: crawlHosts.host,
+      set: {
+        booked_until: bookedUntil,
+        next_slot_at: sql`${bookedUntil} - ${tolerance} * interval '1 millisecond'`,
+      },
+      setWhere: lte(crawlHosts.next_slot_at, now),
+    })
+    .returning();
+
+  if (booked.length > 0) {
+    return null;
+  }
+
+  const [current] = await db.select().from(crawlHosts).where(eq(crawlHosts.host, host)).limit(1);
+  return current ? current.next_slot_at : null;
+}
+
+/**
+ * Drop hosts that have not been crawled for a while
+ */
+export async function pruneIdleCrawlHosts(): Promise<void> {
+  const db = await getDatabase();
+  await db
+    .delete(crawlHosts)
+    .where(lt(crawlHosts.booked_until, new Date(Date.now() - IDLE_HOST_MS)));
+}
@@ -0,0 +1,475 @@
+import { parse, HTMLElement, NodeType, type Node } from 'node-html-parser';
+import type { CrawlResult, PageMetadata, PageSnapshot } from './crawler';
+import type { HeadingOutlineItem, HreflangAlternate } from '../schema/audits';
+
+const USER_AGENT = 'Content-Quality-Auditor/1.0';
+const FETCH_TIMEOUT_MS = 30000;
+
+// Elements that never contain main content
+const REMOVED_ELEMENTS =
+  'script, style, noscript, template, iframe, svg, canvas, form, button, select, nav, aside, dialog';
+// Site header/footer, kept when they belong to an article or the main element
+const PAGE_CHROME_ELEMENTS = 'header, footer';
+const REMOVED_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'search'];
+
+// Class/id heuristics in the spirit of Mozilla Readability
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|cookie|consent|disqus|footer|header|menu|modal|newsletter|popup|related|remark|share|shoutbox|sidebar|skip|social|sponsor|advert|pagination|pager/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_WEIGHT = /article|body|content|entry|hentry|main|page|post|text|blog|story|product|description/i;
+const NEGATIVE_WEIGHT =
+  /hidden|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|shoutbox|sidebar|sponsor|shopping|tags|tool|widget/i;
+
+// Minimum text length for <main>/<article> to be trusted without scoring
+const MIN_SEMANTIC_CONTENT_LENGTH = 200;
+
+// Placeholder for list indentation, so whitespace normalization does not strip it
+const INDENT = '\uE000\uE000';
+
+/**
+ * Crawl a URL by fetching its HTML directly and extracting the main content locally
+ * No third-party service involved, so this also works for intranet sites
+ */
+export async function crawlWithHtmlFetcher(url: string): Promise<CrawlResult> {
+  try {
+    const snapshot = await fetchPageSnapshot(url);
+    // Error pages are not extracted; the caller stores their status and fails the page
+    if (snapshot.metadata.httpStatus >= 400) {
+      return { title: '', content: '', snapshot };
+    }
+
+    const { title, content } = extractMainContent(snapshot.html, snapshot.metadata.finalUrl);
+
+    if (!content || content.trim().length === 0) {
+      throw new Error('No content extracted from page');
+    }
+
+    return { title, content, snapshot };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Crawling failed for ${url}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch the raw HTML of a page together with its structured metadata
+ * Error responses (status 400 and up) are returned too, with their status, final URL and headers
+ * but without HTML
+ */
+export async function fetchPageSnapshot(url: string): Promise<PageSnapshot> {
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'text/html,application/xhtml+xml',
+      'User-Agent': USER_AGENT,
+    },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  const finalUrl = response.url || url;
+  const responseHeaders: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    responseHeaders[key] = value;
+  });
+
+  if (response.status >= 400) {
+    await response.body?.cancel();
+    return {
+      html: '',
+      metadata: {
+        httpStatus: response.status,
+        finalUrl,
+        canonicalUrl: null,
+        metaDescription: null,
+        lang: null,
+        hreflang: [],
+        headings: [],
+        responseHeaders,
+      },
+    };
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !contentType.includes('html')) {
+    throw new Error(`Unsupported content type: ${contentType}`);
+  }
+
+  const html = await response.text();
+
+  return {
+    html,
+    metadata: {
+      ...extractPageMetadata(html, finalUrl),
+      httpStatus: response.status,
+      finalUrl,
+      responseHeaders,
+    },
+  };
+}
+
+/**
+ * Extract document-level metadata (canonical, description, language, hreflang, heading outline)
+ */
+export function extractPageMetadata(
+  html: string,
+  baseUrl: string
+): Omit<PageMetadata, 'httpStatus' | 'finalUrl' | 'responseHeaders'> {
+  const root = parse(html);
+
+  const canonicalHref = root.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  const metaDescription = root.querySelector('meta[name="description"]')?.getAttribute('content');
+  const lang = root.querySelector('html')?.getAttribute('lang');
+
+  const hreflang: HreflangAlternate[] = root
+    .querySelectorAll('link[rel="alternate"][hreflang]')
+    .flatMap((link) => {
+      const href = resolveUrl(link.getAttribute('href'), baseUrl);
+      const code = link.getAttribute('hreflang')?.trim();
+      return href && code ? [{ hreflang: code, href }] : [];
+    });
+
+  const headings: HeadingOutlineItem[] = (root.querySelector('body') || root)
+    .querySelectorAll('h1, h2, h3, h4, h5, h6')
+    .map((heading) => ({
+      level: Number(heading.tagName[1]),
+      text: collapseWhitespace(heading.text).trim(),
+    }))
+    .filter((heading) => heading.text.length > 0);
+
+  return {
+    canonicalUrl: resolveUrl(canonicalHref, baseUrl),
+    metaDescription: metaDescription ? collapseWhitespace(metaDescription).trim() || null : null,
+    lang: lang?.trim() || null,
+    hreflang,
+    headings,
+  };
+}
+
+/**
+ * Extract title and main content (as markdown) from an HTML document
+ */
+export function extractMainContent(html: string, baseUrl: string): CrawlResult {
+  const root = parse(html);
+  const title = extractTitle(root);
+
+  const body = root.querySelector('body') || root;
+  removeBoilerplate(body);
+
+  const contentRoot = findSemanticContentRoot(body) || findScoredContentRoot(body) || body;
+  const content = normalizeMarkdown(toMarkdown(contentRoot, baseUrl)).replace(/\uE000/g, ' ');
+
+  return { title, content };
+}
+
+function extractTitle(root: HTMLElement): string {
+  const ogTitle = root.querySelector('meta[property="og:title"]')?.getAttribute('content');
+  const documentTitle = root.querySelector('title')?.text;
+  const firstHeading = root.querySelector('h1')?.text;
+
+  const title = [ogTitle, documentTitle, firstHeading].find(
+    (candidate): candidate is string => typeof candidate === 'string' && candidate.trim().length > 0
+  );
+  return title ? collapseWhitespace(title).trim() : 'Untitled';
+}
+
+function removeBoilerplate(body: HTMLElement): void {
+  body.querySelectorAll(REMOVED_ELEMENTS).forEach((element) => element.remove());
+  body
+    .querySelectorAll(PAGE_CHROME_ELEMENTS)
+    .filter((element) => !element.closest('article, main'))
+    .forEach((element) => element.remove());
+
+  for (const element of body.querySelectorAll('*')) {
+    const role = element.getAttribute('role');
+    if (
+      element.hasAttribute('hidden') ||
+      element.getAttribute('aria-hidden') === 'true' ||
+      (role && REMOVED_ROLES.includes(role))
+    ) {
+      element.remove();
+      continue;
+    }
+
+    const tag = element.tagName;
+    if (tag === 'MAIN' || tag === 'ARTICLE' || tag === 'BODY') {
+      continue;
+    }
+
+    const matchString = `${element.classNames} ${element.id}`;
+    if (UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString)) {
+      element.remove();
+    }
+  }
+}
+
+/**
+ * Prefer <main>, role="main" or the largest <article> when they hold enough text
+ */
+function findSemanticContentRoot(body: HTMLElement): HTMLElement | null {
+  const candidates = body.querySelectorAll('main, [role="main"], article');
+  let best: HTMLElement | null = null;
+  let bestLength = 0;
+
+  for (const candidate of candidates) {
+    const length = collapseWhitespace(candidate.text).trim().length;
+    if (length > bestLength) {
+      best = candidate;
+      bestLength = length;
+    }
+  }
+
+  return bestLength >= MIN_SEMANTIC_CONTENT_LENGTH ? best : null;
+}
+
+/**
+ * Readability-style scoring: paragraphs award points to their parent and grandparent,
+ * the best-scoring container (penalized by link density) holds the main content
+ */
+function findScoredContentRoot(body: HTMLElement): HTMLElement | null {
+  const scores = new Map<HTMLElement, number>();
+
+  const initializeScore = (element: HTMLElement): number => {
+    let score = getClassWeight(element);
+    switch (element.tagName) {
+      case 'DIV':
+        score += 5;
+        break;
+      case 'PRE':
+      case 'TD':
+      case 'BLOCKQUOTE':
+        score += 3;
+        break;
+      case 'UL':
+      case 'OL':
+      case 'DL':
+        score -= 3;
+        break;
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6':
+      case 'TH':
+        score -= 5;
+        break;
+    }
+    return score;
+  };
+
+  for (const paragraph of body.querySelectorAll('p, pre, td, li')) {
+    const text = collapseWhitespace(paragraph.text).trim();
+    if (text.length < 25) {
+      continue;
+    }
+
+    const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const ancestors = [paragraph.parentNode, paragraph.parentNode?.parentNode];
+
+    ancestors.forEach((ancestor, level) => {
+      if (!ancestor || !(ancestor instanceof HTMLElement) || !ancestor.tagName) {
+        return;
+      }
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initializeScore(ancestor));
+      }
+      scores.set(ancestor, scores.get(ancestor)! + (level === 0 ? contentScore : contentScore / 2));
+    });
+  }
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - getLinkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  return best;
+}
+
+function getClassWeight(element: HTMLElement): number {
+  let weight = 0;
+  for (const value of [element.classNames, element.id]) {
+    if (!value) continue;
+    if (NEGATIVE_WEIGHT.test(value)) weight -= 25;
+    if (POSITIVE_WEIGHT.test(value)) weight += 25;
+  }
+  return weight;
+}
+
+function getLinkDensity(element: HTMLElement): number {
+  const textLength = collapseWhitespace(element.text).trim().length;
+  if (textLength === 0) {
+    return 0;
+  }
+  const linkLength = element
+    .querySelectorAll('a')
+    .reduce((sum, link) => sum + collapseWhitespace(link.text).trim().length, 0);
+  return linkLength / textLength;
+}
+
+function toMarkdown(node: Node, baseUrl: string): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return collapseWhitespace(node.text);
+  }
+  if (node.nodeType !== NodeType.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as HTMLElement;
+  const children = () => element.childNodes.map((child) => toMarkdown(child, baseUrl)).join('');
+  const block = (text: string) => `\n\n${text.trim()}\n\n`;
+
+  switch (element.tagName) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const text = children().replace(/\s+/g, ' ').trim();
+      return text ? block(`${'#'.repeat(Number(element.tagName[1]))} ${text}`) : '';
+    }
+    case 'P':
+    case 'DIV':
+    case 'SECTION':
+    case 'ARTICLE':
+    case 'MAIN':
+    case 'FIGURE':
+    case 'FIGCAPTION':
+    case 'DL':
+    case 'DT':
+    case 'DD':
+    case 'ADDRESS':
+      return block(children());
+    case 'BR':
+      return '\n';
+    case 'HR':
+      return block('---');
+    case 'STRONG':
+    case 'B':
+      return wrapInline(children(), '**');
+    case 'EM':
+    case 'I':
+      return wrapInline(children(), '_');
+    case 'CODE':
+      return element.text.trim() ? `\`${element.text.trim()}\`` : '';
+    case 'PRE':
+      return block(`\`\`\`\n${element.text.replace(/\n+$/, '')}\n\`\`\``);
+    case 'A': {
+      const text = children().trim();
+      const href = resolveUrl(element.getAttribute('href'), baseUrl);
+      return text && href ? `[${text}](${href})` : text;
+    }
+    case 'IMG': {
+      const alt = element.getAttribute('alt')?.trim();
+      const src = resolveUrl(element.getAttribute('src'), baseUrl);
+      return alt && src ? `![${alt}](${src})` : '';
+    }
+    case 'UL':
+    case 'OL':
+      return block(listToMarkdown(element, baseUrl));
+    case 'BLOCKQUOTE':
+      return block(
+        normalizeMarkdown(children())
+          .split('\n')
+          .map((line) => `> ${line}`)
+          .join('\n')
+      );
+    case 'TABLE':
+      return block(tableToMarkdown(element, baseUrl));
+    default:
+      return children();
+  }
+}
+
+/**
+ * Wrap inline text in a markdown marker, keeping surrounding whitespace outside
+ */
+function wrapInline(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  const leading = /^\s/.test(text) ? ' ' : '';
+  const trailing = /\s$/.test(text) ? ' ' : '';
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function listToMarkdown(list: HTMLElement, baseUrl: string): string {
+  const ordered = list.tagName === 'OL';
+  const items = list.childNodes.filter(
+    (child): child is HTMLElement => child instanceof HTMLElement && child.tagName === 'LI'
+  );
+
+  return items
+    .map((item, index) => {
+      const marker = ordered ? `${index + 1}.` : '-';
+      const lines = normalizeMarkdown(toMarkdown(item, baseUrl))
+        .split('\n')
+        .filter((line) => line.trim().length > 0);
+      if (lines.length === 0) {
+        return '';
+      }
+      return [`${marker} ${lines[0]}`, ...lines.slice(1).map((line) => `${INDENT}${line}`)].join('\n');
+    })
+    .filter((item) => item.length > 0)
+    .join('\n');
+}
+
+function tableToMarkdown(table: HTMLElement, baseUrl: string): string {
+  const rows = table
+    .querySelectorAll('tr')
+    .map((row) =>
+      row
+        .querySelectorAll('th, td')
+        .map((cell) => toMarkdown(cell, baseUrl).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim())
+    )
+    .filter((cells) => cells.some((cell) => cell.length > 0));
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+
+  return [
+    formatRow(rows[0]),
+    `| ${Array.from({ length: columns }, () => '---').join(' | ')} |`,
+    ...rows.slice(1).map(formatRow),
+  ].join('\n');
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | null {
+  if (!href || href.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(href)) {
+    return null;
+  }
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+/**
+ * Trim every line and collapse runs of blank lines
+ */
+function normalizeMarkdown(markdown: string): string {
+  return markdown
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
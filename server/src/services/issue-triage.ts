@@ -0,0 +1,210 @@
+/**
+ * Triage of audit issues by editors (status, assignee, comment)
+ * Issues marked as false positive are remembered per URL and dropped when later audits of the same
+ * owner find them again
+ */
+
+import { getDatabase, isUuid } from '../lib/db';
+import { audits, auditIssues, auditPages, issueSuppressions, type AuditIssue } from '../schema/audits';
+import { users } from '../schema/users';
+import { eq, and, inArray } from 'drizzle-orm';
+
+export type IssueStatus = 'open' | 'accepted' | 'false_positive' | 'fixed' | 'wont_fix';
+
+export const ISSUE_STATUSES: IssueStatus[] = ['open', 'accepted', 'false_positive', 'fixed', 'wont_fix'];
+
+export interface TriageInput {
+  status?: IssueStatus;
+  assigneeId?: string | null;
+  comment?: string | null;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_BULK_ISSUES = 500;
+
+export function isIssueStatus(value: unknown): value is IssueStatus {
+  return typeof value === 'string' && (ISSUE_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Validate a triage update from a request body (snake_case keys, any subset)
+ * Throws an Error with a user-facing message if invalid
+ */
+export function validateTriageInput(input: unknown): TriageInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Request body must be an object');
+  }
+
+  const { status, assignee_id, comment } = input as Record<string, unknown>;
+  const triage: TriageInput = {};
+
+  if (status !== undefined) {
+    if (!isIssueStatus(status)) {
+      throw new Error(`status must be one of: ${ISSUE_STATUSES.join(', ')}`);
+    }
+    triage.status = status;
+  }
+  if (assignee_id !== undefined) {
+    if (assignee_id !== null && (typeof assignee_id !== 'string' || !assignee_id)) {
+      throw new Error('assignee_id must be a user id or null');
+    }
+    triage.assigneeId = assignee_id;
+  }
+  if (comment !== undefined) {
+    if (comment !== null && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+      throw new Error(`comment must be a string of at most ${MAX_COMMENT_LENGTH} characters or null`);
+    }
+    triage.comment = comment?.trim() || null;
+  }
+
+  if (Object.keys(triage).length === 0) {
+    throw new Error('Nothing to update: send status, assignee_id or comment');
+  }
+
+  return triage;
+}
+
+/**
+ * Validate the issue ids of a bulk update
+ * Throws an Error with a user-facing message if invalid
+ */
+export function validateIssueIds(issueIds: unknown): string[] {
+  if (
+    !Array.isArray(issueIds) ||
+    issueIds.length === 0 ||
+    issueIds.length > MAX_BULK_ISSUES ||
+    issueIds.some((id) => typeof id !== 'string' || !isUuid(id))
+  ) {
+    throw new Error(`issue_ids must be an array of 1 to ${MAX_BULK_ISSUES} issue ids`);
+  }
+  return Array.from(new Set(issueIds as string[]));
+}
+
+/**
+ * Update the triage fields of issues of an audit
+ * Returns null if one of the issues does not belong to the audit (nothing is changed then)
+ * Throws an Error with a user-facing message if the assignee does not exist
+ */
+export async function triageIssues(
+  auditId: string,
+  issueIds: string[],
+  input: TriageInput,
+  userId?: string | null
+): Promise<AuditIssue[] | null> {
+  if (!isUuid(auditId) || issueIds.some((id) => !isUuid(id))) {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const issues = await db
+    .select({
+      id: auditIssues.id,
+      url: auditPages.url,
+      issue_type: auditIssues.issue_type,
+      snippet: auditIssues.snippet,
+      status: auditIssues.status,
+    })
+    .from(auditIssues)
+    .innerJoin(auditPages, eq(auditPages.id, auditIssues.page_id))
+    .where(and(eq(auditPages.audit_id, auditId), inArray(auditIssues.id, issueIds)));
+
+  if (issues.length !== issueIds.length) {
+    return null;
+  }
+
+  if (input.assigneeId) {
+    const assignee = await db.select({ id: users.id }).from(users).where(eq(users.id, input.assigneeId)).limit(1);
+    if (assignee.length === 0) {
+      throw new Error(`Unknown assignee_id: ${input.assigneeId}`);
+    }
+  }
+
+  const [audit] = await db.select({ user_id: audits.user_id }).from(audits).where(eq(audits.id, auditId));
+  const ownerId = audit?.user_id;
+
+  const updated = await db
+    .update(auditIssues)
+    .set({
+      ...(input.status !== undefined && { status: input.status }),
+      ...(input.assigneeId !== undefined && { assignee_id: input.assigneeId }),
+      ...(input.comment !== undefined && { comment: input.comment }),
+      triaged_by: userId ?? null,
+      triaged_at: new Date(),
+    })
+    .where(inArray(auditIssues.id, issueIds))
+    .returning();
+
+  // Remember false positives for the audit's owner, forget them again when an issue is reopened or
+  // triaged otherwise (audits without an owner have nobody to remember them for)
+  if (!ownerId) {
+    return updated;
+  }
+  if (input.status === 'false_positive') {
+    await db
+      .insert(issueSuppressions)
+      .values(
+        issues.map((issue) => ({
+          owner_id: ownerId,
+          url: issue.url,
+          issue_type: issue.issue_type,
+          snippet_key: snippetKey(issue.snippet),
+          snippet: issue.snippet,
+          created_by: userId ?? null,
+        }))
+      )
+      .onConflictDoNothing();
+  } else if (input.status !== undefined) {
+    for (const issue of issues.filter((issue) => issue.status === 'false_positive')) {
+      await db
+        .delete(issueSuppressions)
+        .where(
+          and(
+            eq(issueSuppressions.owner_id, ownerId),
+            eq(issueSuppressions.url, issue.url),
+            eq(issueSuppressions.issue_type, issue.issue_type),
+            eq(issueSuppressions.snippet_key, snippetKey(issue.snippet))
+          )
+        );
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Drop findings the owner of an audit marked as false positive for the same URL before
+ */
+export async function dropSuppressedIssues<T extends { issue_type: string; snippet: string }>(
+  ownerId: string | null | undefined,
+  issues: T[],
+  urlOf: (issue: T) => string
+): Promise<T[]> {
+  if (issues.length === 0 || !ownerId) {
+    return issues;
+  }
+
+  const db = await getDatabase();
+  const urls = Array.from(new Set(issues.map(urlOf)));
+  const suppressions = await db
+    .select({
+      url: issueSuppressions.url,
+      issue_type: issueSuppressions.issue_type,
+      snippet_key: issueSuppressions.snippet_key,
+    })
+    .from(issueSuppressions)
+    .where(and(eq(issueSuppressions.owner_id, ownerId), inArray(issueSuppressions.url, urls)));
+
+  if (suppressions.length === 0) {
+    return issues;
+  }
+
+  const suppressed = new Set(suppressions.map((s) => `${s.url}\n${s.issue_type}\n${s.snippet_key}`));
+  return issues.filter((issue) => !suppressed.has(`${urlOf(issue)}\n${issue.issue_type}\n${snippetKey(issue.snippet)}`));
+}
+
+/**
+ * Key an issue's snippet is recognized by across audits (ignores case and whitespace differences)
+ */
+export function snippetKey(snippet: string): string {
+  return snippet.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -1,4 +1,5 @@
 import { getEnv } from '../lib/env';
+import type { CrawlResult } from './crawler';
 
 interface JinaResponse {
   title?: string;
@@ -11,7 +12,7 @@ interface JinaResponse {
  * Crawl a URL using Jina Reader API
  * Returns extracted title and content (main content without navigation/footer)
  */
-export async function crawlUrl(url: string): Promise<{ title: string; content: string }> {
+export async function crawlWithJina(url: string): Promise<CrawlResult> {
   try {
     const jinaApiKey = getEnv('JINA_API_KEY');
     // Jina Reader API expects the URL directly without encoding
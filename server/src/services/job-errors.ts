@@ -0,0 +1,51 @@
+/**
+ * Classification of job errors into retryable and permanent ones
+ * Crawlers and AI providers report errors as messages (wrapped by the services), so the
+ * classification works on the HTTP status and known phrases in the message
+ */
+
+// Client errors worth retrying (timeout, too early, rate limit), server errors always are
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 425, 429]);
+
+// "HTTP error (404)" / "Jina API error (429)" from the crawlers, "429 Rate limit…" from the AI SDKs
+const STATUS_PATTERNS = [/\((\d{3})\)/, /(?:^|: )(\d{3})\b/];
+
+const RETRYABLE_PATTERN =
+  /timeout|timed out|connection error|fetch failed|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|overloaded/i;
+
+// Failures that repeat on every attempt
+const PERMANENT_PATTERN =
+  /no content extracted|unsupported content type|failed to parse|does not match|not found|no content to analyze|is not set|refused|cut off|invalid url/i;
+
+function getStatus(error: unknown, message: string): number | null {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status;
+  }
+
+  for (const pattern of STATUS_PATTERNS) {
+    const match = message.match(pattern);
+    if (match) {
+      const code = parseInt(match[1], 10);
+      if (code >= 400 && code < 600) return code;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether retrying the job might succeed
+ * Unknown errors are retried, as they were before errors were classified
+ */
+export function isRetryableError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+
+  const status = getStatus(error, message);
+  if (status !== null) {
+    return RETRYABLE_CLIENT_STATUSES.has(status) || status >= 500;
+  }
+  if (RETRYABLE_PATTERN.test(message)) {
+    return true;
+  }
+  return !PERMANENT_PATTERN.test(message);
+}
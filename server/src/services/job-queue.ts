@@ -1,88 +1,263 @@
 import { getDatabase } from '../lib/db';
-import { jobQueue, type NewJobQueue, type JobQueue as JobQueueType } from '../schema/audits';
-import { eq, and, lte, or, isNull } from 'drizzle-orm';
+import { getEnv } from '../lib/env';
+import { jobQueue, audits, crawlHosts, type NewJobQueue, type JobQueue as JobQueueType } from '../schema/audits';
+import { eq, and, lt, lte, gt, gte, or, isNull, inArray, notInArray, asc, desc, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { isRetryableError } from './job-errors';
+import { getCrawlHost, pruneIdleCrawlHosts } from './host-rate-limiter';
 
-export type JobType = 'crawl_page' | 'analyze_page';
+export type JobType = 'crawl_page' | 'analyze_page' | 'analyze_audit' | 'schedule_audit';
 export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
 interface JobPayload {
   [key: string]: any;
 }
 
+/**
+ * Returned by a job handler to put the job back until the given time
+ * (e.g. a crawl waiting for its host's rate limit); does not count as an attempt
+ */
+export interface DeferJob {
+  defer_until: Date;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Jobs of these audits are not picked up (paused ones wait in the queue until resumed)
+export const STOPPED_AUDIT_STATUSES: ('paused' | 'cancelled')[] = ['paused', 'cancelled'];
+
+// A claimed job belongs to its worker until the lease expires; running jobs renew it
+const LEASE_DURATION_MS = 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+// Retries wait 30s, 1min, 2min, ... (plus up to 20% jitter), at most an hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+const DEAD_JOBS_LIMIT = 100;
+
+// Short bookkeeping jobs go ahead of page jobs; an audit's priority is added on top
+const JOB_TYPE_PRIORITIES: Partial<Record<JobType, number>> = {
+  analyze_audit: 1,
+  schedule_audit: 1,
+};
+
+// Audits and users that were served within this window wait behind the others
+const FAIRNESS_WINDOW_MS = 60 * 1000;
+
+// Audits tried per claim; the later ones are only reached when workers race for the last jobs of the first
+const CLAIM_CANDIDATE_AUDITS = 5;
+
+// Throughput for queue ETAs is measured over this window
+const THROUGHPUT_WINDOW_MS = 10 * 60 * 1000;
+
+export interface QueueStatus {
+  queued_jobs: number; // Pending jobs of the audit
+  running_jobs: number;
+  position: number | null; // 1 = served next, null = no jobs waiting (only running ones)
+  audits_in_queue: number;
+  jobs_per_minute: number; // Throughput of all workers over the last 10 minutes
+  eta_seconds: number | null; // null while nothing has been processed recently
+}
+
 /**
  * Add a job to the queue
+ * Jobs with runAfter are not picked up before that time
+ * A payload audit_id links the job to its audit, so it follows pause/cancel and is deleted with it
+ * Crawl jobs remember their host, so they are not claimed while the host has no free slot
+ * Returns the job ID, or null if the job's audit has been cancelled (nothing is queued then)
  */
 export async function enqueueJob(
   jobType: JobType,
-  payload: JobPayload
-): Promise<string> {
+  payload: JobPayload,
+  runAfter?: Date
+): Promise<string | null> {
   const db = await getDatabase();
 
   const newJob: NewJobQueue = {
     job_type: jobType,
+    audit_id: typeof payload.audit_id === 'string' ? payload.audit_id : null,
+    host: jobType === 'crawl_page' && typeof payload.url === 'string' ? getCrawlHost(payload.url) : null,
+    priority: JOB_TYPE_PRIORITIES[jobType] ?? 0,
     payload: payload as any,
     status: 'pending',
     attempts: 0,
     max_attempts: 3,
+    run_after: runAfter ?? null,
   };
 
   const result = await db.insert(jobQueue).values(newJob).returning({ id: jobQueue.id });
+  if (await dropJobOfCancelledAudit(result[0].id)) {
+    return null;
+  }
   return result[0].id;
 }
 
 /**
- * Get the next pending job from the queue
- * Uses pessimistic locking with locked_until timestamp
+ * Delete a job that was just put into the queue if its audit has been cancelled
+ * cancelAudit marks the audit before deleting its pending jobs, so checking after the write
+ * catches every job (e.g. of a crawl still running, or a retry) that this delete missed
+ * Returns true if the job was deleted
  */
-export async function getNextJob(): Promise<JobQueueType | null> {
+async function dropJobOfCancelledAudit(jobId: string): Promise<boolean> {
   const db = await getDatabase();
-  const now = new Date();
-  const lockDuration = 5 * 60 * 1000; // 5 minutes lock
+  const cancelledAuditIds = db
+    .select({ id: audits.id })
+    .from(audits)
+    .where(eq(audits.status, 'cancelled'));
 
-  // Find a job that is pending and not locked (or lock expired)
-  const jobs = await db
-    .select()
-    .from(jobQueue)
+  const dropped = await db
+    .delete(jobQueue)
     .where(
       and(
+        eq(jobQueue.id, jobId),
         eq(jobQueue.status, 'pending'),
-        or(
-          isNull(jobQueue.locked_until),
-          lte(jobQueue.locked_until, now)
-        )
+        inArray(jobQueue.audit_id, cancelledAuditIds)
       )
     )
-    .limit(1);
+    .returning();
+  return dropped.length > 0;
+}
 
-  if (jobs.length === 0) {
-    return null;
+/**
+ * Claim the next due job for a worker, skipping jobs not due yet
+ * Locking happens with FOR UPDATE SKIP LOCKED, so concurrent workers and server instances
+ * never claim the same job. Jobs left in processing by a crashed worker are reclaimed once
+ * their lease has expired. Jobs of paused or cancelled audits and crawls of busy hosts are skipped.
+ *
+ * Order: highest priority (job plus audit) first; within a priority the user and then the
+ * audit with the fewest jobs claimed recently (round-robin, so a large audit cannot starve
+ * small ones); oldest job last. The audit is picked first, then its next job is locked.
+ */
+export async function getNextJob(workerId: string): Promise<JobQueueType | null> {
+  const db = await getDatabase();
+  const now = new Date();
+
+  const stoppedAuditIds = db
+    .select({ id: audits.id })
+    .from(audits)
+    .where(inArray(audits.status, STOPPED_AUDIT_STATUSES));
+
+  // Hosts whose rate limit has no free slot yet (see host-rate-limiter)
+  const busyHosts = db
+    .select({ host: crawlHosts.host })
+    .from(crawlHosts)
+    .where(gt(crawlHosts.next_slot_at, now));
+
+  const isDue = and(
+    or(
+      and(
+        eq(jobQueue.status, 'pending'),
+        or(isNull(jobQueue.locked_until), lte(jobQueue.locked_until, now))
+      ),
+      and(
+        eq(jobQueue.status, 'processing'),
+        lte(jobQueue.locked_until, now),
+        lt(jobQueue.attempts, jobQueue.max_attempts)
+      )
+    ),
+    or(isNull(jobQueue.run_after), lte(jobQueue.run_after, now)),
+    or(isNull(jobQueue.audit_id), notInArray(jobQueue.audit_id, stoppedAuditIds)),
+    or(isNull(jobQueue.host), notInArray(jobQueue.host, busyHosts))
+  );
+
+  // Jobs claimed recently or still running, counted once per audit and per user
+  const recentJobs = alias(jobQueue, 'recent_jobs');
+  const recentAudits = alias(audits, 'recent_audits');
+  const isRecent = or(
+    gt(recentJobs.claimed_at, new Date(now.getTime() - FAIRNESS_WINDOW_MS)),
+    eq(recentJobs.status, 'processing')
+  );
+  const recentByAudit = db
+    .select({ audit_id: recentJobs.audit_id, claims: sql<number>`count(*)`.as('audit_claims') })
+    .from(recentJobs)
+    .where(isRecent)
+    .groupBy(recentJobs.audit_id)
+    .as('recent_by_audit');
+  const recentByUser = db
+    .select({ user_id: recentAudits.user_id, claims: sql<number>`count(*)`.as('user_claims') })
+    .from(recentJobs)
+    .innerJoin(recentAudits, eq(recentAudits.id, recentJobs.audit_id))
+    .where(isRecent)
+    .groupBy(recentAudits.user_id)
+    .as('recent_by_user');
+
+  // Audits with due jobs in serving order (jobs without an audit form one group)
+  const candidates = await db
+    .select({ audit_id: jobQueue.audit_id })
+    .from(jobQueue)
+    .leftJoin(audits, eq(audits.id, jobQueue.audit_id))
+    .leftJoin(recentByAudit, eq(recentByAudit.audit_id, jobQueue.audit_id))
+    .leftJoin(recentByUser, eq(recentByUser.user_id, audits.user_id))
+    .where(isDue)
+    .groupBy(jobQueue.audit_id)
+    .orderBy(
+      desc(sql`max(${jobQueue.priority} + coalesce(${audits.priority}, 0))`),
+      asc(sql`coalesce(max(${recentByUser.claims}), 0)`),
+      asc(sql`coalesce(max(${recentByAudit.claims}), 0)`),
+      asc(sql`min(${jobQueue.created_at})`)
+    )
+    .limit(CLAIM_CANDIDATE_AUDITS);
+
+  for (const candidate of candidates) {
+    const nextJobId = db
+      .select({ id: jobQueue.id })
+      .from(jobQueue)
+      .where(
+        and(
+          isDue,
+          candidate.audit_id ? eq(jobQueue.audit_id, candidate.audit_id) : isNull(jobQueue.audit_id)
+        )
+      )
+      .orderBy(desc(jobQueue.priority), asc(jobQueue.created_at))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const claimed = await db
+      .update(jobQueue)
+      .set({
+        status: 'processing',
+        locked_until: new Date(now.getTime() + LEASE_DURATION_MS),
+        locked_by: workerId,
+        claimed_at: now,
+        attempts: sql`${jobQueue.attempts} + 1`,
+      })
+      .where(inArray(jobQueue.id, nextJobId))
+      .returning();
+
+    if (claimed.length > 0) {
+      return claimed[0];
+    }
   }
 
-  const job = jobs[0];
+  return null;
+}
 
-  // Lock the job
-  const lockedUntil = new Date(now.getTime() + lockDuration);
-  await db
-    .update(jobQueue)
-    .set({
-      status: 'processing',
-      locked_until: lockedUntil,
-      attempts: job.attempts + 1,
-    })
-    .where(eq(jobQueue.id, job.id));
+/**
+ * Only the worker holding the lease may change a claimed job
+ * (after its lease expired, the job may already belong to another worker)
+ */
+const heldBy = (jobId: string, workerId?: string) =>
+  and(eq(jobQueue.id, jobId), workerId ? eq(jobQueue.locked_by, workerId) : undefined);
 
-  return {
-    ...job,
-    status: 'processing',
-    locked_until: lockedUntil,
-    attempts: job.attempts + 1,
-  };
+/**
+ * Extend the lease of a running job
+ * Returns false if the worker no longer holds it
+ */
+async function renewLease(jobId: string, workerId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const renewed = await db
+    .update(jobQueue)
+    .set({ locked_until: new Date(Date.now() + LEASE_DURATION_MS) })
+    .where(and(heldBy(jobId, workerId), eq(jobQueue.status, 'processing')))
+    .returning();
+  return renewed.length > 0;
 }
 
 /**
  * Mark a job as completed
  */
-export async function completeJob(jobId: string): Promise<void> {
+export async function completeJob(jobId: string, workerId?: string): Promise<void> {
   const db = await getDatabase();
   await db
     .update(jobQueue)
@@ -91,79 +266,307 @@ export async function completeJob(jobId: string): Promise<void> {
       processed_at: new Date(),
       locked_until: null,
     })
-    .where(eq(jobQueue.id, jobId));
+    .where(heldBy(jobId, workerId));
+}
+
+/**
+ * Whether a failed job will be attempted again
+ * Permanent errors (e.g. 404, unparseable responses) and the last attempt are final
+ */
+export function willRetryJob(job: JobQueueType, error: unknown): boolean {
+  return job.attempts < job.max_attempts && isRetryableError(error);
+}
+
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (1 + Math.random() * 0.2));
 }
 
 /**
  * Mark a job as failed
- * If max attempts reached, mark as failed permanently
+ * Retryable errors put it back with exponential backoff, otherwise it fails for good (dead job)
  */
-export async function failJob(jobId: string, error?: string): Promise<void> {
+export async function failJob(job: JobQueueType, error: unknown, workerId?: string): Promise<void> {
   const db = await getDatabase();
-  const job = await db.select().from(jobQueue).where(eq(jobQueue.id, jobId)).limit(1);
+  const lastError = error instanceof Error ? error.message : String(error);
 
-  if (job.length === 0) {
+  if (willRetryJob(job, error)) {
+    await db
+      .update(jobQueue)
+      .set({
+        status: 'pending',
+        locked_until: null,
+        locked_by: null,
+        run_after: new Date(Date.now() + getRetryDelay(job.attempts)),
+        last_error: lastError,
+      })
+      .where(heldBy(job.id, workerId));
+    if (job.audit_id) {
+      await dropJobOfCancelledAudit(job.id);
+    }
     return;
   }
 
-  const currentJob = job[0];
-  const hasReachedMaxAttempts = currentJob.attempts >= currentJob.max_attempts;
+  await db
+    .update(jobQueue)
+    .set({
+      status: 'failed',
+      processed_at: new Date(),
+      locked_until: null,
+      last_error: lastError,
+    })
+    .where(heldBy(job.id, workerId));
+}
 
+/**
+ * Put a job back into the queue until the given time without counting the attempt
+ */
+export async function deferJob(job: JobQueueType, runAfter: Date, workerId?: string): Promise<void> {
+  const db = await getDatabase();
   await db
     .update(jobQueue)
     .set({
-      status: hasReachedMaxAttempts ? 'failed' : 'pending',
-      processed_at: hasReachedMaxAttempts ? new Date() : null,
+      status: 'pending',
       locked_until: null,
-      // Store error in payload if needed
-      payload: error
-        ? { ...(currentJob.payload as object), error }
-        : currentJob.payload,
+      locked_by: null,
+      run_after: runAfter,
+      attempts: Math.max(0, job.attempts - 1),
     })
-    .where(eq(jobQueue.id, jobId));
+    .where(heldBy(job.id, workerId));
+  if (job.audit_id) {
+    await dropJobOfCancelledAudit(job.id);
+  }
 }
 
+// Error recorded on jobs whose worker stopped renewing the lease on the last attempt
+export const LEASE_EXPIRED_ERROR = 'Lease expired, the worker stopped responding';
+
 /**
- * Process jobs continuously (worker loop)
- * Should be called when the server starts
+ * Fail jobs whose lease expired on their last attempt (the worker crashed every time)
+ * Jobs with attempts left are reclaimed by getNextJob instead
+ * Returns the failed jobs
+ */
+export async function failExpiredJobs(): Promise<JobQueueType[]> {
+  const db = await getDatabase();
+  const failed = await db
+    .update(jobQueue)
+    .set({
+      status: 'failed',
+      processed_at: new Date(),
+      locked_until: null,
+      last_error: LEASE_EXPIRED_ERROR,
+    })
+    .where(
+      and(
+        eq(jobQueue.status, 'processing'),
+        lte(jobQueue.locked_until, new Date()),
+        gte(jobQueue.attempts, jobQueue.max_attempts)
+      )
+    )
+    .returning();
+  return failed;
+}
+
+/**
+ * Jobs that failed for good, most recent first
+ */
+export async function getDeadJobs(): Promise<JobQueueType[]> {
+  const db = await getDatabase();
+  return db
+    .select()
+    .from(jobQueue)
+    .where(eq(jobQueue.status, 'failed'))
+    .orderBy(desc(jobQueue.processed_at))
+    .limit(DEAD_JOBS_LIMIT);
+}
+
+/**
+ * Put a dead job back into the queue with fresh attempts
+ * Returns the job, or null if there is no failed job with this ID or its audit has been cancelled
+ */
+export async function retryDeadJob(jobId: string): Promise<JobQueueType | null> {
+  const db = await getDatabase();
+  const [job] = await db
+    .update(jobQueue)
+    .set({
+      status: 'pending',
+      attempts: 0,
+      processed_at: null,
+      locked_until: null,
+      locked_by: null,
+      run_after: null,
+    })
+    .where(and(eq(jobQueue.id, jobId), eq(jobQueue.status, 'failed')))
+    .returning();
+  if (job?.audit_id && (await dropJobOfCancelledAudit(job.id))) {
+    return null;
+  }
+  return job ?? null;
+}
+
+/**
+ * Where an audit stands in the queue, with an estimate of when its queued jobs are done
+ * Returns null if the audit has no queued or running jobs
+ */
+export async function getAuditQueueStatus(auditId: string): Promise<QueueStatus | null> {
+  const db = await getDatabase();
+
+  // Pending jobs per waiting audit, with the age of its oldest one
+  const waiting = await db
+    .select({
+      audit_id: jobQueue.audit_id,
+      priority: audits.priority,
+      jobs: sql<number>`count(*)`,
+      oldest: sql<number>`extract(epoch from min(${jobQueue.created_at}))`,
+    })
+    .from(jobQueue)
+    .innerJoin(audits, eq(audits.id, jobQueue.audit_id))
+    .where(and(eq(jobQueue.status, 'pending'), notInArray(audits.status, STOPPED_AUDIT_STATUSES)))
+    .groupBy(jobQueue.audit_id, audits.priority);
+
+  const [running] = await db
+    .select({ jobs: sql<number>`count(*)` })
+    .from(jobQueue)
+    .where(and(eq(jobQueue.audit_id, auditId), eq(jobQueue.status, 'processing')));
+
+  const own = waiting.find((row) => row.audit_id === auditId);
+  const runningJobs = Number(running?.jobs ?? 0);
+  if (!own && runningJobs === 0) {
+    return null;
+  }
+
+  const [throughput] = await db
+    .select({ jobs: sql<number>`count(*)` })
+    .from(jobQueue)
+    .where(
+      and(
+        eq(jobQueue.status, 'completed'),
+        gt(jobQueue.processed_at, new Date(Date.now() - THROUGHPUT_WINDOW_MS))
+      )
+    );
+  const jobsPerMinute = Number(throughput?.jobs ?? 0) / (THROUGHPUT_WINDOW_MS / 60000);
+
+  const priority = own?.priority ?? 0;
+  const queuedJobs = Number(own?.jobs ?? 0);
+  const ownJobs = queuedJobs + runningJobs;
+  const others = waiting.filter((row) => row.audit_id !== auditId);
+  const higher = others.filter((row) => row.priority > priority);
+  const equal = others.filter((row) => row.priority === priority);
+
+  // Higher priorities go first; equal ones take turns, so each delays this audit by at most its own jobs
+  const remaining =
+    higher.reduce((sum, row) => sum + Number(row.jobs), 0) +
+    equal.reduce((sum, row) => sum + Math.min(Number(row.jobs), ownJobs), 0) +
+    ownJobs;
+
+  // Among equal priorities, the audit waiting longest is served first
+  const position = own
+    ? higher.length + equal.filter((row) => Number(row.oldest) < Number(own.oldest)).length + 1
+    : null;
+
+  return {
+    queued_jobs: queuedJobs,
+    running_jobs: runningJobs,
+    position,
+    audits_in_queue: waiting.length,
+    jobs_per_minute: Math.round(jobsPerMinute * 10) / 10,
+    eta_seconds: jobsPerMinute > 0 ? Math.round((remaining / jobsPerMinute) * 60) : null,
+  };
+}
+
+/**
+ * Number of jobs processed at the same time (JOB_CONCURRENCY, default 4)
+ */
+function getConcurrency(): number {
+  return parseInt(getEnv('JOB_CONCURRENCY', '') || '') || DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Name of this server instance in worker IDs (WORKER_ID, default a random ID)
+ */
+function getInstanceId(): string {
+  return getEnv('WORKER_ID') || crypto.randomUUID().slice(0, 8);
+}
+
+/**
+ * Process jobs continuously with a pool of workers
+ * Should be called when the server starts, may run in several server instances at once
+ * handleExpiredJob is called for jobs failed by failExpiredJobs, whose handler never finished
  */
 export async function startJobProcessor(
-  processJob: (job: JobQueueType) => Promise<void>
+  processJob: (job: JobQueueType) => Promise<void | DeferJob>,
+  handleExpiredJob?: (job: JobQueueType) => Promise<void>
 ): Promise<void> {
-  console.log('🚀 Starting job processor...');
+  const concurrency = getConcurrency();
+  const instanceId = getInstanceId();
+  console.log(`🚀 Starting job processor ${instanceId} with ${concurrency} workers...`);
 
-  const processNext = async () => {
+  const processNext = async (workerId: string) => {
     try {
-      const job = await getNextJob();
+      const job = await getNextJob(workerId);
       if (!job) {
         // No jobs available, wait before checking again
-        setTimeout(processNext, 2000); // Check every 2 seconds
+        setTimeout(() => processNext(workerId), 2000); // Check every 2 seconds
         return;
       }
 
-      console.log(`📦 Processing job ${job.id} (${job.job_type})`);
+      if (job.attempts > 1) {
+        console.log(`🔁 ${workerId} retrying job ${job.id} (${job.job_type}, attempt ${job.attempts})`);
+      }
+
+      // Keep the lease while the job runs, however long it takes
+      const heartbeat = setInterval(() => {
+        renewLease(job.id, workerId)
+          .then((renewed) => {
+            if (!renewed) {
+              console.warn(`⚠️ ${workerId} lost the lease on job ${job.id}`);
+            }
+          })
+          .catch((error) => console.error(`❌ Heartbeat for job ${job.id} failed:`, error));
+      }, HEARTBEAT_INTERVAL_MS);
+
       try {
-        await processJob(job);
-        await completeJob(job.id);
-        console.log(`✅ Completed job ${job.id}`);
+        const result = await processJob(job);
+        if (result) {
+          await deferJob(job, result.defer_until, workerId);
+        } else {
+          await completeJob(job.id, workerId);
+          console.log(`✅ Completed job ${job.id} (${job.job_type})`);
+        }
       } catch (error) {
         console.error(`❌ Job ${job.id} failed:`, error);
-        await failJob(
-          job.id,
-          error instanceof Error ? error.message : 'Unknown error'
-        );
+        await failJob(job, error, workerId);
+      } finally {
+        clearInterval(heartbeat);
       }
 
       // Process next job immediately
-      processNext();
+      processNext(workerId);
     } catch (error) {
       console.error('❌ Job processor error:', error);
       // Continue processing after delay
-      setTimeout(processNext, 5000); // Wait 5 seconds on error
+      setTimeout(() => processNext(workerId), 5000); // Wait 5 seconds on error
     }
   };
 
-  // Start processing
-  processNext();
-}
+  // Start the workers
+  for (let worker = 0; worker < concurrency; worker++) {
+    processNext(`${instanceId}-${worker + 1}`);
+  }
 
+  // Jobs of crashed workers without attempts left would otherwise stay in processing
+  setInterval(() => {
+    failExpiredJobs()
+      .then(async (jobs) => {
+        if (jobs.length > 0) {
+          console.log(`🧹 Failed ${jobs.length} jobs whose workers stopped responding`);
+        }
+        for (const job of jobs) {
+          await handleExpiredJob?.(job);
+        }
+      })
+      .catch((error) => console.error('❌ Failing expired jobs failed:', error));
+
+    pruneIdleCrawlHosts().catch((error) => console.error('❌ Pruning crawl hosts failed:', error));
+  }, LEASE_DURATION_MS);
+}
@@ -0,0 +1,83 @@
+import type { HreflangAlternate } from '../schema/audits';
+
+export type Language = 'de' | 'en' | 'fr' | 'it' | 'nl';
+
+export const LANGUAGES: Language[] = ['de', 'en', 'fr', 'it', 'nl'];
+
+export interface LanguageDetectionInput {
+  content: string;
+  lang?: string | null; // <html lang>
+  hreflang?: HreflangAlternate[] | null;
+  url?: string; // Final URL, to find the page's own hreflang entry
+}
+
+// Frequent function words – they dominate any text and rarely overlap between these languages
+const STOPWORDS: Record<Language, Set<string>> = {
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'auf', 'für', 'sich', 'dem', 'den', 'ein', 'eine', 'einen', 'auch', 'wird', 'sind', 'oder', 'bei', 'aus', 'wie', 'noch', 'nach', 'über', 'ihre', 'wir', 'sie', 'zum', 'zur']),
+  en: new Set(['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'with', 'for', 'this', 'you', 'your', 'on', 'it', 'be', 'as', 'by', 'from', 'or', 'our', 'we', 'can', 'will', 'have', 'has', 'was', 'not', 'all', 'more']),
+  fr: new Set(['le', 'la', 'les', 'et', 'est', 'des', 'une', 'un', 'du', 'pour', 'dans', 'que', 'qui', 'sur', 'pas', 'avec', 'vous', 'nous', 'sont', 'par', 'plus', 'ce', 'cette', 'au', 'aux', 'votre', 'vos', 'ou', 'mais', 'être']),
+  it: new Set(['il', 'lo', 'la', 'gli', 'le', 'e', 'è', 'di', 'che', 'per', 'con', 'non', 'una', 'uno', 'del', 'della', 'dei', 'delle', 'sono', 'nel', 'nella', 'al', 'alla', 'anche', 'più', 'come', 'questo', 'questa', 'vostro', 'ma']),
+  nl: new Set(['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'voor', 'met', 'niet', 'zijn', 'ook', 'aan', 'er', 'maar', 'om', 'bij', 'wordt', 'worden', 'uw', 'je', 'jouw', 'deze', 'dit', 'naar', 'kan', 'nog', 'wij']),
+};
+
+const MIN_WORDS_FOR_CONTENT = 30;
+const MIN_STOPWORD_HITS = 5;
+const MIN_LEAD_RATIO = 1.5; // Best language needs this many times the hits of the runner-up
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * "de-AT", "DE_de" → "de"; null for unsupported languages
+ */
+export function normalizeLanguageCode(code: string | null | undefined): Language | null {
+  const primary = code?.trim().toLowerCase().split(/[-_]/)[0];
+  return isLanguage(primary) ? primary : null;
+}
+
+/**
+ * Detect the language of a page
+ * Clear content evidence wins (templates often carry a site-wide lang attribute),
+ * then the lang attribute, then the page's own hreflang entry, then a weak content guess
+ */
+export function detectLanguage(input: LanguageDetectionInput): Language | null {
+  const fromContent = detectFromContent(input.content);
+  if (fromContent?.confident) return fromContent.language;
+
+  const fromLang = normalizeLanguageCode(input.lang);
+  if (fromLang) return fromLang;
+
+  if (input.url && input.hreflang?.length) {
+    const own = input.hreflang.find((alternate) => stripTrailingSlash(alternate.href) === stripTrailingSlash(input.url!));
+    const fromHreflang = normalizeLanguageCode(own?.hreflang);
+    if (fromHreflang) return fromHreflang;
+  }
+
+  return fromContent?.language ?? null;
+}
+
+function detectFromContent(content: string): { language: Language; confident: boolean } | null {
+  const words = content.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  if (words.length === 0) return null;
+
+  const scores = LANGUAGES.map((language) => ({
+    language,
+    hits: words.filter((word) => STOPWORDS[language].has(word)).length,
+  })).sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits === 0) return null;
+
+  return {
+    language: best.language,
+    confident:
+      words.length >= MIN_WORDS_FOR_CONTENT &&
+      best.hits >= MIN_STOPWORD_HITS &&
+      best.hits >= runnerUp.hits * MIN_LEAD_RATIO,
+  };
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
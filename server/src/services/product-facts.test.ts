@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { extractProductFacts, findFactContradictions, type FactPage } from './product-facts';
+
+const page = (id: string, path: string, title: string, content: string): FactPage => ({
+  id,
+  url: `https://shop.example.com${path}`,
+  title,
+  content,
+});
+
+const pairs = (pages: FactPage[]) =>
+  findFactContradictions(pages).map(({ label, a, b }) => `${a.pageId}-${b.pageId}: ${label}`);
+
+describe('extractProductFacts', () => {
+  it('normalizes prices in German and English notation to cents', () => {
+    const values = (content: string) => extractProductFacts(content).map((fact) => fact.value);
+
+    expect(values('Preis: 1.299,00 €')).toEqual(['129900']);
+    expect(values('Jetzt nur 1.299 €')).toEqual(['129900']);
+    expect(values('Price: EUR 49.90')).toEqual(['4990']);
+    expect(values('Ab 99,- €')).toEqual(['9900']);
+  });
+
+  it('ignores prices on shipping lines', () => {
+    expect(extractProductFacts('Versandkosten: 4,95 €')).toEqual([]);
+  });
+
+  it('normalizes dimensions to sorted millimetres and weights to grams', () => {
+    const facts = extractProductFacts('Maße: 160 x 90 x 75 cm\nGewicht: 42,5 kg');
+
+    expect(facts.map(({ type, value }) => [type, value])).toEqual([
+      ['dimensions', '750x900x1600'],
+      ['weight', '42500'],
+    ]);
+  });
+
+  it('keys materials by the part they describe', () => {
+    const [fact] = extractProductFacts('Tischplatte: **Eiche massiv**.');
+
+    expect(fact).toMatchObject({ key: 'material:tischplatte', value: 'eiche massiv', text: 'Tischplatte: Eiche massiv' });
+  });
+});
+
+describe('findFactContradictions', () => {
+  it('reports facts that differ between pages of the same product', () => {
+    expect(
+      pairs([
+        page('a', '/moebel/tisch-eiche-160', 'Tisch Eiche 160 | Shop', 'Preis: 499 €\nMaterial: Eiche massiv'),
+        page('b', '/angebote/tisch-eiche-160', 'Tisch Eiche 160 | Shop', 'Preis: 459 €\nMaterial: massive Eiche'),
+      ])
+    ).toEqual(['a-b: Preis']);
+  });
+
+  it('only compares shared facts between variants of a product', () => {
+    expect(
+      pairs([
+        page('a', '/tische/tisch-eiche-160', 'Tisch Eiche 160', 'Preis: 499 €\nMaße: 160 x 90 cm\nMaterial: Eiche'),
+        page('b', '/tische/tisch-eiche-200', 'Tisch Eiche 200', 'Preis: 699 €\nMaße: 200 x 90 cm\nMaterial: Eiche'),
+        page('c', '/tische/tisch-eiche-180', 'Tisch Eiche 180', 'Preis: 599 €\nMaße: 180 x 90 cm\nMaterial: Kiefer'),
+      ])
+    ).toEqual(['a-c: Material', 'b-c: Material']);
+  });
+
+  it('does not compare unrelated pages', () => {
+    expect(
+      pairs([
+        page('a', '/tische/esstisch', 'Esstisch Eiche', 'Preis: 499 €'),
+        page('b', '/stuehle/armlehnstuhl', 'Armlehnstuhl Leder', 'Preis: 199 €'),
+      ])
+    ).toEqual([]);
+  });
+
+  it('compares a category page with the facts next to the product mention', () => {
+    expect(
+      pairs([
+        page('cat', '/tische', 'Tische', 'Esstisch Nordic\nNur 549 €\n\n\n\nCouchtisch Loft\nNur 199 €'),
+        page('p', '/tische/esstisch-nordic', 'Esstisch Nordic | Shop', 'Preis: 499 €'),
+      ])
+    ).toEqual(['cat-p: Preis']);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Cross-page contradiction detection for product facts
+ * Extracts price, dimensions, weight and material per page and compares them across related pages
+ */
+
+export type FactType = 'price' | 'dimensions' | 'weight' | 'material';
+
+export interface ProductFact {
+  type: FactType;
+  key: string; // Facts are only compared with facts of the same key (e.g. "material:bezug")
+  label: string; // Human readable name of the fact
+  value: string; // Normalized value used for comparison
+  text: string; // Matched text as it appears on the page
+  snippet: string; // Line the fact was found in
+}
+
+export interface FactPage {
+  id: string;
+  url: string;
+  title: string | null;
+  content: string | null;
+}
+
+export interface FactContradiction {
+  type: FactType;
+  label: string;
+  a: { pageId: string; url: string; text: string; snippet: string };
+  b: { pageId: string; url: string; text: string; snippet: string };
+}
+
+const MAX_GROUP_SIZE = 50; // Larger groups are almost always unrelated pages sharing a path
+const CATEGORY_CONTEXT_LINES = 2; // Lines around a product mention on a category page
+const MAX_SNIPPET_LENGTH = 200;
+
+// Words that distinguish variants of the same product rather than products
+const VARIANT_WORDS = new Set([
+  'schwarz', 'weiss', 'weiß', 'grau', 'rot', 'blau', 'grün', 'gruen', 'gelb', 'braun', 'beige', 'natur',
+  'black', 'white', 'grey', 'gray', 'red', 'blue', 'green', 'yellow', 'brown',
+  'klein', 'mittel', 'gross', 'groß', 'small', 'medium', 'large', 'xs', 'xl', 'xxl',
+]);
+
+// Facts that differ between variants of a product by design (a longer table costs more)
+const VARIANT_FACT_TYPES = new Set<FactType>(['price', 'dimensions', 'weight']);
+
+const PRICE_PATTERN = /(?:(?:€|EUR)\s?(\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)|(\d{1,3}(?:[.\s]\d{3})*(?:,(?:\d{1,2}|-))?|\d+(?:[.,]\d{1,2})?)\s?(?:€|EUR))/gi;
+const DIMENSIONS_PATTERN = /(\d+(?:[.,]\d+)?)\s?[x×]\s?(\d+(?:[.,]\d+)?)(?:\s?[x×]\s?(\d+(?:[.,]\d+)?))?\s?(mm|cm|m)\b/gi;
+const WEIGHT_PATTERN = /\bGewicht\b[^\d\n]{0,20}(\d+(?:[.,]\d+)?)\s?(kg|g)\b/gi;
+const MATERIAL_PATTERN = /\b(Material|Materialien|Werkstoff|Obermaterial|Bezug|Gestell|Tischplatte)\s*(?::|\|)\s*([^\n|;]{2,60})/gi;
+const SHIPPING_LINE = /versand|shipping|lieferung|zzgl|rabatt|gutschein/i;
+
+const UNIT_TO_MM: Record<string, number> = { mm: 1, cm: 10, m: 1000 };
+
+/**
+ * Extract product facts from markdown content
+ */
+export function extractProductFacts(content: string): ProductFact[] {
+  const facts: ProductFact[] = [];
+
+  for (const line of content.split('\n')) {
+    const snippet = line.trim().slice(0, MAX_SNIPPET_LENGTH);
+    if (!snippet) continue;
+
+    if (!SHIPPING_LINE.test(line)) {
+      for (const match of line.matchAll(PRICE_PATTERN)) {
+        const cents = parsePrice(match[1] ?? match[2]);
+        if (cents !== null && cents > 0) {
+          facts.push({ type: 'price', key: 'price', label: 'Preis', value: String(cents), text: match[0].trim(), snippet });
+        }
+      }
+    }
+
+    for (const match of line.matchAll(DIMENSIONS_PATTERN)) {
+      const factor = UNIT_TO_MM[match[4].toLowerCase()];
+      const sizes = [match[1], match[2], match[3]]
+        .filter((size): size is string => Boolean(size))
+        .map((size) => Math.round(parseDecimal(size) * factor))
+        .sort((a, b) => a - b);
+      facts.push({ type: 'dimensions', key: 'dimensions', label: 'Maße', value: sizes.join('x'), text: match[0].trim(), snippet });
+    }
+
+    for (const match of line.matchAll(WEIGHT_PATTERN)) {
+      const grams = parseDecimal(match[1]) * (match[2].toLowerCase() === 'kg' ? 1000 : 1);
+      facts.push({ type: 'weight', key: 'weight', label: 'Gewicht', value: String(Math.round(grams)), text: match[0].trim(), snippet });
+    }
+
+    for (const match of line.matchAll(MATERIAL_PATTERN)) {
+      const value = match[2].replace(/[*_`]/g, '').trim().replace(/[.,]$/, '');
+      if (!/\p{L}/u.test(value)) continue;
+      facts.push({
+        type: 'material',
+        key: `material:${match[1].toLowerCase()}`,
+        label: match[1],
+        value: value.toLowerCase(),
+        text: `${match[1]}: ${value}`,
+        snippet,
+      });
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * Compare product facts across related pages
+ * Variant pages are related by URL pattern or shared title stem; pages of different variants
+ * (e.g. /tisch-160 and /tisch-200) are only compared on facts variants share (material).
+ * Category pages are compared with the product pages below them, using the facts next to where
+ * the product is mentioned
+ */
+export function findFactContradictions(pages: FactPage[]): FactContradiction[] {
+  const contradictions: FactContradiction[] = [];
+  const factsById = new Map(pages.map((page) => [page.id, extractProductFacts(page.content || '')]));
+  const pagesWithFacts = pages.filter((page) => factsById.get(page.id)!.length > 0);
+
+  for (const group of groupRelatedPages(pagesWithFacts)) {
+    if (group.length > MAX_GROUP_SIZE) continue;
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const sameVariant = variantKey(group[i]) === variantKey(group[j]);
+        const comparable = (page: FactPage) =>
+          factsById.get(page.id)!.filter((fact) => sameVariant || !VARIANT_FACT_TYPES.has(fact.type));
+        contradictions.push(...compareFacts(group[i], comparable(group[i]), group[j], comparable(group[j])));
+      }
+    }
+  }
+
+  // Category → product: only the facts around the product mention count
+  const pagesByPath = new Map(pages.map((page) => [normalizePath(page.url), page]));
+  for (const product of pagesWithFacts) {
+    const category = pagesByPath.get(parentPath(product.url));
+    const name = product.title ? titleMainPart(product.title).toLowerCase() : '';
+    if (!category || category.id === product.id || !category.content || name.length < 4) continue;
+
+    const lines = category.content.split('\n');
+    const mention = lines.findIndex((line) => line.toLowerCase().includes(name));
+    if (mention === -1) continue;
+
+    const context = lines
+      .slice(Math.max(0, mention - CATEGORY_CONTEXT_LINES), mention + CATEGORY_CONTEXT_LINES + 1)
+      .join('\n');
+    contradictions.push(...compareFacts(category, extractProductFacts(context), product, factsById.get(product.id)!));
+  }
+
+  // A category page can also be related by title stem – report each pair and fact once
+  const seen = new Set<string>();
+  return contradictions.filter(({ label, a, b }) => {
+    const key = [a.pageId, b.pageId].sort().join('|') + `|${label}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Report one contradiction per fact key when two pages share no value for it
+ */
+function compareFacts(pageA: FactPage, factsA: ProductFact[], pageB: FactPage, factsB: ProductFact[]): FactContradiction[] {
+  const contradictions: FactContradiction[] = [];
+  const keys = new Set(factsA.map((fact) => fact.key));
+
+  for (const key of keys) {
+    const valuesA = factsA.filter((fact) => fact.key === key);
+    const valuesB = factsB.filter((fact) => fact.key === key);
+    if (valuesB.length === 0) continue;
+
+    const agree = valuesA.some((a) => valuesB.some((b) => valuesMatch(a, b)));
+    if (agree) continue;
+
+    const [a, b] = [valuesA[0], valuesB[0]];
+    contradictions.push({
+      type: a.type,
+      label: a.label,
+      a: { pageId: pageA.id, url: pageA.url, text: a.text, snippet: a.snippet },
+      b: { pageId: pageB.id, url: pageB.url, text: b.text, snippet: b.snippet },
+    });
+  }
+
+  return contradictions;
+}
+
+function valuesMatch(a: ProductFact, b: ProductFact): boolean {
+  if (a.type !== 'material') return a.value === b.value;
+  // "Eiche massiv" and "massive Eiche" describe the same material
+  const words = (value: string) => value.split(/[^\p{L}]+/u).filter((word) => word.length >= 3);
+  const wordsB = words(b.value);
+  return words(a.value).some((word) => wordsB.some((other) => other.startsWith(word) || word.startsWith(other)));
+}
+
+/**
+ * Group pages sharing a URL pattern or a title stem (connected components over both keys)
+ */
+function groupRelatedPages(pages: FactPage[]): FactPage[][] {
+  const parent = new Map(pages.map((page) => [page.id, page.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const firstByKey = new Map<string, string>();
+  for (const page of pages) {
+    const keys = [`url:${urlPatternKey(page.url)}`];
+    const stem = page.title ? titleStem(page.title) : null;
+    if (stem) keys.push(`title:${stem}`);
+
+    for (const key of keys) {
+      const first = firstByKey.get(key);
+      if (first) parent.set(find(page.id), find(first));
+      else firstByKey.set(key, page.id);
+    }
+  }
+
+  const groups = new Map<string, FactPage[]>();
+  for (const page of pages) {
+    const root = find(page.id);
+    groups.set(root, [...(groups.get(root) ?? []), page]);
+  }
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+// Sizes, dimensions and colors name a variant rather than a product
+function isVariantToken(token: string): boolean {
+  return /\d/.test(token) || VARIANT_WORDS.has(token);
+}
+
+/**
+ * Split the last URL segment into the product slug and its trailing variant tokens
+ * (/tisch-eiche-160-schwarz → /tisch-eiche plus 160, schwarz)
+ */
+function splitVariantSlug(url: string): { path: string; variantTokens: string[] } {
+  const segments = normalizePath(url).split('/');
+  const tokens = segments.pop()!.split('-');
+  const variantTokens: string[] = [];
+  while (tokens.length > 1 && isVariantToken(tokens[tokens.length - 1])) {
+    variantTokens.push(tokens.pop()!);
+  }
+  return { path: [...segments, tokens.join('-')].join('/'), variantTokens };
+}
+
+/**
+ * URL without query, hash and trailing variant tokens
+ */
+function urlPatternKey(url: string): string {
+  return splitVariantSlug(url).path;
+}
+
+/**
+ * Variant tokens of a page's URL and title; pages with the same key show the same variant
+ */
+function variantKey(page: FactPage): string {
+  const titleWords = titleMainPart(page.title ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  const tokens = new Set([...splitVariantSlug(page.url).variantTokens, ...titleWords.filter(isVariantToken)]);
+  return Array.from(tokens).sort().join(' ');
+}
+
+function titleStem(title: string): string | null {
+  const words = titleMainPart(title)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 2 && !isVariantToken(word));
+  return words.length >= 2 ? words.slice(0, 3).join(' ') : null;
+}
+
+// "Tisch Eiche | Shop" → "Tisch Eiche"
+function titleMainPart(title: string): string {
+  return title.split(/\s+[|–—-]\s+/)[0].trim();
+}
+
+function normalizePath(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname}${pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+function parentPath(url: string): string {
+  const path = normalizePath(url);
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+function parseDecimal(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Parse a price in German or English notation into cents
+ */
+function parsePrice(raw: string): number | null {
+  let value = raw.replace(/\s/g, '').replace(/,-$/, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma > -1 && lastDot > -1) {
+    // Both separators: the last one is the decimal separator
+    const decimal = lastComma > lastDot ? ',' : '.';
+    value = value.replace(decimal === ',' ? /\./g : /,/g, '').replace(decimal, '.');
+  } else if (lastComma > -1 || lastDot > -1) {
+    const separator = lastComma > -1 ? ',' : '.';
+    const decimals = value.length - value.lastIndexOf(separator) - 1;
+    // Exactly three digits after the only separator means thousands (1.299 €)
+    value = decimals === 3 ? value.split(separator).join('') : value.split(separator).join('.');
+  }
+
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? Math.round(amount * 100) : null;
+}
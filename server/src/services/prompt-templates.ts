@@ -0,0 +1,247 @@
+import { getDatabase, isUuid } from '../lib/db';
+import {
+  promptTemplates,
+  promptTemplateVersions,
+  type PromptTemplate,
+  type PromptTemplateVersion,
+} from '../schema/audits';
+import { eq, and, ne, desc } from 'drizzle-orm';
+import { PROMPT_PLACEHOLDERS } from './ai-analyzer';
+
+export interface PromptTemplateInput {
+  name?: string;
+  description?: string | null;
+  content?: string;
+  isDefault?: boolean;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_CONTENT_LENGTH = 20000;
+
+/**
+ * Validate a prompt template from a request body (snake_case keys)
+ * New templates need a name and content; updates may send any subset
+ * Throws an Error with a user-facing message if invalid
+ */
+export function validatePromptTemplateInput(input: unknown, isUpdate = false): PromptTemplateInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Request body must be an object');
+  }
+
+  const { name, description, content, is_default } = input as Record<string, unknown>;
+  const template: PromptTemplateInput = {};
+
+  if (name !== undefined || !isUpdate) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      throw new Error(`name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+    }
+    template.name = name.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+      throw new Error(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    template.description = description?.trim() || null;
+  }
+
+  if (content !== undefined || !isUpdate) {
+    if (typeof content !== 'string' || !content.trim() || content.length > MAX_CONTENT_LENGTH) {
+      throw new Error(`content must be a non-empty string of at most ${MAX_CONTENT_LENGTH} characters`);
+    }
+    if (!content.includes('{content}')) {
+      throw new Error('content must contain the {content} placeholder');
+    }
+    // Catch typos like {titel} – they would be sent to the model verbatim
+    const unknown = Array.from(content.matchAll(/\{([a-z_]+)\}/g), (match) => match[1]).filter(
+      (placeholder) => !(PROMPT_PLACEHOLDERS as readonly string[]).includes(placeholder)
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown placeholder {${unknown[0]}} (available: ${PROMPT_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')})`
+      );
+    }
+    template.content = content;
+  }
+
+  if (is_default !== undefined) {
+    if (typeof is_default !== 'boolean') {
+      throw new Error('is_default must be a boolean');
+    }
+    template.isDefault = is_default;
+  }
+
+  return template;
+}
+
+/**
+ * Template with all its versions (newest first), null if it does not exist
+ */
+export async function getPromptTemplate(
+  templateId: string
+): Promise<{ template: PromptTemplate; versions: PromptTemplateVersion[] } | null> {
+  if (!isUuid(templateId)) {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const result = await db.select().from(promptTemplates).where(eq(promptTemplates.id, templateId)).limit(1);
+  if (result.length === 0) {
+    return null;
+  }
+
+  const versions = await db
+    .select()
+    .from(promptTemplateVersions)
+    .where(eq(promptTemplateVersions.template_id, templateId))
+    .orderBy(desc(promptTemplateVersions.version));
+
+  return { template: result[0], versions };
+}
+
+/**
+ * Check whether another template already uses the name
+ */
+export async function isPromptTemplateNameTaken(name: string, exceptId?: string): Promise<boolean> {
+  const db = await getDatabase();
+  const sameName = eq(promptTemplates.name, name);
+  const existing = await db
+    .select({ id: promptTemplates.id })
+    .from(promptTemplates)
+    .where(exceptId ? and(sameName, ne(promptTemplates.id, exceptId)) : sameName)
+    .limit(1);
+  return existing.length > 0;
+}
+
+/**
+ * Create a template with its first version
+ */
+export async function createPromptTemplate(
+  input: PromptTemplateInput & { name: string; content: string },
+  userId?: string
+): Promise<{ template: PromptTemplate; version: PromptTemplateVersion }> {
+  const db = await getDatabase();
+
+  if (input.isDefault) {
+    await clearDefaultTemplate();
+  }
+
+  const [template] = await db
+    .insert(promptTemplates)
+    .values({
+      name: input.name,
+      description: input.description ?? null,
+      is_default: input.isDefault ?? false,
+    })
+    .returning();
+
+  const [version] = await db
+    .insert(promptTemplateVersions)
+    .values({ template_id: template.id, version: 1, content: input.content, created_by: userId ?? null })
+    .returning();
+
+  console.log(`📝 Created prompt template "${template.name}"`);
+  return { template, version };
+}
+
+/**
+ * Update a template; a changed content is stored as a new version, earlier versions stay untouched
+ * Returns null if the template does not exist
+ */
+export async function updatePromptTemplate(
+  templateId: string,
+  input: PromptTemplateInput,
+  userId?: string
+): Promise<{ template: PromptTemplate; version: PromptTemplateVersion } | null> {
+  const db = await getDatabase();
+
+  const existing = await db.select().from(promptTemplates).where(eq(promptTemplates.id, templateId)).limit(1);
+  if (existing.length === 0) {
+    return null;
+  }
+
+  let version = await getLatestVersion(templateId);
+  if (input.content !== undefined && input.content !== version?.content) {
+    [version] = await db
+      .insert(promptTemplateVersions)
+      .values({
+        template_id: templateId,
+        version: (version?.version ?? 0) + 1,
+        content: input.content,
+        created_by: userId ?? null,
+      })
+      .returning();
+    console.log(`📝 Saved version ${version.version} of prompt template "${existing[0].name}"`);
+  }
+
+  if (input.isDefault) {
+    await clearDefaultTemplate();
+  }
+
+  const [template] = await db
+    .update(promptTemplates)
+    .set({
+      name: input.name ?? existing[0].name,
+      description: input.description !== undefined ? input.description : existing[0].description,
+      is_default: input.isDefault ?? existing[0].is_default,
+      updated_at: new Date(),
+    })
+    .where(eq(promptTemplates.id, templateId))
+    .returning();
+
+  return { template, version: version! };
+}
+
+/**
+ * Prompt version for a new audit: the latest version of the chosen template,
+ * otherwise of the default template; null = built-in prompt
+ */
+export async function resolvePromptVersion(templateId?: string): Promise<PromptTemplateVersion | null> {
+  const db = await getDatabase();
+
+  if (templateId) {
+    const version = await getLatestVersion(templateId);
+    if (!version) {
+      throw new Error('Prompt template not found');
+    }
+    return version;
+  }
+
+  const defaults = await db
+    .select({ id: promptTemplates.id })
+    .from(promptTemplates)
+    .where(eq(promptTemplates.is_default, true))
+    .limit(1);
+  return defaults.length > 0 ? getLatestVersion(defaults[0].id) : null;
+}
+
+/**
+ * Text of a stored prompt version (null if it does not exist)
+ */
+export async function getPromptVersionContent(versionId: string): Promise<string | null> {
+  const db = await getDatabase();
+  const result = await db
+    .select({ content: promptTemplateVersions.content })
+    .from(promptTemplateVersions)
+    .where(eq(promptTemplateVersions.id, versionId))
+    .limit(1);
+  return result[0]?.content ?? null;
+}
+
+async function getLatestVersion(templateId: string): Promise<PromptTemplateVersion | null> {
+  const db = await getDatabase();
+  const result = await db
+    .select()
+    .from(promptTemplateVersions)
+    .where(eq(promptTemplateVersions.template_id, templateId))
+    .orderBy(desc(promptTemplateVersions.version))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+// Only one template can be the default
+async function clearDefaultTemplate(): Promise<void> {
+  const db = await getDatabase();
+  await db.update(promptTemplates).set({ is_default: false }).where(eq(promptTemplates.is_default, true));
+}
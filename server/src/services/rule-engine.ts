@@ -0,0 +1,239 @@
+import { countWords } from './crawler';
+import type { AnalysisIssue, IssueType, Severity } from './ai-analyzer';
+
+/**
+ * Page data the rule checks work on
+ */
+export interface RuleCheckInput {
+  title: string;
+  content: string; // Main content as markdown
+  metaDescription?: string | null;
+  wordCount?: number | null;
+  httpStatus?: number | null; // Set when the HTML snapshot (and thus metadata) is available
+}
+
+/**
+ * A deterministic check that runs locally, without any API call
+ */
+interface Rule {
+  id: string;
+  check(input: RuleCheckInput): AnalysisIssue[];
+}
+
+const MIN_WORD_COUNT = 150;
+const MAX_SENTENCE_WORDS = 35;
+const MIN_DUPLICATE_PARAGRAPH_LENGTH = 60;
+const MAX_ISSUES_PER_RULE = 5; // Keep a single noisy rule from dominating the score
+const MAX_SNIPPET_LENGTH = 200;
+
+const PLACEHOLDER_PATTERNS: { pattern: RegExp; description: string }[] = [
+  { pattern: /lorem ipsum[^.\n]*/i, description: 'Blindtext (Lorem ipsum) gefunden' },
+  { pattern: /\b(?:TODO|FIXME|TBD)\b[^.\n]*/, description: 'Offener Bearbeitungsvermerk gefunden' },
+  {
+    // "[hier einfügen]", "[Text folgt]", "[insert image]" – but not markdown links like "[hier](…)"
+    pattern: /\[(?:hier|text|bild|bitte|platzhalter|insert|placeholder)\b[^\]\n]{0,60}\](?!\()/i,
+    description: 'Platzhalter in eckigen Klammern gefunden',
+  },
+  { pattern: /\{\{[^}\n]*\}\}/, description: 'Nicht ersetzte Template-Variable gefunden' },
+  { pattern: /\b(?:platzhaltertext|placeholder text)\b[^.\n]*/i, description: 'Platzhaltertext gefunden' },
+];
+
+const rules: Rule[] = [
+  {
+    id: 'empty-content',
+    check: ({ content, wordCount }) => {
+      const words = wordCount ?? countWords(content);
+      if (words > 0) return [];
+      return [
+        issue('empty', 'high', 'Die Seite enthält keinen Textinhalt', '', 'Inhalt ergänzen oder Seite entfernen'),
+      ];
+    },
+  },
+  {
+    id: 'thin-content',
+    check: ({ content, wordCount }) => {
+      const words = wordCount ?? countWords(content);
+      if (words === 0 || words >= MIN_WORD_COUNT) return [];
+      return [
+        issue(
+          'empty',
+          'medium',
+          `Sehr wenig Text (${words} Wörter, empfohlen mindestens ${MIN_WORD_COUNT})`,
+          '',
+          'Inhalt ausbauen'
+        ),
+      ];
+    },
+  },
+  {
+    id: 'placeholder',
+    check: ({ title, content }) => {
+      const issues: AnalysisIssue[] = [];
+      for (const text of [title, content]) {
+        for (const { pattern, description } of PLACEHOLDER_PATTERNS) {
+          const global = new RegExp(pattern.source, pattern.flags + 'g');
+          for (const match of text.matchAll(global)) {
+            issues.push(issue('placeholder', 'high', description, truncate(match[0].trim()), 'Platzhalter durch echten Inhalt ersetzen'));
+          }
+        }
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'duplicate-paragraph',
+    check: ({ content }) => {
+      const seen = new Set<string>();
+      const reported = new Set<string>();
+      const issues: AnalysisIssue[] = [];
+
+      for (const paragraph of content.split(/\n\s*\n/)) {
+        const trimmed = paragraph.trim();
+        if (trimmed.length < MIN_DUPLICATE_PARAGRAPH_LENGTH) continue;
+
+        const key = trimmed.toLowerCase().replace(/\s+/g, ' ');
+        if (seen.has(key) && !reported.has(key)) {
+          reported.add(key);
+          issues.push(
+            issue('redundancy', 'medium', 'Absatz kommt mehrfach auf der Seite vor', truncate(trimmed), 'Doppelten Absatz entfernen')
+          );
+        }
+        seen.add(key);
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'long-sentence',
+    check: ({ content }) => {
+      const issues: AnalysisIssue[] = [];
+      for (const sentence of extractSentences(content)) {
+        const words = sentence.split(/\s+/).filter(Boolean).length;
+        if (words > MAX_SENTENCE_WORDS) {
+          issues.push(
+            issue(
+              'readability',
+              'low',
+              `Sehr langer Satz (${words} Wörter)`,
+              truncate(sentence),
+              'Satz in mehrere kürzere Sätze aufteilen'
+            )
+          );
+        }
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'missing-meta-description',
+    check: ({ title, metaDescription, httpStatus }) => {
+      // Without an HTML snapshot we cannot tell whether the description is missing
+      if (httpStatus === null || httpStatus === undefined) return [];
+      if (metaDescription && metaDescription.trim()) return [];
+      return [
+        issue('metadata', 'medium', 'Meta-Description fehlt', title, 'Aussagekräftige Meta-Description (ca. 120–160 Zeichen) ergänzen'),
+      ];
+    },
+  },
+  {
+    id: 'broken-markdown',
+    check: ({ content }) => {
+      const issues: AnalysisIssue[] = [];
+
+      const fences = content.match(/^\s*```/gm) ?? [];
+      if (fences.length % 2 !== 0) {
+        issues.push(issue('formatting', 'low', 'Codeblock wird nicht geschlossen', '```', 'Fehlendes ``` ergänzen'));
+      }
+
+      for (const match of content.matchAll(/\[[^\]\n]*\]\([^)\s]*$/gm)) {
+        issues.push(issue('formatting', 'low', 'Unvollständiger Link', truncate(match[0].trim()), 'Link-Syntax korrigieren'));
+      }
+
+      for (const match of content.matchAll(/(?<!!)\[\s*\]\([^)\n]+\)/g)) {
+        issues.push(issue('formatting', 'low', 'Link ohne Linktext', match[0], 'Beschreibenden Linktext ergänzen'));
+      }
+
+      for (const match of content.matchAll(/<\/?(?:div|span|p|br|strong|em|b|i|a|img|table|tr|td|ul|ol|li)\b[^>\n]*>/gi)) {
+        issues.push(issue('formatting', 'low', 'HTML-Tag im Text', match[0], 'HTML-Markup entfernen'));
+      }
+
+      for (const match of content.matchAll(/&(?:amp|nbsp|quot|lt|gt|#\d+);/g)) {
+        issues.push(issue('formatting', 'low', 'Nicht dekodierte HTML-Entity', match[0], 'Entity durch das eigentliche Zeichen ersetzen'));
+      }
+
+      return issues;
+    },
+  },
+];
+
+/**
+ * Run all deterministic checks on a page
+ * Works without any AI provider configured
+ */
+export function runRuleChecks(input: RuleCheckInput): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+
+  for (const rule of rules) {
+    try {
+      issues.push(...rule.check(input).slice(0, MAX_ISSUES_PER_RULE));
+    } catch (error) {
+      console.error(`❌ Rule check ${rule.id} failed:`, error);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Combine rule and AI issues, dropping AI issues that repeat a rule finding
+ */
+export function mergeIssues(ruleIssues: AnalysisIssue[], aiIssues: AnalysisIssue[]): AnalysisIssue[] {
+  const isDuplicate = (aiIssue: AnalysisIssue) =>
+    ruleIssues.some((ruleIssue) => {
+      if (ruleIssue.type !== aiIssue.type) return false;
+      if (ruleIssue.type === 'empty') return true;
+      const a = normalizeSnippet(ruleIssue.snippet);
+      const b = normalizeSnippet(aiIssue.snippet);
+      return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a));
+    });
+
+  return [...ruleIssues, ...aiIssues.filter((aiIssue) => !isDuplicate(aiIssue))];
+}
+
+function issue(
+  type: IssueType,
+  severity: Severity,
+  description: string,
+  snippet: string,
+  suggestion?: string
+): AnalysisIssue {
+  return { type, severity, description, snippet, suggestion, source: 'rule' };
+}
+
+/**
+ * Split markdown into prose sentences, skipping headings, tables and code blocks
+ */
+function extractSentences(markdown: string): string[] {
+  const prose = markdown
+    .replace(/```[\s\S]*?```/g, '\n')
+    .split('\n')
+    .filter((line) => !/^\s*(#|\||>|!\[)/.test(line))
+    // Each list item is a unit of its own
+    .map((line) => (/^\s*([-*+]|\d+\.)\s/.test(line) ? `\n${line.replace(/^\s*([-*+]|\d+\.)\s+/, '')}` : line))
+    .join('\n')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
+
+  return prose
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) => paragraph.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+(?=[\p{Lu}\d"„])/u))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function normalizeSnippet(snippet: string): string {
+  return snippet.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_SNIPPET_LENGTH ? text.slice(0, MAX_SNIPPET_LENGTH) : text;
+}
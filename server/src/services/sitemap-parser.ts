@@ -7,10 +7,35 @@ interface SitemapUrl {
   priority?: string;
 }
 
+/**
+ * A page URL from a sitemap with its optional metadata
+ */
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+  changefreq?: string;
+  priority?: number;
+}
+
 interface SitemapIndex {
   sitemap: SitemapUrl | SitemapUrl[];
 }
 
+interface FeedLink {
+  '@_href'?: string;
+  '@_rel'?: string;
+}
+
+interface RssItem {
+  link?: string | { '#text'?: string };
+  pubDate?: string;
+}
+
+interface AtomEntry {
+  link?: FeedLink | FeedLink[];
+  updated?: string;
+}
+
 interface Sitemap {
   urlset?: {
     url: SitemapUrl | SitemapUrl[];
@@ -18,17 +43,130 @@ interface Sitemap {
   sitemapindex?: {
     sitemap: SitemapUrl | SitemapUrl[];
   };
+  rss?: {
+    channel?: {
+      item?: RssItem | RssItem[];
+    };
+  };
+  feed?: {
+    entry?: AtomEntry | AtomEntry[];
+  };
+}
+
+const USER_AGENT = 'Content-Quality-Auditor/1.0';
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+/**
+ * Well-known sitemap locations probed in addition to robots.txt
+ */
+const COMMON_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml'];
+
+export interface DiscoveredSitemap {
+  url: string;
+  source: 'robots' | 'common';
+}
+
+/**
+ * Normalize a bare domain or any URL on the site to its origin
+ * e.g. "example.com/shop" -> "https://example.com"
+ */
+export function normalizeSiteOrigin(input: string): string {
+  const trimmed = input.trim();
+  const withProtocol = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  const parsed = new URL(withProtocol);
+  return parsed.origin;
+}
+
+/**
+ * Discover the sitemaps of a site
+ * Reads Sitemap: directives from robots.txt and probes the usual locations
+ */
+export async function discoverSitemaps(domain: string): Promise<DiscoveredSitemap[]> {
+  const origin = normalizeSiteOrigin(domain);
+  const found = new Map<string, DiscoveredSitemap>();
+
+  for (const url of await readRobotsSitemaps(origin)) {
+    found.set(url, { url, source: 'robots' });
+  }
+
+  for (const path of COMMON_SITEMAP_PATHS) {
+    const candidate = `${origin}${path}`;
+    if (found.has(candidate)) {
+      continue;
+    }
+
+    const resolvedUrl = await probeSitemap(candidate);
+    if (resolvedUrl && !found.has(resolvedUrl)) {
+      found.set(resolvedUrl, { url: resolvedUrl, source: 'common' });
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+async function readRobotsSitemaps(origin: string): Promise<string[]> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return [];
+    }
+
+    const robotsText = await response.text();
+    const sitemaps: string[] = [];
+    for (const line of robotsText.split(/\r?\n/)) {
+      const match = line.match(/^\s*sitemap\s*:\s*(\S+)/i);
+      if (!match) {
+        continue;
+      }
+      try {
+        sitemaps.push(new URL(match[1], origin).toString());
+      } catch {
+        // Ignore malformed directives
+      }
+    }
+    return Array.from(new Set(sitemaps));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check whether a URL serves a sitemap
+ * Returns the final URL after redirects, or null if nothing sitemap-like was found
+ */
+async function probeSitemap(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return null;
+    }
+
+    const body = await response.text();
+    if (!/<(urlset|sitemapindex)[\s>]/i.test(body)) {
+      return null;
+    }
+    return response.url || url;
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Parse a sitemap XML and extract all URLs
- * Supports both regular sitemaps and sitemap indexes
+ * Parse a sitemap and extract all URLs with their lastmod/changefreq/priority metadata
+ * Supports XML sitemaps and sitemap indexes, gzip-compressed sitemaps (.xml.gz),
+ * plain-text URL lists and RSS 2.0 / Atom feeds (see sitemaps.org)
  */
-export async function parseSitemap(sitemapUrl: string): Promise<string[]> {
+export async function parseSitemap(sitemapUrl: string): Promise<SitemapEntry[]> {
   try {
     const response = await fetch(sitemapUrl, {
       headers: {
-        'User-Agent': 'Content-Quality-Auditor/1.0',
+        'User-Agent': USER_AGENT,
       },
     });
 
@@ -36,44 +174,73 @@ export async function parseSitemap(sitemapUrl: string): Promise<string[]> {
       throw new Error(`Failed to fetch sitemap: ${response.status} ${response.statusText}`);
     }
 
-    const xmlText = await response.text();
+    const sitemapText = await readSitemapBody(response);
+
+    // Plain-text sitemaps contain one URL per line and no markup
+    if (!sitemapText.trimStart().startsWith('<')) {
+      return parseTextSitemap(sitemapText);
+    }
+
     const parser = new XMLParser({
       ignoreAttributes: false,
       attributeNamePrefix: '@_',
       textNodeName: '#text',
     });
 
-    const parsed: Sitemap = parser.parse(xmlText);
+    const parsed: Sitemap = parser.parse(sitemapText);
 
     // Check if it's a sitemap index
     if (parsed.sitemapindex) {
-      const sitemaps = Array.isArray(parsed.sitemapindex.sitemap)
-        ? parsed.sitemapindex.sitemap
-        : [parsed.sitemapindex.sitemap];
+      const sitemaps = toArray(parsed.sitemapindex.sitemap);
 
       // Recursively fetch all sitemaps
-      const allUrls: string[] = [];
+      const allEntries: SitemapEntry[] = [];
       for (const sitemap of sitemaps) {
         if (sitemap.loc) {
-          const urls = await parseSitemap(sitemap.loc);
-          allUrls.push(...urls);
+          const entries = await parseSitemap(sitemap.loc);
+          allEntries.push(...entries);
         }
       }
-      return allUrls;
+      return allEntries;
     }
 
     // Regular sitemap
     if (parsed.urlset?.url) {
-      const urls = Array.isArray(parsed.urlset.url)
-        ? parsed.urlset.url
-        : [parsed.urlset.url];
+      return toArray(parsed.urlset.url)
+        .filter((url) => typeof url.loc === 'string' && url.loc.length > 0)
+        .map((url) => ({
+          url: url.loc.trim(),
+          lastmod: parseLastmod(url.lastmod),
+          changefreq: typeof url.changefreq === 'string' ? url.changefreq.trim().toLowerCase() : undefined,
+          priority: parsePriority(url.priority),
+        }));
+    }
 
-      return urls
-        .map((url) => url.loc)
-        .filter((loc): loc is string => typeof loc === 'string' && loc.length > 0);
+    // RSS 2.0 feed
+    if (parsed.rss?.channel) {
+      return toArray(parsed.rss.channel.item).flatMap((item) => {
+        const link = typeof item.link === 'string' ? item.link : item.link?.['#text'];
+        if (typeof link !== 'string' || link.trim().length === 0) {
+          return [];
+        }
+        return [{ url: link.trim(), lastmod: parseLastmod(item.pubDate) }];
+      });
     }
 
-    throw new Error('Invalid sitemap format: no urlset or sitemapindex found');
+    // Atom feed
+    if (parsed.feed) {
+      return toArray(parsed.feed.entry).flatMap((entry) => {
+        const links = toArray(entry.link);
+        const link = links.find((l) => !l['@_rel'] || l['@_rel'] === 'alternate') || links[0];
+        const href = link?.['@_href'];
+        if (typeof href !== 'string' || href.length === 0) {
+          return [];
+        }
+        return [{ url: href, lastmod: parseLastmod(entry.updated) }];
+      });
+    }
+
+    throw new Error('Invalid sitemap format: no urlset, sitemapindex, rss or feed found');
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Sitemap parsing failed: ${error.message}`);
@@ -82,3 +249,72 @@ export async function parseSitemap(sitemapUrl: string): Promise<string[]> {
   }
 }
 
+/**
+ * Read the response body as text, decompressing gzip if needed
+ * .xml.gz files are usually served without Content-Encoding, so fetch does not decode them
+ */
+async function readSitemapBody(response: Response): Promise<string> {
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  const isGzip = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+  if (isGzip) {
+    const decompressed = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(decompressed).text();
+  }
+
+  return new TextDecoder().decode(bytes);
+}
+
+function parseTextSitemap(text: string): SitemapEntry[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => {
+      try {
+        const parsed = new URL(line);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+      } catch {
+        return false;
+      }
+    })
+    .map((url) => ({ url }));
+}
+
+function parseLastmod(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parsePriority(value: unknown): number | undefined {
+  const priority = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(priority)) {
+    return undefined;
+  }
+  return Math.min(1, Math.max(0, priority));
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Parse several sitemaps and merge their entries, dropping duplicate URLs
+ */
+export async function parseSitemaps(sitemapUrls: string[]): Promise<SitemapEntry[]> {
+  const allEntries = new Map<string, SitemapEntry>();
+  for (const sitemapUrl of sitemapUrls) {
+    const entries = await parseSitemap(sitemapUrl);
+    for (const entry of entries) {
+      if (!allEntries.has(entry.url)) {
+        allEntries.set(entry.url, entry);
+      }
+    }
+  }
+  return Array.from(allEntries.values());
+}
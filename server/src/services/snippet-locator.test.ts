@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { locateSnippet, shiftLocation } from './snippet-locator';
+
+const content =
+  '# Esstisch Nordic\n\nDer **massive** Tisch aus „Eiche“ bietet Platz für acht Personen.\n\nLieferzeit: 2–3 Wochen.';
+
+const located = (snippet: string) => {
+  const location = locateSnippet(content, snippet);
+  return location && { text: content.slice(location.start, location.end), confidence: location.confidence };
+};
+
+describe('locateSnippet', () => {
+  it('finds exact quotes with full confidence', () => {
+    const start = content.indexOf('bietet Platz');
+    expect(locateSnippet(content, 'bietet Platz')).toEqual({ start, end: start + 12, confidence: 1 });
+  });
+
+  it('finds quotes that differ in case, whitespace, quotes or markdown', () => {
+    expect(located('der massive tisch aus "Eiche" bietet')).toEqual({
+      text: 'Der **massive** Tisch aus „Eiche“ bietet',
+      confidence: 0.95,
+    });
+    expect(located('Lieferzeit:   2-3 Wochen')).toEqual({ text: 'Lieferzeit: 2–3 Wochen', confidence: 0.95 });
+  });
+
+  it('ignores ellipses and quotes around a shortened quote', () => {
+    expect(located('…Platz für acht Personen…')?.text).toBe('Platz für acht Personen');
+  });
+
+  it('finds quotes with small typos at a lower confidence', () => {
+    const location = located('bietet Plaz für acht Persohnen');
+
+    expect(location?.text).toBe('bietet Platz für acht Personen');
+    expect(location?.confidence).toBeLessThan(0.95);
+    expect(location?.confidence).toBeGreaterThanOrEqual(0.75);
+  });
+
+  it('finds quotes with small typos in long content near an unchanged word', () => {
+    const filler = 'Unsere Möbel werden in der eigenen Werkstatt gefertigt. '.repeat(2000);
+    const longContent = `${filler}Die Tischplatte wird mit natürlichem Hartwachsöl behandelt.${filler}`;
+    const location = locateSnippet(longContent, 'Die Tischplate wird mit natürlichem Hartwaxöl behandelt');
+
+    expect(location && longContent.slice(location.start, location.end)).toBe(
+      'Die Tischplatte wird mit natürlichem Hartwachsöl behandelt'
+    );
+    expect(location?.confidence).toBeGreaterThanOrEqual(0.75);
+  });
+
+  it('returns null for text that is not on the page', () => {
+    expect(locateSnippet(content, 'Versandkostenfrei ab 50 Euro')).toBeNull();
+    expect(locateSnippet(content, 'Stuhl')).toBeNull();
+    expect(locateSnippet(content, '   ')).toBeNull();
+  });
+});
+
+describe('shiftLocation', () => {
+  it('moves a location by the chunk offset', () => {
+    expect(shiftLocation({ start: 2, end: 5, confidence: 1 }, 100)).toEqual({ start: 102, end: 105, confidence: 1 });
+    expect(shiftLocation(null, 100)).toBeNull();
+  });
+});
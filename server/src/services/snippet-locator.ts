@@ -0,0 +1,218 @@
+/**
+ * Locate issue snippets in the stored page content
+ * The AI quotes loosely (other quotes, collapsed whitespace, markdown removed, small typos),
+ * so an exact search is followed by a normalized and then an approximate one
+ */
+
+export interface SnippetLocation {
+  start: number; // Offsets in the page content, end exclusive
+  end: number;
+  confidence: number; // 1 = exact match, lower = approximate (0-1)
+}
+
+const NORMALIZED_CONFIDENCE = 0.95; // Same text apart from case, whitespace, quotes or markdown
+const MIN_FUZZY_CONFIDENCE = 0.75; // Share of the snippet that has to match
+const MIN_FUZZY_LENGTH = 8; // Shorter snippets match almost anywhere
+const MAX_FUZZY_CELLS = 1_000_000; // Snippet length x searched content length, keeps the search in the low milliseconds
+const MIN_ANCHOR_LENGTH = 5; // Words of the snippet that are looked up to find where to search in long content
+
+// Characters replaced (or dropped, when mapped to '') before comparing
+const NORMALIZED_CHARS: Record<string, string> = {
+  '„': '"', '“': '"', '”': '"', '«': '"', '»': '"',
+  '‚': "'", '‘': "'", '’': "'", '`': "'",
+  '–': '-', '—': '-', '‑': '-',
+  '…': '...',
+  '*': '', '_': '', '#': '',
+};
+
+interface NormalizedText {
+  text: string;
+  positions: number[]; // Index in the original text for every character of text
+}
+
+/**
+ * Find a snippet in the content; null if it is not there with enough confidence
+ */
+export function locateSnippet(content: string, snippet: string): SnippetLocation | null {
+  const needle = snippet.trim();
+  if (!needle) return null;
+
+  const index = content.indexOf(needle);
+  if (index !== -1) {
+    return { start: index, end: index + needle.length, confidence: 1 };
+  }
+
+  // Leading/trailing ellipses and quotes mark a shortened quote, not page text
+  const normalizedNeedle = normalize(needle.replace(/^["'„“‚‘»«\s.…]+|["'“”‘’«»\s.…]+$/g, '')).text;
+  if (!normalizedNeedle) return null;
+  const normalizedContent = normalize(content);
+
+  const normalizedIndex = normalizedContent.text.indexOf(normalizedNeedle);
+  if (normalizedIndex !== -1) {
+    return toLocation(normalizedContent, normalizedIndex, normalizedIndex + normalizedNeedle.length, NORMALIZED_CONFIDENCE);
+  }
+
+  if (normalizedNeedle.length < MIN_FUZZY_LENGTH) return null;
+
+  const match = fuzzySearch(normalizedContent.text, normalizedNeedle);
+  if (!match) return null;
+  const confidence = 1 - match.distance / normalizedNeedle.length;
+  if (confidence < MIN_FUZZY_CONFIDENCE) return null;
+
+  return toLocation(normalizedContent, match.start, match.end, Math.min(confidence, NORMALIZED_CONFIDENCE));
+}
+
+/**
+ * Let other work (e.g. lease heartbeats of the job processor) run between snippet searches
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Move a location found in a part of the content (e.g. an analysis chunk) to full-content offsets
+ */
+export function shiftLocation(location: SnippetLocation | null, by: number): SnippetLocation | null {
+  return location && { ...location, start: location.start + by, end: location.end + by };
+}
+
+function toLocation(normalized: NormalizedText, start: number, end: number, confidence: number): SnippetLocation {
+  return {
+    start: normalized.positions[start],
+    end: normalized.positions[end - 1] + 1,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
+
+// Lower case, single spaces, unified quotes and dashes, no markdown emphasis
+function normalize(text: string): NormalizedText {
+  let result = '';
+  const positions: number[] = [];
+  let lastWasSpace = true; // Also drops leading whitespace
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      if (!lastWasSpace) {
+        result += ' ';
+        positions.push(i);
+      }
+      lastWasSpace = true;
+      continue;
+    }
+
+    const lower = char.toLowerCase();
+    const replacement = NORMALIZED_CHARS[char] ?? (lower.length === 1 ? lower : char);
+    for (const replaced of replacement) {
+      result += replaced;
+      positions.push(i);
+    }
+    if (replacement) lastWasSpace = false;
+  }
+
+  return { text: result, positions };
+}
+
+/**
+ * Approximate search, over the whole text if it is short enough, otherwise only in windows around
+ * the places where a word of the pattern occurs unchanged
+ */
+function fuzzySearch(text: string, pattern: string): { start: number; end: number; distance: number } | null {
+  if (pattern.length * text.length <= MAX_FUZZY_CELLS) {
+    return approximateMatch(text, pattern);
+  }
+
+  // A match with enough confidence is at most this much longer or shorter than the pattern
+  const slack = Math.ceil(pattern.length * (1 - MIN_FUZZY_CONFIDENCE));
+
+  let best: { start: number; end: number; distance: number } | null = null;
+  for (const [start, end] of anchorWindows(text, pattern, slack)) {
+    const match = approximateMatch(text.slice(start, end), pattern);
+    if (!best || match.distance < best.distance) {
+      best = { start: start + match.start, end: start + match.end, distance: match.distance };
+    }
+  }
+  return best;
+}
+
+/**
+ * Ranges of text where the pattern would be if one of its words is unchanged, merged where they overlap
+ * Longer (rarer) words are looked up first, until the windows reach MAX_FUZZY_CELLS
+ */
+function anchorWindows(text: string, pattern: string, slack: number): Array<[number, number]> {
+  const words = new Map<string, number>();
+  for (const word of pattern.matchAll(/\S+/g)) {
+    if (word[0].length >= MIN_ANCHOR_LENGTH && !words.has(word[0])) {
+      words.set(word[0], word.index ?? 0);
+    }
+  }
+
+  const windows: Array<[number, number]> = [];
+  const maxWindows = Math.floor(MAX_FUZZY_CELLS / (pattern.length * (pattern.length + 2 * slack)));
+  const byLength = [...words].sort(([a], [b]) => b.length - a.length);
+  for (const [word, offset] of byLength) {
+    let index = text.indexOf(word);
+    while (index !== -1 && windows.length < maxWindows) {
+      const start = Math.max(0, index - offset - slack);
+      windows.push([start, Math.min(text.length, start + pattern.length + 2 * slack)]);
+      index = text.indexOf(word, index + 1);
+    }
+  }
+
+  windows.sort(([a], [b]) => a - b);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of windows) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Substring of text with the smallest edit distance to pattern (Sellers' algorithm)
+ */
+function approximateMatch(text: string, pattern: string): { start: number; end: number; distance: number } {
+  const m = pattern.length;
+  let previous = new Int32Array(m + 1);
+  let current = new Int32Array(m + 1);
+  let previousStart = new Int32Array(m + 1);
+  let currentStart = new Int32Array(m + 1);
+  for (let i = 0; i <= m; i++) previous[i] = i;
+
+  let best = { start: 0, end: 0, distance: m };
+
+  for (let j = 1; j <= text.length; j++) {
+    current[0] = 0; // The match may start anywhere in the text
+    currentStart[0] = j;
+
+    for (let i = 1; i <= m; i++) {
+      const substitution = previous[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      const skipText = previous[i] + 1;
+      const skipPattern = current[i - 1] + 1;
+
+      if (substitution <= skipText && substitution <= skipPattern) {
+        current[i] = substitution;
+        currentStart[i] = previousStart[i - 1];
+      } else if (skipText <= skipPattern) {
+        current[i] = skipText;
+        currentStart[i] = previousStart[i];
+      } else {
+        current[i] = skipPattern;
+        currentStart[i] = currentStart[i - 1];
+      }
+    }
+
+    if (current[m] < best.distance) {
+      best = { start: currentStart[m], end: j, distance: current[m] };
+    }
+
+    [previous, current] = [current, previous];
+    [previousStart, currentStart] = [currentStart, previousStart];
+  }
+
+  return best;
+}
@@ -0,0 +1,346 @@
+/**
+ * Custom checks (brand style guide) and the issue types they report
+ * Term and pattern rules run locally like the built-in rule checks, "ai" rules are added to the prompt
+ */
+
+import { getDatabase } from '../lib/db';
+import { issueTypes, styleRules, type IssueTypeRecord, type StyleRule } from '../schema/audits';
+import { eq, and, or, isNull, asc, desc } from 'drizzle-orm';
+import type { AiCheck, AnalysisIssue, Severity } from './ai-analyzer';
+
+export type StyleRuleKind = 'forbidden_terms' | 'required_spelling' | 'pattern' | 'ai';
+
+export const STYLE_RULE_KINDS: StyleRuleKind[] = ['forbidden_terms', 'required_spelling', 'pattern', 'ai'];
+
+// Badge colors the UI knows
+export const ISSUE_TYPE_COLORS = ['gray', 'blue', 'yellow', 'red', 'orange', 'purple', 'teal', 'pink', 'indigo', 'green'];
+
+export interface IssueTypeInput {
+  key: string;
+  label: string;
+  description: string | null;
+  color: string;
+  shared: boolean; // Visible to every user
+}
+
+export interface StyleRuleInput {
+  issueType: string;
+  name: string;
+  kind: StyleRuleKind;
+  terms: string[];
+  pattern: string | null;
+  instruction: string | null;
+  severity: Severity;
+  suggestion: string | null;
+  enabled: boolean;
+  shared: boolean; // Applies to the audits of every user
+}
+
+const ISSUE_TYPE_KEY_PATTERN = /^[a-z][a-z0-9_]{1,39}$/;
+const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+const PATTERN_FLAGS = 'giu';
+const MAX_TEXT_LENGTH = 500;
+const MAX_TERMS = 200;
+export const MAX_PATTERN_LENGTH = 200; // Patterns run synchronously on the job worker, so they are kept simple
+const MAX_ISSUES_PER_RULE = 5; // Same cap as the built-in rule checks
+const SNIPPET_CONTEXT = 60; // Characters around a match shown in the snippet
+
+/**
+ * Validate an issue type from a request body
+ * Throws an Error with a user-facing message if invalid
+ */
+export function validateIssueTypeInput(input: unknown): IssueTypeInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Request body must be an object');
+  }
+
+  const { key, label, description, color, shared } = input as Record<string, unknown>;
+
+  if (typeof key !== 'string' || !ISSUE_TYPE_KEY_PATTERN.test(key)) {
+    throw new Error('key must be 2-40 lowercase letters, digits or underscores, starting with a letter');
+  }
+  if (typeof label !== 'string' || !label.trim() || label.length > 50) {
+    throw new Error('label must be a non-empty string of at most 50 characters');
+  }
+  const hasDescription = description !== undefined && description !== null;
+  if (hasDescription && (typeof description !== 'string' || description.length > MAX_TEXT_LENGTH)) {
+    throw new Error(`description must be a string of at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  if (color !== undefined && (typeof color !== 'string' || !ISSUE_TYPE_COLORS.includes(color))) {
+    throw new Error(`color must be one of: ${ISSUE_TYPE_COLORS.join(', ')}`);
+  }
+  if (shared !== undefined && typeof shared !== 'boolean') {
+    throw new Error('shared must be a boolean');
+  }
+
+  return {
+    key,
+    label: label.trim(),
+    description: (description as string | null | undefined)?.trim() || null,
+    color: (color as string | undefined) ?? 'gray',
+    shared: shared ?? false,
+  };
+}
+
+/**
+ * Validate a style rule from a request body (snake_case keys)
+ * Each kind needs its own field: terms, pattern or instruction
+ * Throws an Error with a user-facing message if invalid
+ */
+export function validateStyleRuleInput(input: unknown): StyleRuleInput {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Request body must be an object');
+  }
+
+  const { issue_type, name, kind, terms, pattern, instruction, severity, suggestion, enabled, shared } =
+    input as Record<string, unknown>;
+
+  if (typeof issue_type !== 'string' || !issue_type) {
+    throw new Error('issue_type is required');
+  }
+  if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+    throw new Error('name must be a non-empty string of at most 100 characters');
+  }
+  if (!STYLE_RULE_KINDS.includes(kind as StyleRuleKind)) {
+    throw new Error(`kind must be one of: ${STYLE_RULE_KINDS.join(', ')}`);
+  }
+  if (severity !== undefined && !SEVERITIES.includes(severity as Severity)) {
+    throw new Error(`severity must be one of: ${SEVERITIES.join(', ')}`);
+  }
+  const hasSuggestion = suggestion !== undefined && suggestion !== null;
+  if (hasSuggestion && (typeof suggestion !== 'string' || suggestion.length > MAX_TEXT_LENGTH)) {
+    throw new Error(`suggestion must be a string of at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error('enabled must be a boolean');
+  }
+  if (shared !== undefined && typeof shared !== 'boolean') {
+    throw new Error('shared must be a boolean');
+  }
+
+  const rule: StyleRuleInput = {
+    issueType: issue_type,
+    name: name.trim(),
+    kind: kind as StyleRuleKind,
+    terms: [],
+    pattern: null,
+    instruction: null,
+    severity: (severity as Severity | undefined) ?? 'medium',
+    suggestion: (suggestion as string | null | undefined)?.trim() || null,
+    enabled: enabled ?? true,
+    shared: shared ?? false,
+  };
+
+  if (rule.kind === 'forbidden_terms' || rule.kind === 'required_spelling') {
+    if (!Array.isArray(terms) || terms.some((term) => typeof term !== 'string')) {
+      throw new Error('terms must be an array of strings');
+    }
+    rule.terms = Array.from(new Set(terms.map((term: string) => term.trim()).filter(Boolean)));
+    if (rule.terms.length === 0 || rule.terms.length > MAX_TERMS) {
+      throw new Error(`terms must contain 1 to ${MAX_TERMS} entries`);
+    }
+  } else if (rule.kind === 'pattern') {
+    if (typeof pattern !== 'string' || !pattern) {
+      throw new Error('pattern must be a regular expression');
+    }
+    const regex = compileStylePattern(pattern);
+    if (regex.test('')) {
+      throw new Error('pattern must not match empty text');
+    }
+    rule.pattern = pattern;
+  } else {
+    if (typeof instruction !== 'string' || !instruction.trim() || instruction.length > MAX_TEXT_LENGTH) {
+      throw new Error(`instruction must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    rule.instruction = instruction.trim();
+  }
+
+  return rule;
+}
+
+/**
+ * Issue types visible to a user: built-in, shared and the user's own
+ */
+export async function getIssueTypes(userId?: string | null): Promise<IssueTypeRecord[]> {
+  const db = await getDatabase();
+  return db
+    .select()
+    .from(issueTypes)
+    .where(userId ? or(isNull(issueTypes.user_id), eq(issueTypes.user_id, userId)) : isNull(issueTypes.user_id))
+    .orderBy(desc(issueTypes.is_builtin), asc(issueTypes.label));
+}
+
+/**
+ * Check that a rule reports an issue type the user can see (shared rules need a shared type)
+ * Throws an Error with a user-facing message if not
+ */
+export async function validateStyleRuleIssueType(rule: StyleRuleInput, userId?: string | null): Promise<void> {
+  const issueType = (await getIssueTypes(userId)).find((type) => type.key === rule.issueType);
+  if (!issueType) {
+    throw new Error(`Unknown issue_type: ${rule.issueType}`);
+  }
+  if (rule.shared && issueType.user_id) {
+    throw new Error('Shared rules need a built-in or shared issue type');
+  }
+}
+
+/**
+ * Style rules of a user plus the shared ones (onlyEnabled for the analysis)
+ */
+export async function getStyleRules(userId?: string | null, onlyEnabled = false): Promise<StyleRule[]> {
+  const db = await getDatabase();
+  const visible = userId ? or(isNull(styleRules.user_id), eq(styleRules.user_id, userId)) : isNull(styleRules.user_id);
+  return db
+    .select()
+    .from(styleRules)
+    .where(onlyEnabled ? and(visible, eq(styleRules.enabled, true)) : visible)
+    .orderBy(asc(styleRules.name));
+}
+
+/**
+ * Whether a repeated group contains a quantifier or alternation, e.g. (a+)+ or (a|ab)*
+ * Such patterns backtrack exponentially on text that almost matches
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier or alternation
+  const groups = [{ variable: false }];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ variable: false });
+      if (pattern[i + 1] === '?') i++; // (?:, (?=, (?<name> – the marker is no quantifier
+    } else if (char === ')' && groups.length > 1) {
+      const group = groups.pop()!;
+      const repeated = ['*', '+', '{'].includes(pattern[i + 1]);
+      if (repeated && group.variable) return true;
+      groups[groups.length - 1].variable ||= group.variable || repeated;
+    } else if (['*', '+', '?', '{', '|'].includes(char)) {
+      groups[groups.length - 1].variable = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compile a pattern rule
+ * Throws an Error with a user-facing message if it is invalid or could hang the worker
+ */
+function compileStylePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+  if (hasNestedQuantifier(pattern)) {
+    throw new Error('pattern must not repeat a group that contains a quantifier or alternation, e.g. (a+)+');
+  }
+  try {
+    return new RegExp(pattern, PATTERN_FLAGS);
+  } catch (error) {
+    throw new Error(`pattern is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Run the term and pattern rules on page content
+ * Pattern rules saved before the checks in compileStylePattern existed are skipped if they fail them
+ */
+export function runStyleRules(content: string, rules: StyleRule[]): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+
+  for (const rule of rules) {
+    const found: { match: RegExpMatchArray; description: string; suggestion?: string }[] = [];
+
+    if (rule.kind === 'forbidden_terms') {
+      for (const term of rule.terms) {
+        for (const match of content.matchAll(termPattern(term, '[\\s-]+'))) {
+          const description = `Unerwünschter Begriff „${match[0]}“ (${rule.name})`;
+          found.push({ match, description, suggestion: 'Begriff entfernen oder ersetzen' });
+        }
+      }
+    } else if (rule.kind === 'required_spelling') {
+      for (const term of rule.terms) {
+        // Variants differ in case, spaces or hyphens ("I-Phone", "iphone")
+        for (const match of content.matchAll(termPattern(term, '[\\s-]*'))) {
+          if (match[0] === term) continue;
+          const description = `Schreibweise „${match[0]}“ statt „${term}“ (${rule.name})`;
+          found.push({ match, description, suggestion: `„${term}“ schreiben` });
+        }
+      }
+    } else if (rule.kind === 'pattern' && rule.pattern) {
+      let regex: RegExp;
+      try {
+        regex = compileStylePattern(rule.pattern);
+      } catch (error) {
+        console.warn(`⚠️ Skipping style rule ${rule.id}: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+      for (const match of content.matchAll(regex)) {
+        if (match[0]) found.push({ match, description: `${rule.name}: „${match[0]}“` });
+      }
+    }
+
+    // Overlapping terms ("Möbel-Konkurrent", "Konkurrent") count once, the earlier match wins
+    let coveredUntil = -1;
+    const ruleIssues: AnalysisIssue[] = [];
+    for (const { match, description, suggestion } of found.sort((a, b) => a.match.index! - b.match.index!)) {
+      if (match.index! < coveredUntil) continue;
+      coveredUntil = match.index! + match[0].length;
+      ruleIssues.push(styleIssue(rule, content, match, description, suggestion));
+    }
+
+    issues.push(...ruleIssues.slice(0, MAX_ISSUES_PER_RULE));
+  }
+
+  return issues;
+}
+
+/**
+ * Rules that need judgement, as checks for the AI prompt
+ */
+export function getAiChecks(rules: StyleRule[]): AiCheck[] {
+  return rules
+    .filter((rule) => rule.kind === 'ai' && rule.instruction)
+    .map((rule) => ({ type: rule.issue_type, instruction: rule.instruction! }));
+}
+
+// Whole-word, case-insensitive match of a term; separator replaces the spaces/hyphens inside it
+function termPattern(term: string, separator: string): RegExp {
+  const body = term
+    .split(/[\s-]+/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join(separator);
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, PATTERN_FLAGS);
+}
+
+function styleIssue(
+  rule: StyleRule,
+  content: string,
+  match: RegExpMatchArray,
+  description: string,
+  defaultSuggestion?: string
+): AnalysisIssue {
+  const index = match.index!;
+  const lineStart = content.lastIndexOf('\n', index) + 1;
+  const lineEnd = content.indexOf('\n', index + match[0].length);
+  const start = Math.max(lineStart, index - SNIPPET_CONTEXT);
+  const end = Math.min(lineEnd === -1 ? content.length : lineEnd, index + match[0].length + SNIPPET_CONTEXT);
+  const raw = content.slice(start, end);
+  const snippetStart = start + (raw.length - raw.trimStart().length);
+
+  return {
+    type: rule.issue_type,
+    severity: rule.severity,
+    description,
+    snippet: raw.trim(),
+    suggestion: rule.suggestion || defaultSuggestion,
+    source: 'rule',
+    location: { start: snippetStart, end: snippetStart + raw.trim().length, confidence: 1 },
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { applyUrlFilter, validateUrlFilterConfig } from './url-filter';
+
+const entries = (...paths: string[]) => paths.map((path) => ({ url: `https://example.com${path}` }));
+const urls = (result: { url: string }[]) => result.map((entry) => entry.url.replace('https://example.com', ''));
+
+describe('applyUrlFilter', () => {
+  const pages = entries('/', '/produkte/tisch', '/produkte/stuhl/eiche', '/blog/neu', '/blog/alt?page=2');
+
+  it('matches globs against the path', () => {
+    expect(urls(applyUrlFilter(pages, { include: ['/produkte/*'] }))).toEqual(['/produkte/tisch']);
+    expect(urls(applyUrlFilter(pages, { include: ['/produkte/**'] }))).toEqual([
+      '/produkte/tisch',
+      '/produkte/stuhl/eiche',
+    ]);
+  });
+
+  it('matches globs against the path plus query', () => {
+    expect(urls(applyUrlFilter(pages, { exclude: ['/blog/*?page=*'] }))).toEqual([
+      '/',
+      '/produkte/tisch',
+      '/produkte/stuhl/eiche',
+      '/blog/neu',
+    ]);
+  });
+
+  it('matches globs with a scheme against the full URL', () => {
+    const mixed = [...pages, { url: 'https://shop.example.com/produkte/tisch' }];
+    expect(applyUrlFilter(mixed, { include: ['https://shop.example.com/**'] })).toEqual([
+      { url: 'https://shop.example.com/produkte/tisch' },
+    ]);
+  });
+
+  it('treats slash-delimited patterns as globs, not regular expressions', () => {
+    expect(urls(applyUrlFilter(entries('/blog/', '/blog/neu'), { include: ['/blog/'] }))).toEqual(['/blog/']);
+  });
+
+  it('matches re: patterns as regular expressions against the full URL', () => {
+    expect(urls(applyUrlFilter(pages, { include: ['re:/(tisch|stuhl)'] }))).toEqual([
+      '/produkte/tisch',
+      '/produkte/stuhl/eiche',
+    ]);
+    expect(urls(applyUrlFilter(pages, { include: ['re:/BLOG/NEU$/i'] }))).toEqual(['/blog/neu']);
+  });
+
+  it('applies excludes after includes', () => {
+    expect(urls(applyUrlFilter(pages, { include: ['/produkte/**'], exclude: ['**/eiche'] }))).toEqual([
+      '/produkte/tisch',
+    ]);
+  });
+
+  it('caps the result at max_urls', () => {
+    expect(applyUrlFilter(pages, { max_urls: 2 })).toEqual(pages.slice(0, 2));
+  });
+
+  it('samples every section when sampling', () => {
+    const many = entries(...Array.from({ length: 20 }, (_, i) => `/produkte/${i}`), '/blog/a', '/blog/b', '/kontakt');
+    const sample = applyUrlFilter(many, { max_urls: 5, sample: true });
+
+    expect(sample).toHaveLength(5);
+    const sections = new Set(urls(sample).map((path) => path.split('/')[1]));
+    expect(sections).toEqual(new Set(['produkte', 'blog', 'kontakt']));
+  });
+});
+
+describe('validateUrlFilterConfig', () => {
+  it('drops empty patterns and keeps the rest', () => {
+    expect(validateUrlFilterConfig({ include: [' /a/** ', ''], exclude: [] })).toEqual({ include: ['/a/**'] });
+    expect(validateUrlFilterConfig(undefined)).toEqual({});
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(() => validateUrlFilterConfig({ include: ['re:(unclosed'] })).toThrow(
+      'Invalid pattern in url_filter.include: re:(unclosed'
+    );
+  });
+
+  it('rejects regular expressions prone to catastrophic backtracking', () => {
+    expect(() => validateUrlFilterConfig({ include: ['re:(a+)+$'] })).toThrow('must not repeat a group');
+    expect(() => validateUrlFilterConfig({ exclude: [`re:${'a'.repeat(201)}`] })).toThrow(
+      'regular expressions must be at most 200 characters'
+    );
+  });
+
+  it('rejects the stateful g and y flags', () => {
+    expect(() => validateUrlFilterConfig({ exclude: ['re:/tisch/g'] })).toThrow('the g and y flags are not supported');
+    expect(() => validateUrlFilterConfig({ exclude: ['re:/tisch/y'] })).toThrow('the g and y flags are not supported');
+  });
+
+  it('requires max_urls for sampling', () => {
+    expect(() => validateUrlFilterConfig({ sample: true })).toThrow('url_filter.sample requires max_urls');
+    expect(() => validateUrlFilterConfig({ max_urls: 0 })).toThrow('url_filter.max_urls must be a positive integer');
+  });
+});
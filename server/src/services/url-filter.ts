@@ -0,0 +1,224 @@
+import type { UrlFilterConfig } from '../schema/audits';
+import { hasNestedQuantifier, MAX_PATTERN_LENGTH } from './style-rules';
+
+// Prefix of patterns that are regular expressions ("re:source" or "re:/source/flags")
+const REGEX_PREFIX = 're:';
+
+/**
+ * Compile an include/exclude pattern
+ * "re:..." is a regular expression matched against the full URL, everything else a glob
+ * (so "/produkte/" is a path): "**" matches anything, "*" anything except "/", "?" a single
+ * character. Globs containing "://" match the full URL, all others the path (plus query).
+ * Throws an Error with a user-facing message if the regular expression is invalid, too long or
+ * prone to catastrophic backtracking (same limits as style rule patterns)
+ */
+function compilePattern(pattern: string): (url: URL) => boolean {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    const body = pattern.slice(REGEX_PREFIX.length);
+    const [, source, flags] = body.match(/^\/(.+)\/([a-z]*)$/) ?? [null, body, ''];
+    // g and y make test() continue at lastIndex, so the next URL would be matched from there
+    if (/[gy]/.test(flags)) {
+      throw new Error('the g and y flags are not supported');
+    }
+    if (source.length > MAX_PATTERN_LENGTH) {
+      throw new Error(`regular expressions must be at most ${MAX_PATTERN_LENGTH} characters`);
+    }
+    if (hasNestedQuantifier(source)) {
+      throw new Error('regular expressions must not repeat a group that contains a quantifier or alternation, e.g. (a+)+');
+    }
+    const regex = new RegExp(source, flags);
+    return (url) => regex.test(url.toString());
+  }
+
+  const source = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '.')
+    )
+    .join('.*');
+  const regex = new RegExp(`^${source}$`, 'i');
+
+  if (pattern.includes('://')) {
+    return (url) => regex.test(url.toString());
+  }
+  return (url) => regex.test(url.pathname) || regex.test(url.pathname + url.search);
+}
+
+/**
+ * Validate a filter config from a request body
+ * Throws with a user-facing message if the config is malformed
+ */
+export function validateUrlFilterConfig(input: unknown): UrlFilterConfig {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('url_filter must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const config: UrlFilterConfig = {};
+
+  for (const key of ['include', 'exclude'] as const) {
+    const patterns = raw[key];
+    if (patterns === undefined) {
+      continue;
+    }
+    if (!Array.isArray(patterns) || patterns.some((p) => typeof p !== 'string')) {
+      throw new Error(`url_filter.${key} must be an array of patterns`);
+    }
+    const cleaned = (patterns as string[]).map((p) => p.trim()).filter((p) => p.length > 0);
+    for (const pattern of cleaned) {
+      try {
+        compilePattern(pattern);
+      } catch (error) {
+        throw new Error(`Invalid pattern in url_filter.${key}: ${pattern} (${error instanceof Error ? error.message : error})`);
+      }
+    }
+    if (cleaned.length > 0) {
+      config[key] = cleaned;
+    }
+  }
+
+  if (raw.max_urls !== undefined) {
+    if (typeof raw.max_urls !== 'number' || !Number.isInteger(raw.max_urls) || raw.max_urls < 1) {
+      throw new Error('url_filter.max_urls must be a positive integer');
+    }
+    config.max_urls = raw.max_urls;
+  }
+
+  if (raw.sample !== undefined) {
+    if (typeof raw.sample !== 'boolean') {
+      throw new Error('url_filter.sample must be a boolean');
+    }
+    config.sample = raw.sample;
+  }
+
+  if (raw.sample_depth !== undefined) {
+    if (
+      typeof raw.sample_depth !== 'number' ||
+      !Number.isInteger(raw.sample_depth) ||
+      raw.sample_depth < 1
+    ) {
+      throw new Error('url_filter.sample_depth must be a positive integer');
+    }
+    config.sample_depth = raw.sample_depth;
+  }
+
+  if (config.sample && !config.max_urls) {
+    throw new Error('url_filter.sample requires max_urls');
+  }
+
+  return config;
+}
+
+/**
+ * Apply include/exclude patterns, then cap the result at max_urls
+ * With sample enabled the cap is filled by a stratified random sample
+ */
+export function applyUrlFilter<T extends { url: string }>(entries: T[], config: UrlFilterConfig): T[] {
+  const includes = (config.include || []).map(compilePattern);
+  const excludes = (config.exclude || []).map(compilePattern);
+
+  let filtered = entries.filter((entry) => {
+    let url: URL;
+    try {
+      url = new URL(entry.url);
+    } catch {
+      return false;
+    }
+    if (includes.length > 0 && !includes.some((matches) => matches(url))) {
+      return false;
+    }
+    return !excludes.some((matches) => matches(url));
+  });
+
+  if (config.max_urls && filtered.length > config.max_urls) {
+    filtered = config.sample
+      ? stratifiedSample(filtered, config.max_urls, config.sample_depth || 1)
+      : filtered.slice(0, config.max_urls);
+  }
+
+  return filtered;
+}
+
+/**
+ * Group URLs by their first `depth` path segments and sample each group
+ * proportionally to its size, so small sections are still represented
+ */
+function stratifiedSample<T extends { url: string }>(entries: T[], size: number, depth: number): T[] {
+  const groups = new Map<string, T[]>();
+  for (const entry of entries) {
+    const prefix = getPathPrefix(entry.url, depth);
+    const group = groups.get(prefix) || [];
+    group.push(entry);
+    groups.set(prefix, group);
+  }
+
+  // Largest remainder allocation, with at least one URL per group while the budget allows
+  const sortedGroups = Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+  const quotas = new Map<string, number>();
+  let remaining = size;
+
+  for (const [prefix] of sortedGroups) {
+    if (remaining === 0) break;
+    quotas.set(prefix, 1);
+    remaining--;
+  }
+
+  if (remaining > 0) {
+    const total = entries.length;
+    const shares = sortedGroups.map(([prefix, group]) => {
+      const exact = (group.length / total) * remaining;
+      return { prefix, exact, floor: Math.floor(exact) };
+    });
+
+    for (const share of shares) {
+      const group = groups.get(share.prefix)!;
+      const current = quotas.get(share.prefix) || 0;
+      const extra = Math.min(share.floor, group.length - current);
+      quotas.set(share.prefix, current + extra);
+      remaining -= extra;
+    }
+
+    shares.sort((a, b) => (b.exact - b.floor) - (a.exact - a.floor));
+    while (remaining > 0) {
+      let allocated = false;
+      for (const share of shares) {
+        if (remaining === 0) break;
+        const group = groups.get(share.prefix)!;
+        const current = quotas.get(share.prefix) || 0;
+        if (current < group.length) {
+          quotas.set(share.prefix, current + 1);
+          remaining--;
+          allocated = true;
+        }
+      }
+      if (!allocated) break;
+    }
+  }
+
+  const sample: T[] = [];
+  for (const [prefix, quota] of quotas) {
+    sample.push(...shuffle(groups.get(prefix)!).slice(0, quota));
+  }
+  return sample;
+}
+
+function getPathPrefix(rawUrl: string, depth: number): string {
+  const url = new URL(rawUrl);
+  const segments = url.pathname.split('/').filter((segment) => segment.length > 0);
+  return `${url.host}/${segments.slice(0, depth).join('/')}`;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
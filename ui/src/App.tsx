@@ -11,6 +11,10 @@ import { Page2 } from '@/pages/Page2';
 import { Audits } from '@/pages/Audits';
 import { NewAudit } from '@/pages/NewAudit';
 import { AuditDetail } from '@/pages/AuditDetail';
+import { AuditPageDetail } from '@/pages/AuditPageDetail';
+import { AuditCompare } from '@/pages/AuditCompare';
+import { Schedules } from '@/pages/Schedules';
+import { Jobs } from '@/pages/Jobs';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import {
   SidebarProvider,
@@ -74,6 +78,10 @@ function AppContent() {
                   <Route path="/audits" element={<Audits />} />
                   <Route path="/audits/new" element={<NewAudit />} />
                   <Route path="/audits/:id" element={<AuditDetail />} />
+                  <Route path="/audits/:id/pages/:pageId" element={<AuditPageDetail />} />
+                  <Route path="/audits/:id/compare" element={<AuditCompare />} />
+                  <Route path="/schedules" element={<Schedules />} />
+                  <Route path="/jobs" element={<Jobs />} />
                 </Routes>
               </main>
             </SidebarInset>
@@ -4,8 +4,11 @@ import {
   FileText,
   Layers,
   ClipboardCheck,
+  CalendarClock,
+  ListX,
 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
+import { useAuth } from "@/lib/auth-context";
 import {
   Sidebar,
   SidebarContent,
@@ -20,6 +23,7 @@ import {
 
 export function AppSidebar() {
   const location = useLocation();
+  const { userProfile } = useAuth();
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -46,6 +50,24 @@ export function AppSidebar() {
                   </Link>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton tooltip="Zeitpläne" isActive={isActive('/schedules')} asChild>
+                  <Link to="/schedules">
+                    <CalendarClock className="w-4 h-4" />
+                    <span>Zeitpläne</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              {userProfile?.is_admin && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton tooltip="Fehlgeschlagene Jobs" isActive={isActive('/jobs')} asChild>
+                    <Link to="/jobs">
+                      <ListX className="w-4 h-4" />
+                      <span>Fehlgeschlagene Jobs</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
               <SidebarMenuItem>
                 <SidebarMenuButton tooltip="Page 1" isActive={isActive('/page1')} asChild>
                   <Link to="/page1">
@@ -4,6 +4,7 @@ interface AuditProgressProps {
   total: number;
   completed: number;
   failed: number;
+  skipped?: number;
   pending: number;
   percentage: number;
   className?: string;
@@ -13,6 +14,7 @@ export function AuditProgress({
   total,
   completed,
   failed,
+  skipped = 0,
   pending,
   percentage,
   className,
@@ -39,6 +41,11 @@ export function AuditProgress({
             Fehler: {failed}
           </span>
         )}
+        {skipped > 0 && (
+          <span>
+            Übersprungen (andere Sprache): {skipped}
+          </span>
+        )}
         {pending > 0 && (
           <span className="text-yellow-600 dark:text-yellow-400">
             Ausstehend: {pending}
@@ -1,19 +1,37 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { AuditPage, AuditIssue } from '@/lib/serverComm';
 import { ScoreIndicator } from './score-indicator';
-import { IssueBadge } from './issue-badge';
+import { IssueCard } from './issue-card';
+import { PageMetadata } from './page-metadata';
+import { PageContent } from './page-content';
+import { PageStatus } from './page-status';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
-import { ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
+import { ChevronDown, ChevronRight, ExternalLink, FileText } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface AuditTableProps {
+  auditId: string;
   pages: AuditPage[];
+  filterSearch?: string; // Page list filters, passed on to the page view for prev/next
+  selectedIssueIds?: Set<string>;
+  onIssueSelectedChange?: (issueId: string, selected: boolean) => void;
+  onIssueUpdated?: (issue: AuditIssue) => void;
   className?: string;
 }
 
-export function AuditTable({ pages, className }: AuditTableProps) {
+export function AuditTable({
+  auditId,
+  pages,
+  filterSearch,
+  selectedIssueIds,
+  onIssueSelectedChange,
+  onIssueUpdated,
+  className,
+}: AuditTableProps) {
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [contentRows, setContentRows] = useState<Set<string>>(new Set());
 
   const toggleRow = (pageId: string) => {
     const newExpanded = new Set(expandedRows);
@@ -25,35 +43,14 @@ export function AuditTable({ pages, className }: AuditTableProps) {
     setExpandedRows(newExpanded);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'text-green-600 dark:text-green-400';
-      case 'failed':
-        return 'text-red-600 dark:text-red-400';
-      case 'crawling':
-      case 'analyzing':
-        return 'text-yellow-600 dark:text-yellow-400';
-      default:
-        return 'text-muted-foreground';
-    }
-  };
-
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'Ausstehend';
-      case 'crawling':
-        return 'Wird gecrawlt';
-      case 'analyzing':
-        return 'Wird analysiert';
-      case 'completed':
-        return 'Abgeschlossen';
-      case 'failed':
-        return 'Fehler';
-      default:
-        return status;
+  const toggleContent = (pageId: string) => {
+    const newContentRows = new Set(contentRows);
+    if (newContentRows.has(pageId)) {
+      newContentRows.delete(pageId);
+    } else {
+      newContentRows.add(pageId);
     }
+    setContentRows(newContentRows);
   };
 
   return (
@@ -81,7 +78,12 @@ export function AuditTable({ pages, className }: AuditTableProps) {
                       )}
                     </Button>
                     <CardTitle className="text-base">
-                      {page.title || 'Ohne Titel'}
+                      <Link
+                        to={`/audits/${auditId}/pages/${page.id}${filterSearch ? `?${filterSearch}` : ''}`}
+                        className="hover:underline"
+                      >
+                        {page.title || 'Ohne Titel'}
+                      </Link>
                     </CardTitle>
                   </div>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -94,14 +96,16 @@ export function AuditTable({ pages, className }: AuditTableProps) {
                       {page.url}
                       <ExternalLink className="h-3 w-3" />
                     </a>
+                    {page.lastmod && (
+                      <span>· geändert {new Date(page.lastmod).toLocaleDateString('de-DE')}</span>
+                    )}
+                    {page.priority !== null && <span>· Priorität {page.priority}</span>}
                   </div>
                 </div>
                 <div className="flex items-center gap-4">
                   <div className="text-right">
                     <div className="text-xs text-muted-foreground">Status</div>
-                    <div className={cn('text-sm font-medium', getStatusColor(page.status))}>
-                      {getStatusLabel(page.status)}
-                    </div>
+                    <PageStatus status={page.status} className="text-sm font-medium" />
                   </div>
                   <div className="text-right">
                     <div className="text-xs text-muted-foreground">Score</div>
@@ -117,7 +121,10 @@ export function AuditTable({ pages, className }: AuditTableProps) {
               </div>
             </CardHeader>
             {isExpanded && (
-              <CardContent className="pt-0">
+              <CardContent className="pt-0 space-y-4">
+                {page.http_status !== null && (
+                  <PageMetadata page={page} className="rounded-md border p-3" />
+                )}
                 {page.error_message ? (
                   <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
                     <strong>Fehler:</strong> {page.error_message}
@@ -126,39 +133,16 @@ export function AuditTable({ pages, className }: AuditTableProps) {
                   <div className="space-y-3">
                     <h4 className="text-sm font-semibold">Gefundene Probleme:</h4>
                     {page.issues!.map((issue: AuditIssue) => (
-                      <div
+                      <IssueCard
                         key={issue.id}
-                        className="rounded-md border p-3 space-y-2"
-                      >
-                        <div className="flex items-center gap-2">
-                          <IssueBadge type={issue.issue_type} />
-                          <span
-                            className={cn(
-                              'text-xs font-medium',
-                              issue.severity === 'high'
-                                ? 'text-red-600 dark:text-red-400'
-                                : issue.severity === 'medium'
-                                ? 'text-yellow-600 dark:text-yellow-400'
-                                : 'text-muted-foreground'
-                            )}
-                          >
-                            {issue.severity === 'high'
-                              ? 'Hoch'
-                              : issue.severity === 'medium'
-                              ? 'Mittel'
-                              : 'Niedrig'}
-                          </span>
-                        </div>
-                        <p className="text-sm">{issue.description}</p>
-                        <div className="rounded bg-muted p-2 text-xs">
-                          <strong>Snippet:</strong> {issue.snippet}
-                        </div>
-                        {issue.suggestion && (
-                          <div className="rounded bg-green-50 dark:bg-green-900/20 p-2 text-xs">
-                            <strong>Vorschlag:</strong> {issue.suggestion}
-                          </div>
-                        )}
-                      </div>
+                        issue={issue}
+                        auditId={onIssueUpdated ? auditId : undefined}
+                        onUpdated={onIssueUpdated}
+                        selected={selectedIssueIds?.has(issue.id)}
+                        onSelectedChange={
+                          onIssueSelectedChange && ((selected) => onIssueSelectedChange(issue.id, selected))
+                        }
+                      />
                     ))}
                   </div>
                 ) : (
@@ -166,6 +150,15 @@ export function AuditTable({ pages, className }: AuditTableProps) {
                     Keine Probleme gefunden. ✅
                   </div>
                 )}
+                {page.status === 'completed' && (
+                  <div className="space-y-2">
+                    <Button variant="outline" size="sm" onClick={() => toggleContent(page.id)}>
+                      <FileText className="h-4 w-4" />
+                      {contentRows.has(page.id) ? 'Inhalt ausblenden' : 'Inhalt mit Markierungen anzeigen'}
+                    </Button>
+                    {contentRows.has(page.id) && <PageContent auditId={auditId} pageId={page.id} />}
+                  </div>
+                )}
               </CardContent>
             )}
           </Card>
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { DuplicateCluster } from '@/lib/serverComm';
+import { ScoreIndicator } from './score-indicator';
+import { ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
+
+interface DuplicateClustersProps {
+  clusters: DuplicateCluster[];
+}
+
+export function DuplicateClusters({ clusters }: DuplicateClustersProps) {
+  const [expandedClusters, setExpandedClusters] = useState<Set<string>>(new Set());
+
+  const toggleCluster = (clusterId: string) => {
+    const newExpanded = new Set(expandedClusters);
+    if (newExpanded.has(clusterId)) {
+      newExpanded.delete(clusterId);
+    } else {
+      newExpanded.add(clusterId);
+    }
+    setExpandedClusters(newExpanded);
+  };
+
+  return (
+    <div className="space-y-2">
+      {clusters.map((cluster) => {
+        const isExpanded = expandedClusters.has(cluster.id);
+
+        return (
+          <div key={cluster.id} className="rounded-md border">
+            <button
+              type="button"
+              className="flex w-full items-start gap-2 p-3 text-left hover:bg-muted/50"
+              onClick={() => toggleCluster(cluster.id)}
+            >
+              {isExpanded ? (
+                <ChevronDown className="h-4 w-4 mt-0.5 shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 mt-0.5 shrink-0" />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="text-sm font-medium">
+                  {cluster.page_count} Seiten · {Math.round(cluster.similarity * 100)}% Ähnlichkeit
+                </div>
+                {cluster.snippet && (
+                  <p className="text-xs text-muted-foreground truncate">{cluster.snippet}</p>
+                )}
+              </div>
+            </button>
+            {isExpanded && (
+              <ul className="border-t divide-y">
+                {cluster.pages.map((page) => (
+                  <li key={page.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{page.title || page.url}</div>
+                      <a
+                        href={page.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-muted-foreground hover:underline inline-flex items-center gap-1 max-w-full"
+                      >
+                        <span className="truncate">{page.url}</span>
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                      </a>
+                    </div>
+                    <ScoreIndicator score={page.quality_score} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,39 +1,39 @@
 import { cn } from '@/lib/utils';
-
-type IssueType = 'grammar' | 'redundancy' | 'contradiction' | 'placeholder' | 'empty';
+import type { IssueType } from '@/lib/serverComm';
+import { useIssueTypes } from '@/hooks/use-issue-types';
 
 interface IssueBadgeProps {
   type: IssueType;
   className?: string;
 }
 
-const issueTypeLabels: Record<IssueType, string> = {
-  grammar: 'Grammatik',
-  redundancy: 'Redundanz',
-  contradiction: 'Widerspruch',
-  placeholder: 'Platzhalter',
-  empty: 'Leer',
-};
-
-const issueTypeColors: Record<IssueType, string> = {
-  grammar: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-  redundancy: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-  contradiction: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-  placeholder: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
-  empty: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+// Tailwind needs the full class names, so the colors an issue type can have are listed here
+const issueTypeColors: Record<string, string> = {
+  gray: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+  blue: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  yellow: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  red: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  orange: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  purple: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  teal: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  pink: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200',
+  indigo: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  green: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
 };
 
 export function IssueBadge({ type, className }: IssueBadgeProps) {
+  const definition = useIssueTypes().find((issueType) => issueType.key === type);
+
   return (
     <span
       className={cn(
         'inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium',
-        issueTypeColors[type],
+        issueTypeColors[definition?.color ?? 'gray'] ?? issueTypeColors.gray,
         className
       )}
+      title={definition?.description ?? undefined}
     >
-      {issueTypeLabels[type]}
+      {definition?.label ?? type}
     </span>
   );
 }
-
@@ -0,0 +1,96 @@
+import { AuditIssue } from '@/lib/serverComm';
+import { IssueBadge } from './issue-badge';
+import { IssueStatusBadge, IssueTriage } from './issue-triage';
+import { cn } from '@/lib/utils';
+
+interface IssueCardProps {
+  issue: AuditIssue;
+  className?: string;
+  // Triage controls are shown when the audit and an update handler are given
+  auditId?: string;
+  onUpdated?: (issue: AuditIssue) => void;
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+}
+
+export function IssueCard({ issue, className, auditId, onUpdated, selected, onSelectedChange }: IssueCardProps) {
+  const closed = issue.status === 'false_positive' || issue.status === 'fixed' || issue.status === 'wont_fix';
+
+  return (
+    <div className={cn('rounded-md border p-3 space-y-2', closed && 'opacity-70', className)}>
+      <div className="flex items-center gap-2">
+        {onSelectedChange && (
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={!!selected}
+            onChange={(e) => onSelectedChange(e.target.checked)}
+            aria-label="Problem auswählen"
+          />
+        )}
+        <IssueBadge type={issue.issue_type} />
+        <span
+          className={cn(
+            'text-xs font-medium',
+            issue.severity === 'high'
+              ? 'text-red-600 dark:text-red-400'
+              : issue.severity === 'medium'
+              ? 'text-yellow-600 dark:text-yellow-400'
+              : 'text-muted-foreground'
+          )}
+        >
+          {issue.severity === 'high'
+            ? 'Hoch'
+            : issue.severity === 'medium'
+            ? 'Mittel'
+            : 'Niedrig'}
+        </span>
+        {issue.source === 'rule' && (
+          <span
+            className="rounded border px-1.5 py-0.5 text-xs text-muted-foreground"
+            title="Gefunden durch eine lokale Regelprüfung"
+          >
+            Regel
+          </span>
+        )}
+        {issue.status !== 'open' && <IssueStatusBadge status={issue.status} className="ml-auto" />}
+      </div>
+      <p className="text-sm">{issue.description}</p>
+      {issue.snippet && (
+        <div className="rounded bg-muted p-2 text-xs">
+          <strong>Snippet:</strong> {issue.snippet}
+        </div>
+      )}
+      {issue.related_url && (
+        <div className="rounded bg-muted p-2 text-xs space-y-1">
+          <div>
+            <strong>Widerspricht:</strong>{' '}
+            <a
+              href={issue.related_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:underline break-all"
+            >
+              {issue.related_url}
+            </a>
+          </div>
+          {issue.related_snippet && <div>{issue.related_snippet}</div>}
+        </div>
+      )}
+      {issue.suggestion && (
+        <div className="rounded bg-green-50 dark:bg-green-900/20 p-2 text-xs">
+          <strong>Vorschlag:</strong> {issue.suggestion}
+        </div>
+      )}
+      {auditId && onUpdated ? (
+        <IssueTriage auditId={auditId} issue={issue} onUpdated={onUpdated} />
+      ) : (
+        issue.comment && (
+          <div className="rounded bg-muted/50 p-2 text-xs">
+            <strong>Kommentar:</strong> {issue.comment}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import {
+  api,
+  ISSUE_STATUS_LABELS,
+  type AuditIssue,
+  type IssueStatus,
+  type IssueTriageInput,
+} from '@/lib/serverComm';
+import { useTeamMembers, teamMemberName } from '@/hooks/use-team-members';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const SELECT_CLASS_NAME =
+  'flex h-8 rounded-md border border-input bg-transparent px-2 py-1 text-xs shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50';
+
+const statusColors: Record<IssueStatus, string> = {
+  open: 'border-muted-foreground/30 text-muted-foreground',
+  accepted: 'border-blue-300 text-blue-700 dark:border-blue-800 dark:text-blue-300',
+  false_positive: 'border-gray-300 text-gray-500 line-through dark:border-gray-700',
+  fixed: 'border-green-300 text-green-700 dark:border-green-800 dark:text-green-300',
+  wont_fix: 'border-gray-300 text-gray-500 dark:border-gray-700',
+};
+
+interface IssueStatusBadgeProps {
+  status: IssueStatus;
+  className?: string;
+}
+
+export function IssueStatusBadge({ status, className }: IssueStatusBadgeProps) {
+  return (
+    <span className={cn('rounded border px-1.5 py-0.5 text-xs', statusColors[status], className)}>
+      {ISSUE_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+interface IssueTriageProps {
+  auditId: string;
+  issue: AuditIssue;
+  onUpdated: (issue: AuditIssue) => void;
+}
+
+/**
+ * Status, assignee and comment of an issue; status and assignee are saved on change
+ */
+export function IssueTriage({ auditId, issue, onUpdated }: IssueTriageProps) {
+  const teamMembers = useTeamMembers();
+  const [comment, setComment] = useState(issue.comment || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (data: IssueTriageInput) => {
+    setError(null);
+    try {
+      setSaving(true);
+      const result = await api.updateIssue(auditId, issue.id, data);
+      if (data.comment !== undefined) setComment(result.issue.comment || '');
+      onUpdated(result.issue);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded bg-muted/50 p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={SELECT_CLASS_NAME}
+          value={issue.status}
+          onChange={(e) => save({ status: e.target.value as IssueStatus })}
+          disabled={saving}
+          aria-label="Status"
+        >
+          {(Object.keys(ISSUE_STATUS_LABELS) as IssueStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {ISSUE_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        <select
+          className={SELECT_CLASS_NAME}
+          value={issue.assignee_id || ''}
+          onChange={(e) => save({ assignee_id: e.target.value || null })}
+          disabled={saving}
+          aria-label="Zuständig"
+        >
+          <option value="">Nicht zugewiesen</option>
+          {teamMembers.map((member) => (
+            <option key={member.id} value={member.id}>
+              {teamMemberName(member)}
+            </option>
+          ))}
+        </select>
+        {issue.triaged_at && (
+          <span className="text-xs text-muted-foreground">
+            Bearbeitet {new Date(issue.triaged_at).toLocaleString('de-DE')}
+          </span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <textarea
+          className="flex min-h-8 w-full rounded-md border border-input bg-transparent px-2 py-1 text-xs shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+          rows={1}
+          placeholder="Kommentar"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          disabled={saving}
+        />
+        {comment !== (issue.comment || '') && (
+          <Button size="sm" variant="outline" onClick={() => save({ comment: comment || null })} disabled={saving}>
+            Speichern
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+interface TriageToolbarProps {
+  auditId: string;
+  selectedIds: string[];
+  onUpdated: (issues: AuditIssue[]) => void;
+  onClear: () => void;
+}
+
+/**
+ * Bulk actions for the selected issues
+ */
+export function TriageToolbar({ auditId, selectedIds, onUpdated, onClear }: TriageToolbarProps) {
+  const teamMembers = useTeamMembers();
+  const [status, setStatus] = useState<IssueStatus | ''>('');
+  const [assigneeId, setAssigneeId] = useState(''); // '' = keep, 'none' = unassign
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    const data: IssueTriageInput = {};
+    if (status) data.status = status;
+    if (assigneeId) data.assignee_id = assigneeId === 'none' ? null : assigneeId;
+
+    setError(null);
+    try {
+      setSaving(true);
+      const result = await api.updateIssues(auditId, selectedIds, data);
+      onUpdated(result.issues);
+      setStatus('');
+      setAssigneeId('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (selectedIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="sticky top-0 z-20 flex flex-wrap items-center gap-2 rounded-md border bg-background p-3 shadow-sm">
+      <span className="text-sm font-medium">{selectedIds.length} ausgewählt</span>
+      <select
+        className={SELECT_CLASS_NAME}
+        value={status}
+        onChange={(e) => setStatus(e.target.value as IssueStatus | '')}
+        disabled={saving}
+        aria-label="Status setzen"
+      >
+        <option value="">Status unverändert</option>
+        {(Object.keys(ISSUE_STATUS_LABELS) as IssueStatus[]).map((value) => (
+          <option key={value} value={value}>
+            {ISSUE_STATUS_LABELS[value]}
+          </option>
+        ))}
+      </select>
+      <select
+        className={SELECT_CLASS_NAME}
+        value={assigneeId}
+        onChange={(e) => setAssigneeId(e.target.value)}
+        disabled={saving}
+        aria-label="Zuweisen"
+      >
+        <option value="">Zuständigkeit unverändert</option>
+        <option value="none">Nicht zugewiesen</option>
+        {teamMembers.map((member) => (
+          <option key={member.id} value={member.id}>
+            {teamMemberName(member)}
+          </option>
+        ))}
+      </select>
+      <Button size="sm" onClick={handleApply} disabled={saving || (!status && !assigneeId)}>
+        Übernehmen
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onClear} disabled={saving}>
+        Auswahl aufheben
+      </Button>
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
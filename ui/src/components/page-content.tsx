@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { api, type AuditIssue } from '@/lib/serverComm';
+import { IssueBadge } from './issue-badge';
+import { cn } from '@/lib/utils';
+
+interface PageContentProps {
+  auditId: string;
+  pageId: string;
+  className?: string;
+}
+
+interface HighlightedContentProps {
+  content: string;
+  issues: AuditIssue[];
+  className?: string;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  issues: AuditIssue[]; // Issues whose snippet covers this part of the text
+}
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2 };
+
+const highlightColors = {
+  high: 'bg-red-200 dark:bg-red-900/60',
+  medium: 'bg-yellow-200 dark:bg-yellow-900/60',
+  low: 'bg-blue-100 dark:bg-blue-900/40',
+};
+
+// Split the content at every snippet start/end, so overlapping snippets get their own segments
+function toSegments(content: string, issues: AuditIssue[]): Segment[] {
+  const located = issues.filter((issue) => issue.snippet_offset !== null && issue.snippet_end !== null);
+  const boundaries = new Set([0, content.length]);
+  for (const issue of located) {
+    boundaries.add(issue.snippet_offset!);
+    boundaries.add(issue.snippet_end!);
+  }
+
+  const sorted = Array.from(boundaries).sort((a, b) => a - b);
+  return sorted.slice(0, -1).map((start, index) => ({
+    start,
+    end: sorted[index + 1],
+    issues: located.filter((issue) => issue.snippet_offset! <= start && issue.snippet_end! >= sorted[index + 1]),
+  }));
+}
+
+/**
+ * Crawled content of a page, loaded on demand, with the issues highlighted in place
+ */
+export function PageContent({ auditId, pageId, className }: PageContentProps) {
+  const [data, setData] = useState<{ content: string; issues: AuditIssue[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    api
+      .getPageContent(auditId, pageId)
+      .then((result) => {
+        if (active) setData(result);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Fehler beim Laden des Inhalts');
+      });
+    return () => {
+      active = false;
+    };
+  }, [auditId, pageId]);
+
+  if (error) {
+    return <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>;
+  }
+  if (!data) {
+    return <p className="text-sm text-muted-foreground">Lade Inhalt...</p>;
+  }
+
+  return <HighlightedContent content={data.content} issues={data.issues} className={className} />;
+}
+
+/**
+ * Crawled content (markdown source, as analyzed) with the issues highlighted in place
+ * Clicking a highlight shows the issues and suggestions for that text
+ */
+export function HighlightedContent({ content, issues, className }: HighlightedContentProps) {
+  const [activeSegment, setActiveSegment] = useState<number | null>(null);
+
+  const segments = toSegments(content, issues);
+  const unlocated = issues.filter((issue) => issue.snippet_offset === null || issue.snippet_end === null);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="max-h-[32rem] overflow-y-auto rounded-md border p-4 text-sm leading-relaxed whitespace-pre-wrap break-words">
+        {segments.map((segment, index) => {
+          const text = content.slice(segment.start, segment.end);
+          if (segment.issues.length === 0) {
+            return <span key={index}>{text}</span>;
+          }
+
+          const severity = segment.issues.reduce(
+            (max, issue) => (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[max] ? issue.severity : max),
+            segment.issues[0].severity
+          );
+          const approximate = segment.issues.some((issue) => (issue.snippet_confidence ?? 1) < 1);
+
+          return (
+            <span key={index} className="relative">
+              <mark
+                className={cn(
+                  'cursor-pointer rounded-sm text-inherit',
+                  highlightColors[severity],
+                  approximate && 'underline decoration-dotted'
+                )}
+                onClick={() => setActiveSegment(activeSegment === index ? null : index)}
+              >
+                {text}
+              </mark>
+              {activeSegment === index && (
+                <span className="absolute left-0 top-full z-10 mt-1 block w-80 space-y-3 rounded-md border bg-popover p-3 text-xs text-popover-foreground shadow-md whitespace-normal">
+                  {segment.issues.map((issue) => (
+                    <span key={issue.id} className="block space-y-1">
+                      <IssueBadge type={issue.issue_type} />
+                      <span className="block">{issue.description}</span>
+                      {issue.suggestion && (
+                        <span className="block rounded bg-green-50 dark:bg-green-900/20 p-2">
+                          <strong>Vorschlag:</strong> {issue.suggestion}
+                        </span>
+                      )}
+                      {(issue.snippet_confidence ?? 1) < 1 && (
+                        <span className="block text-muted-foreground">
+                          Stelle ungefähr gefunden ({Math.round(issue.snippet_confidence! * 100)}% Übereinstimmung)
+                        </span>
+                      )}
+                    </span>
+                  ))}
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {unlocated.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {unlocated.length} {unlocated.length === 1 ? 'Fund' : 'Funde'} ohne Fundstelle im Text (z.B. fehlende
+          Inhalte oder seitenübergreifende Prüfungen)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { AuditPage } from '@/lib/serverComm';
+import { cn } from '@/lib/utils';
+
+interface PageMetadataProps {
+  page: Omit<AuditPage, 'issue_count' | 'issues'>;
+  className?: string;
+}
+
+export function PageMetadata({ page, className }: PageMetadataProps) {
+  const h1Count = page.headings?.filter((heading) => heading.level === 1).length ?? 0;
+  const redirected = page.final_url && page.final_url !== page.url;
+
+  return (
+    <div className={cn('space-y-3 text-xs', className)}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <div>
+          <div className="text-muted-foreground">HTTP-Status</div>
+          <div className="font-medium">{page.http_status ?? 'N/A'}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Sprache</div>
+          <div className="font-medium">
+            {page.detected_language || page.lang || 'N/A'}
+            {page.lang && page.detected_language && page.lang.split('-')[0].toLowerCase() !== page.detected_language && (
+              <span className="text-yellow-600 dark:text-yellow-400"> (lang="{page.lang}")</span>
+            )}
+          </div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Wörter</div>
+          <div className="font-medium">{page.word_count ?? 'N/A'}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">H1-Überschriften</div>
+          <div className={cn('font-medium', h1Count !== 1 && page.headings && 'text-yellow-600 dark:text-yellow-400')}>
+            {page.headings ? h1Count : 'N/A'}
+          </div>
+        </div>
+      </div>
+
+      {redirected && (
+        <div>
+          <span className="text-muted-foreground">Weitergeleitet zu:</span>{' '}
+          <span className="break-all">{page.final_url}</span>
+        </div>
+      )}
+      <div>
+        <span className="text-muted-foreground">Canonical:</span>{' '}
+        <span className="break-all">{page.canonical_url || 'Nicht gesetzt'}</span>
+      </div>
+      <div>
+        <span className="text-muted-foreground">Meta-Description:</span>{' '}
+        {page.meta_description ? (
+          <span>{page.meta_description}</span>
+        ) : (
+          <span className="text-yellow-600 dark:text-yellow-400">Fehlt</span>
+        )}
+      </div>
+      {page.hreflang && page.hreflang.length > 0 && (
+        <div>
+          <span className="text-muted-foreground">hreflang:</span>{' '}
+          {page.hreflang.map((alternate) => alternate.hreflang).join(', ')}
+        </div>
+      )}
+      {page.headings && page.headings.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-muted-foreground">Überschriften-Gliederung:</div>
+          <ul className="space-y-0.5">
+            {page.headings.map((heading, index) => (
+              <li
+                key={index}
+                style={{ paddingLeft: `${(heading.level - 1) * 12}px` }}
+              >
+                <span className="text-muted-foreground">H{heading.level}</span> {heading.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { cn } from '@/lib/utils';
+
+interface PageStatusProps {
+  status: string;
+  className?: string;
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return 'text-green-600 dark:text-green-400';
+    case 'failed':
+      return 'text-red-600 dark:text-red-400';
+    case 'crawling':
+    case 'analyzing':
+      return 'text-yellow-600 dark:text-yellow-400';
+    default:
+      return 'text-muted-foreground';
+  }
+};
+
+const getStatusLabel = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return 'Ausstehend';
+    case 'crawling':
+      return 'Wird gecrawlt';
+    case 'analyzing':
+      return 'Wird analysiert';
+    case 'completed':
+      return 'Abgeschlossen';
+    case 'failed':
+      return 'Fehler';
+    case 'skipped':
+      return 'Übersprungen';
+    default:
+      return status;
+  }
+};
+
+export function PageStatus({ status, className }: PageStatusProps) {
+  return <span className={cn(getStatusColor(status), className)}>{getStatusLabel(status)}</span>;
+}
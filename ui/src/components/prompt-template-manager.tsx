@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  api,
+  type PromptTemplateSummary,
+  type PromptTemplateVersion,
+  type PromptTemplatesResponse,
+} from '@/lib/serverComm';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { History, Plus, Save, Trash2 } from 'lucide-react';
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  content: string;
+  isDefault: boolean;
+}
+
+const EMPTY_FORM: TemplateForm = { name: '', description: '', content: '', isDefault: false };
+
+export function PromptTemplateManager() {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [builtin, setBuiltin] = useState<PromptTemplatesResponse['builtin'] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null); // null = new template
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectTemplate = useCallback(async (id: string) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const data = await api.getPromptTemplate(id);
+      setSelectedId(id);
+      setVersions(data.versions);
+      setForm({
+        name: data.template.name,
+        description: data.template.description || '',
+        content: data.versions[0]?.content || '',
+        isDefault: data.template.is_default,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Prompt-Vorlage');
+    }
+  }, []);
+
+  // New templates start from the built-in prompt
+  const startNewTemplate = useCallback((content: string) => {
+    setSelectedId(null);
+    setVersions([]);
+    setForm({ ...EMPTY_FORM, content });
+    setError(null);
+    setMessage(null);
+  }, []);
+
+  const loadTemplates = useCallback(async (selectId?: string) => {
+    try {
+      setLoading(true);
+      const data = await api.getPromptTemplates();
+      setTemplates(data.templates);
+      setBuiltin(data.builtin);
+
+      const next = selectId ?? data.templates[0]?.id;
+      if (next) {
+        await selectTemplate(next);
+      } else {
+        startNewTemplate(data.builtin.content);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Prompt-Vorlagen');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectTemplate, startNewTemplate]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleSave = async () => {
+    setError(null);
+    setMessage(null);
+    try {
+      setSaving(true);
+      const data = {
+        name: form.name,
+        description: form.description || null,
+        content: form.content,
+        is_default: form.isDefault,
+      };
+      const result = selectedId
+        ? await api.updatePromptTemplate(selectedId, data)
+        : await api.createPromptTemplate(data);
+      await loadTemplates(result.template.id);
+      setMessage(`Gespeichert als Version ${result.version.version}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern der Prompt-Vorlage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !confirm(`Vorlage "${form.name}" mit allen Versionen löschen?`)) return;
+
+    setError(null);
+    try {
+      setSaving(true);
+      await api.deletePromptTemplate(selectedId);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Löschen der Prompt-Vorlage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && templates.length === 0 && !builtin) {
+    return <p className="text-sm text-muted-foreground">Lade Prompt-Vorlagen...</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-6">
+      <div className="space-y-2">
+        {templates.map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            className={`w-full rounded-md border px-3 py-2 text-left text-sm hover:bg-muted/50 ${
+              template.id === selectedId ? 'border-primary bg-muted/50' : ''
+            }`}
+            onClick={() => selectTemplate(template.id)}
+          >
+            <div className="font-medium truncate">{template.name}</div>
+            <div className="text-xs text-muted-foreground">
+              v{template.latest_version?.version ?? 0}
+              {template.is_default && ' · Standard'}
+            </div>
+          </button>
+        ))}
+        <Button variant="outline" size="sm" className="w-full" onClick={() => startNewTemplate(builtin?.content || '')}>
+          <Plus className="h-4 w-4" />
+          Neue Vorlage
+        </Button>
+        {!templates.some((template) => template.is_default) && (
+          <p className="text-xs text-muted-foreground">
+            Ohne Standardvorlage nutzen neue Audits den eingebauten Prompt.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="prompt-name">Name</Label>
+            <Input
+              id="prompt-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="z.B. Shop-Produktseiten"
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prompt-description">Beschreibung</Label>
+            <Input
+              id="prompt-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="prompt-content">Prompt</Label>
+          <textarea
+            id="prompt-content"
+            className="flex min-h-96 w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+            value={form.content}
+            onChange={(e) => setForm({ ...form, content: e.target.value })}
+            disabled={saving}
+          />
+          {builtin && (
+            <p className="text-xs text-muted-foreground">
+              Platzhalter: {builtin.placeholders.map((placeholder) => `{${placeholder}}`).join(', ')} ({'{content}'} ist
+              Pflicht). Jede Änderung am Prompt wird als neue Version gespeichert; laufende Audits behalten ihre Version.
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="prompt-default"
+            checked={form.isDefault}
+            onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })}
+            disabled={saving}
+          />
+          <Label htmlFor="prompt-default">Standard für neue Audits</Label>
+        </div>
+
+        {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={saving || !form.name.trim() || !form.content.trim()}>
+            <Save className="h-4 w-4" />
+            {saving ? 'Speichern...' : 'Speichern'}
+          </Button>
+          {selectedId && (
+            <Button variant="outline" onClick={handleDelete} disabled={saving}>
+              <Trash2 className="h-4 w-4" />
+              Löschen
+            </Button>
+          )}
+        </div>
+
+        {versions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Versionen
+            </h3>
+            <ul className="rounded-md border divide-y">
+              {versions.map((version) => (
+                <li key={version.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="font-medium">v{version.version}</span>
+                  <span className="flex-1 text-xs text-muted-foreground">
+                    {new Date(version.created_at).toLocaleString('de-DE')}
+                  </span>
+                  {version.content !== form.content && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm({ ...form, content: version.content })}
+                      disabled={saving}
+                    >
+                      In Editor laden
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api, type StyleRule, type StyleRuleInput, type StyleRuleKind } from '@/lib/serverComm';
+import { useIssueTypes, reloadIssueTypes } from '@/hooks/use-issue-types';
+import { useAuth } from '@/lib/auth-context';
+import { IssueBadge } from './issue-badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+const KIND_LABELS: Record<StyleRuleKind, string> = {
+  forbidden_terms: 'Unerwünschte Begriffe',
+  required_spelling: 'Vorgeschriebene Schreibweise',
+  pattern: 'Muster (regulärer Ausdruck)',
+  ai: 'KI-Prüfung',
+};
+
+const KIND_HINTS: Record<StyleRuleKind, string> = {
+  forbidden_terms: 'Ein Begriff pro Zeile, z.B. Namen von Wettbewerbern. Wird lokal geprüft.',
+  required_spelling: 'Ein Begriff pro Zeile in korrekter Schreibweise. Abweichende Groß-/Kleinschreibung, Leerzeichen oder Bindestriche werden gemeldet.',
+  pattern: 'Regulärer Ausdruck (ohne Schrägstriche, Groß-/Kleinschreibung wird ignoriert, max. 200 Zeichen, keine wiederholten Gruppen mit Quantoren wie (a+)+), z.B. \\b(du|dich|dir|dein\\w*)\\b',
+  ai: 'Anweisung für die KI, z.B. "Keine Superlative ohne Beleg". Wird dem Analyse-Prompt hinzugefügt.',
+};
+
+const SELECT_CLASS_NAME =
+  'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50';
+
+interface RuleForm {
+  name: string;
+  issueType: string;
+  kind: StyleRuleKind;
+  terms: string;
+  pattern: string;
+  instruction: string;
+  severity: 'low' | 'medium' | 'high';
+  suggestion: string;
+  shared: boolean;
+}
+
+const EMPTY_RULE_FORM: RuleForm = {
+  name: '',
+  issueType: '',
+  kind: 'forbidden_terms',
+  terms: '',
+  pattern: '',
+  instruction: '',
+  severity: 'medium',
+  suggestion: '',
+  shared: false,
+};
+
+const toInput = (form: RuleForm, enabled: boolean): StyleRuleInput => ({
+  issue_type: form.issueType,
+  name: form.name,
+  kind: form.kind,
+  terms: form.terms.split('\n').map((term) => term.trim()).filter(Boolean),
+  pattern: form.pattern || null,
+  instruction: form.instruction || null,
+  severity: form.severity,
+  suggestion: form.suggestion || null,
+  enabled,
+  shared: form.shared,
+});
+
+const toForm = (rule: StyleRule): RuleForm => ({
+  name: rule.name,
+  issueType: rule.issue_type,
+  kind: rule.kind,
+  terms: rule.terms.join('\n'),
+  pattern: rule.pattern || '',
+  instruction: rule.instruction || '',
+  severity: rule.severity,
+  suggestion: rule.suggestion || '',
+  shared: rule.user_id === null,
+});
+
+export function StyleRuleManager() {
+  const issueTypes = useIssueTypes();
+  const { userProfile } = useAuth();
+  // Shared rules run on every user's audits, only admins may change them
+  const isAdmin = Boolean(userProfile?.is_admin);
+  const [rules, setRules] = useState<StyleRule[]>([]);
+  const [colors, setColors] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // null = new rule
+  const [form, setForm] = useState<RuleForm>(EMPTY_RULE_FORM);
+  const [newType, setNewType] = useState({ key: '', label: '', color: 'gray', shared: false });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const [rulesData, typesData] = await Promise.all([api.getStyleRules(), api.getIssueTypes()]);
+      setRules(rulesData.rules);
+      setColors(typesData.colors);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Prüfungen');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      setSaving(true);
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Aktion fehlgeschlagen');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRule = async () => {
+    const enabled = rules.find((rule) => rule.id === editingId)?.enabled ?? true;
+    const saved = await run(async () => {
+      if (editingId) {
+        await api.updateStyleRule(editingId, toInput(form, enabled));
+      } else {
+        await api.createStyleRule(toInput(form, enabled));
+      }
+      await loadRules();
+    });
+    if (saved) {
+      setEditingId(null);
+      setForm(EMPTY_RULE_FORM);
+    }
+  };
+
+  const handleToggleRule = (rule: StyleRule, enabled: boolean) =>
+    run(async () => {
+      await api.updateStyleRule(rule.id, toInput(toForm(rule), enabled));
+      await loadRules();
+    });
+
+  const handleDeleteRule = (rule: StyleRule) => {
+    if (!confirm(`Prüfung "${rule.name}" löschen?`)) return;
+    run(async () => {
+      await api.deleteStyleRule(rule.id);
+      await loadRules();
+    });
+  };
+
+  const handleCreateType = async () => {
+    const created = await run(async () => {
+      await api.createIssueType(newType);
+      await reloadIssueTypes();
+    });
+    if (created) {
+      setForm({ ...form, issueType: newType.key });
+      setNewType({ key: '', label: '', color: 'gray', shared: false });
+    }
+  };
+
+  const handleDeleteType = (key: string) =>
+    run(async () => {
+      await api.deleteIssueType(key);
+      await reloadIssueTypes();
+    });
+
+  const customTypes = issueTypes.filter((issueType) => !issueType.is_builtin);
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Prüfungen</h3>
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Noch keine eigenen Prüfungen angelegt</p>
+        ) : (
+          <ul className="rounded-md border divide-y">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => handleToggleRule(rule, checked)}
+                  disabled={saving || (rule.user_id === null && !isAdmin)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{rule.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {KIND_LABELS[rule.kind]}
+                    {rule.user_id === null && ' · für alle Nutzer'}
+                  </div>
+                </div>
+                <IssueBadge type={rule.issue_type} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setEditingId(rule.id);
+                    setForm(toForm(rule));
+                  }}
+                  disabled={saving || (rule.user_id === null && !isAdmin)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDeleteRule(rule)}
+                  disabled={saving || (rule.user_id === null && !isAdmin)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-4 rounded-md border p-4">
+        <h3 className="text-sm font-semibold">{editingId ? 'Prüfung bearbeiten' : 'Neue Prüfung'}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              placeholder="z.B. Sie statt du"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rule-issue-type">Issue-Typ</Label>
+            <select
+              id="rule-issue-type"
+              className={SELECT_CLASS_NAME}
+              value={form.issueType}
+              onChange={(e) => setForm({ ...form, issueType: e.target.value })}
+              disabled={saving}
+            >
+              <option value="">Bitte wählen</option>
+              {issueTypes.map((issueType) => (
+                <option key={issueType.key} value={issueType.key}>
+                  {issueType.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-kind">Art</Label>
+            <select
+              id="rule-kind"
+              className={SELECT_CLASS_NAME}
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value as StyleRuleKind })}
+              disabled={saving}
+            >
+              {(Object.keys(KIND_LABELS) as StyleRuleKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {KIND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rule-severity">Schweregrad</Label>
+            <select
+              id="rule-severity"
+              className={SELECT_CLASS_NAME}
+              value={form.severity}
+              onChange={(e) => setForm({ ...form, severity: e.target.value as RuleForm['severity'] })}
+              disabled={saving}
+            >
+              <option value="low">Niedrig</option>
+              <option value="medium">Mittel</option>
+              <option value="high">Hoch</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {form.kind === 'pattern' ? (
+            <>
+              <Label htmlFor="rule-pattern">Muster</Label>
+              <Input
+                id="rule-pattern"
+                className="font-mono"
+                value={form.pattern}
+                onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                disabled={saving}
+              />
+            </>
+          ) : (
+            <>
+              <Label htmlFor="rule-text">{form.kind === 'ai' ? 'Anweisung' : 'Begriffe'}</Label>
+              <textarea
+                id="rule-text"
+                className="flex min-h-20 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                value={form.kind === 'ai' ? form.instruction : form.terms}
+                onChange={(e) =>
+                  setForm(
+                    form.kind === 'ai' ? { ...form, instruction: e.target.value } : { ...form, terms: e.target.value }
+                  )
+                }
+                disabled={saving}
+              />
+            </>
+          )}
+          <p className="text-xs text-muted-foreground">{KIND_HINTS[form.kind]}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-suggestion">Verbesserungsvorschlag</Label>
+          <Input
+            id="rule-suggestion"
+            placeholder="Optional"
+            value={form.suggestion}
+            onChange={(e) => setForm({ ...form, suggestion: e.target.value })}
+            disabled={saving}
+          />
+        </div>
+
+        {isAdmin && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="rule-shared"
+              checked={form.shared}
+              onCheckedChange={(checked) => setForm({ ...form, shared: checked })}
+              disabled={saving}
+            />
+            <Label htmlFor="rule-shared">Für alle Nutzer</Label>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleSaveRule} disabled={saving || !form.name.trim() || !form.issueType}>
+            {editingId ? 'Speichern' : 'Prüfung anlegen'}
+          </Button>
+          {editingId && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setEditingId(null);
+                setForm(EMPTY_RULE_FORM);
+              }}
+              disabled={saving}
+            >
+              Abbrechen
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4 rounded-md border p-4">
+        <div>
+          <h3 className="text-sm font-semibold">Eigene Issue-Typen</h3>
+          <p className="text-xs text-muted-foreground">
+            Eigene Prüfungen melden Probleme unter diesen Typen; sie erscheinen in Filtern und Ergebnissen.
+          </p>
+        </div>
+
+        {customTypes.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {customTypes.map((issueType) => (
+              <span key={issueType.key} className="inline-flex items-center gap-1">
+                <IssueBadge type={issueType.key} />
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-destructive disabled:opacity-50"
+                  onClick={() => handleDeleteType(issueType.key)}
+                  disabled={saving || (issueType.user_id === null && !isAdmin)}
+                  title="Issue-Typ löschen"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="type-label">Bezeichnung</Label>
+            <Input
+              id="type-label"
+              placeholder="z.B. Markensprache"
+              value={newType.label}
+              onChange={(e) => setNewType({ ...newType, label: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="type-key">Schlüssel</Label>
+            <Input
+              id="type-key"
+              placeholder="z.B. brand_voice"
+              value={newType.key}
+              onChange={(e) => setNewType({ ...newType, key: e.target.value.toLowerCase() })}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="type-color">Farbe</Label>
+            <select
+              id="type-color"
+              className={SELECT_CLASS_NAME}
+              value={newType.color}
+              onChange={(e) => setNewType({ ...newType, color: e.target.value })}
+              disabled={saving}
+            >
+              {colors.map((color) => (
+                <option key={color} value={color}>
+                  {color}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="type-shared"
+                checked={newType.shared}
+                onCheckedChange={(checked) => setNewType({ ...newType, shared: checked })}
+                disabled={saving}
+              />
+              <Label htmlFor="type-shared">Für alle Nutzer</Label>
+            </div>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleCreateType}
+            disabled={saving || !newType.key.trim() || !newType.label.trim()}
+          >
+            <Plus className="h-4 w-4" />
+            Issue-Typ anlegen
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
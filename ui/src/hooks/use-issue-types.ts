@@ -0,0 +1,47 @@
+import * as React from "react"
+import { api, type IssueTypeDefinition } from "@/lib/serverComm"
+
+// Loaded once and shared by every badge and filter on the page
+let cachedIssueTypes: Promise<IssueTypeDefinition[]> | null = null
+const listeners = new Set<(types: IssueTypeDefinition[]) => void>()
+
+function loadIssueTypes(): Promise<IssueTypeDefinition[]> {
+  if (!cachedIssueTypes) {
+    cachedIssueTypes = api
+      .getIssueTypes()
+      .then((data) => data.issue_types)
+      .catch((error) => {
+        console.error("Error loading issue types:", error)
+        cachedIssueTypes = null
+        return []
+      })
+  }
+  return cachedIssueTypes
+}
+
+/**
+ * Load the issue types again after they were changed (e.g. in the settings)
+ */
+export async function reloadIssueTypes(): Promise<void> {
+  cachedIssueTypes = null
+  const types = await loadIssueTypes()
+  listeners.forEach((listener) => listener(types))
+}
+
+export function useIssueTypes() {
+  const [issueTypes, setIssueTypes] = React.useState<IssueTypeDefinition[]>([])
+
+  React.useEffect(() => {
+    let active = true
+    loadIssueTypes().then((types) => {
+      if (active) setIssueTypes(types)
+    })
+    listeners.add(setIssueTypes)
+    return () => {
+      active = false
+      listeners.delete(setIssueTypes)
+    }
+  }, [])
+
+  return issueTypes
+}
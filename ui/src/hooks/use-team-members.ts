@@ -0,0 +1,39 @@
+import * as React from "react"
+import { api, type TeamMember } from "@/lib/serverComm"
+
+// Loaded once and shared by every assignee select on the page
+let cachedTeamMembers: Promise<TeamMember[]> | null = null
+
+function loadTeamMembers(): Promise<TeamMember[]> {
+  if (!cachedTeamMembers) {
+    cachedTeamMembers = api
+      .getUsers()
+      .then((data) => data.users)
+      .catch((error) => {
+        console.error("Error loading team members:", error)
+        cachedTeamMembers = null
+        return []
+      })
+  }
+  return cachedTeamMembers
+}
+
+export function teamMemberName(member: TeamMember) {
+  return member.display_name || member.email || member.id
+}
+
+export function useTeamMembers() {
+  const [teamMembers, setTeamMembers] = React.useState<TeamMember[]>([])
+
+  React.useEffect(() => {
+    let active = true
+    loadTeamMembers().then((members) => {
+      if (active) setTeamMembers(members)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return teamMembers
+}
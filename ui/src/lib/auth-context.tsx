@@ -15,6 +15,7 @@ interface UserProfile {
   photo_url: string | null
   created_at: string
   updated_at: string
+  is_admin: boolean
 }
 
 type AuthContextType = {
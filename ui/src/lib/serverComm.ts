@@ -67,6 +67,7 @@ export async function getCurrentUser(): Promise<{
     photo_url: string | null;
     created_at: string;
     updated_at: string;
+    is_admin: boolean; // May change audit priorities
   };
   message: string;
 }> {
@@ -75,29 +76,125 @@ export async function getCurrentUser(): Promise<{
 }
 
 // Audit API endpoints
+export type CrawlerBackend = 'html' | 'jina';
+
+export interface UrlFilterConfig {
+  include?: string[];
+  exclude?: string[];
+  max_urls?: number;
+  sample?: boolean;
+  sample_depth?: number;
+}
+
+export type AiProvider = 'openai' | 'anthropic';
+
+export type Language = 'de' | 'en' | 'fr' | 'it' | 'nl';
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  de: 'Deutsch',
+  en: 'Englisch',
+  fr: 'Französisch',
+  it: 'Italienisch',
+  nl: 'Niederländisch',
+};
+
+export type IssueStatus = 'open' | 'accepted' | 'false_positive' | 'fixed' | 'wont_fix';
+
+export const ISSUE_STATUS_LABELS: Record<IssueStatus, string> = {
+  open: 'Offen',
+  accepted: 'Akzeptiert',
+  false_positive: 'Falsch-Positiv',
+  fixed: 'Behoben',
+  wont_fix: 'Wird nicht behoben',
+};
+
+export interface AiSettingsInput {
+  provider?: AiProvider;
+  model?: string;
+  base_url?: string; // OpenAI-compatible endpoint, e.g. a local server
+  temperature?: number;
+  max_tokens?: number;
+}
+
 export interface CreateAuditRequest {
-  sitemap_url: string;
+  sitemap_url?: string;
+  domain?: string;
+  sitemap_urls?: string[];
   rate_limit_ms?: number;
+  crawler_backend?: CrawlerBackend;
+  url_filter?: UrlFilterConfig;
+  modified_since?: string;
+  ai_settings?: AiSettingsInput;
+  target_language?: Language;
+  prompt_template_id?: string; // Default: the default template, else the built-in prompt
+}
+
+export interface DiscoveredSitemap {
+  url: string;
+  source: 'robots' | 'common';
+}
+
+export interface SitemapDiscoveryResponse {
+  domain: string;
+  sitemaps: DiscoveredSitemap[];
 }
 
 export interface Audit {
   id: string;
   user_id: string | null;
   sitemap_url: string;
-  status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'failed';
+  sitemap_urls: string[];
+  status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'failed' | 'paused' | 'cancelled';
   total_urls: number;
   processed_urls: number;
   rate_limit_ms: number;
+  crawler_backend: CrawlerBackend;
+  url_filter: UrlFilterConfig | null;
+  modified_since: string | null;
+  ai_provider: AiProvider | null;
+  ai_model: string | null;
+  ai_base_url: string | null;
+  ai_temperature: number | null;
+  ai_max_tokens: number | null;
+  target_language: Language | null;
+  prompt_version_id: string | null; // null = built-in prompt
+  previous_audit_id: string | null; // Audit this one re-runs
+  schedule_id: string | null; // Schedule that started the audit
+  priority: number; // Higher is processed first, set by admins
   created_at: string;
   updated_at: string;
 }
 
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export interface HeadingOutlineItem {
+  level: number;
+  text: string;
+}
+
 export interface AuditPage {
   id: string;
   url: string;
-  status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'failed';
+  status: 'pending' | 'crawling' | 'analyzing' | 'completed' | 'failed' | 'skipped';
   title: string | null;
+  lastmod: string | null;
+  changefreq: string | null;
+  priority: number | null;
+  http_status: number | null;
+  final_url: string | null;
+  canonical_url: string | null;
+  meta_description: string | null;
+  lang: string | null;
+  hreflang: HreflangAlternate[] | null;
+  headings: HeadingOutlineItem[] | null;
+  word_count: number | null;
+  response_headers: Record<string, string> | null;
+  detected_language: string | null;
   quality_score: number | null;
+  rejected_ai_issues: number; // AI issues dropped for not matching the schema
   error_message: string | null;
   created_at: string;
   analyzed_at: string | null;
@@ -105,24 +202,185 @@ export interface AuditPage {
   issues?: AuditIssue[];
 }
 
+// Key of an issue type – built-in or custom (see getIssueTypes)
+export type IssueType = string;
+
+export interface IssueTypeDefinition {
+  key: IssueType;
+  label: string;
+  description: string | null;
+  color: string;
+  is_builtin: boolean;
+  user_id: string | null; // null = shared
+  created_at: string;
+}
+
+export interface IssueTypeInput {
+  key: string;
+  label: string;
+  description?: string | null;
+  color?: string;
+  shared?: boolean;
+}
+
+export type StyleRuleKind = 'forbidden_terms' | 'required_spelling' | 'pattern' | 'ai';
+
+export interface StyleRule {
+  id: string;
+  user_id: string | null; // null = applies to every audit
+  issue_type: IssueType;
+  name: string;
+  kind: StyleRuleKind;
+  terms: string[];
+  pattern: string | null;
+  instruction: string | null;
+  severity: 'low' | 'medium' | 'high';
+  suggestion: string | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StyleRuleInput {
+  issue_type: IssueType;
+  name: string;
+  kind: StyleRuleKind;
+  terms?: string[];
+  pattern?: string | null;
+  instruction?: string | null;
+  severity?: 'low' | 'medium' | 'high';
+  suggestion?: string | null;
+  enabled?: boolean;
+  shared?: boolean;
+}
+
 export interface AuditIssue {
   id: string;
-  issue_type: 'grammar' | 'redundancy' | 'contradiction' | 'placeholder' | 'empty';
+  issue_type: IssueType;
   severity: 'low' | 'medium' | 'high';
   description: string;
   snippet: string;
+  // Position of the snippet in the page content (end exclusive), null if not found
+  snippet_offset: number | null;
+  snippet_end: number | null;
+  snippet_confidence: number | null; // 1 = exact match, lower = found approximately
   suggestion: string | null;
+  source: 'ai' | 'rule';
+  cluster_id: string | null;
+  related_page_id: string | null; // Cross-page findings: the conflicting page
+  related_url: string | null;
+  related_snippet: string | null;
+  // Triage by editors
+  status: IssueStatus;
+  assignee_id: string | null;
+  comment: string | null;
+  triaged_by: string | null;
+  triaged_at: string | null;
+}
+
+export interface IssueTriageInput {
+  status?: IssueStatus;
+  assignee_id?: string | null;
+  comment?: string | null;
+}
+
+export interface TeamMember {
+  id: string;
+  email: string | null;
+  display_name: string | null;
+}
+
+export interface DuplicateCluster {
+  id: string;
+  audit_id: string;
+  similarity: number; // 0-1
+  page_count: number;
+  created_at: string;
+  snippet: string;
+  pages: {
+    id: string;
+    url: string;
+    title: string | null;
+    quality_score: number | null;
+  }[];
+}
+
+export interface AuditRunSummary {
+  id: string;
+  created_at: string;
+  status: Audit['status'];
+  analyzed_pages: number;
+  average_score: number | null;
+  issues: number; // Without issues marked as false positive
+  issues_by_severity: Record<AuditIssue['severity'], number>;
+}
+
+export interface ComparedPage {
+  page_id: string;
+  url: string;
+  title: string | null;
+  quality_score: number | null;
+}
+
+export interface ComparedIssue {
+  issue_type: string;
+  severity: AuditIssue['severity'];
+  description: string;
+  snippet: string;
+}
+
+export interface PageComparison {
+  url: string;
+  title: string | null;
+  base_page_id: string;
+  target_page_id: string;
+  base_score: number | null;
+  target_score: number | null;
+  score_delta: number | null;
+  new_issues: ComparedIssue[];
+  resolved_issues: ComparedIssue[];
+}
+
+export interface AuditComparison {
+  base: AuditRunSummary;
+  target: AuditRunSummary;
+  pages: {
+    added: ComparedPage[];
+    removed: ComparedPage[];
+    changed: PageComparison[];
+    unchanged: number;
+  };
+  issues: {
+    new: number;
+    resolved: number;
+    persisting: number;
+    by_type: Record<string, { new: number; resolved: number }>;
+  };
+  trend: AuditRunSummary[]; // Oldest first
 }
 
 export interface AuditProgress {
   audit: Audit;
+  prompt: { template_id: string; name: string; version: number } | null; // null = built-in prompt
   progress: {
     total: number;
     completed: number;
     failed: number;
+    skipped: number; // Not in the audit's target language
     pending: number;
     percentage: number;
   };
+  rejected_ai_issues: number; // AI issues dropped for not matching the schema
+  queue: QueueStatus | null; // null = no queued or running jobs
+}
+
+export interface QueueStatus {
+  queued_jobs: number;
+  running_jobs: number;
+  position: number | null; // 1 = served next, null = no jobs waiting (only running ones)
+  audits_in_queue: number;
+  jobs_per_minute: number;
+  eta_seconds: number | null; // null while nothing has been processed recently
 }
 
 export interface AuditPagesResponse {
@@ -134,6 +392,154 @@ export interface AuditPagesResponse {
   };
 }
 
+// Filters of the page list, also used for prev/next in the page view
+export interface PageFilters {
+  issue_type?: string;
+  min_score?: number;
+  status?: IssueStatus;
+  assignee_id?: string; // 'none' = unassigned
+}
+
+function appendPageFilters(params: URLSearchParams, filters?: PageFilters) {
+  if (filters?.issue_type) {
+    params.append('issue_type', filters.issue_type);
+  }
+  if (filters?.min_score) {
+    params.append('min_score', filters.min_score.toString());
+  }
+  if (filters?.status) {
+    params.append('status', filters.status);
+  }
+  if (filters?.assignee_id) {
+    params.append('assignee_id', filters.assignee_id);
+  }
+}
+
+export interface PageDetail {
+  page: Omit<AuditPage, 'issue_count' | 'issues'> & { content: string | null };
+  issues: AuditIssue[];
+  score_breakdown: Record<AuditIssue['severity'], { count: number; deduction: number }>;
+  navigation: {
+    position: number | null; // null if the page does not match the filters
+    total: number;
+    prev_id: string | null;
+    next_id: string | null;
+  };
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  content: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface PromptTemplateSummary extends PromptTemplate {
+  latest_version: Pick<PromptTemplateVersion, 'id' | 'template_id' | 'version' | 'created_at'> | null;
+  version_count: number;
+}
+
+export interface PromptTemplatesResponse {
+  templates: PromptTemplateSummary[];
+  builtin: {
+    content: string;
+    placeholders: string[];
+  };
+}
+
+export interface PromptTemplateInput {
+  name?: string;
+  description?: string | null;
+  content?: string; // A changed content is saved as a new version
+  is_default?: boolean;
+}
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'cron';
+
+export const SCHEDULE_FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  daily: 'Täglich (02:00 UTC)',
+  weekly: 'Wöchentlich (Montag 02:00 UTC)',
+  monthly: 'Monatlich (am 1., 02:00 UTC)',
+  cron: 'Cron-Ausdruck',
+};
+
+export interface AuditSchedule {
+  id: string;
+  user_id: string | null;
+  name: string;
+  sitemap_url: string; // Sitemap URL, or the site origin if discover_sitemaps is set
+  discover_sitemaps: boolean;
+  frequency: ScheduleFrequency;
+  cron_expression: string | null;
+  enabled: boolean;
+  rate_limit_ms: number;
+  crawler_backend: CrawlerBackend | null;
+  url_filter: UrlFilterConfig | null;
+  ai_provider: AiProvider | null;
+  ai_model: string | null;
+  ai_base_url: string | null;
+  ai_temperature: number | null;
+  ai_max_tokens: number | null;
+  target_language: Language | null;
+  prompt_template_id: string | null;
+  next_run_at: string | null; // null while disabled
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AuditScheduleInput {
+  name: string;
+  sitemap_url?: string;
+  domain?: string; // Sitemaps are discovered again on every run
+  frequency: ScheduleFrequency;
+  cron_expression?: string; // Only for frequency "cron" (UTC)
+  enabled?: boolean;
+  rate_limit_ms?: number;
+  crawler_backend?: CrawlerBackend | null;
+  url_filter?: UrlFilterConfig;
+  ai_settings?: AiSettingsInput;
+  target_language?: Language | null;
+  prompt_template_id?: string | null;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduled_for: string;
+  created_at: string;
+  error: string | null; // Why no audit was started
+  audit_id: string | null;
+  audit_status: Audit['status'] | null;
+  total_urls: number | null;
+}
+
+export type JobType = 'crawl_page' | 'analyze_page' | 'analyze_audit' | 'schedule_audit';
+
+export interface Job {
+  id: string;
+  job_type: JobType;
+  payload: { audit_id?: string; page_id?: string; url?: string; schedule_id?: string };
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  attempts: number;
+  max_attempts: number; // Dead with attempts left = the error was permanent
+  locked_by: string | null; // Worker that ran the last attempt
+  last_error: string | null;
+  run_after: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
 export async function createAudit(data: CreateAuditRequest): Promise<{ id: string; message: string }> {
   const response = await fetchWithAuth('/api/v1/audits', {
     method: 'POST',
@@ -145,6 +551,12 @@ export async function createAudit(data: CreateAuditRequest): Promise<{ id: strin
   return response.json();
 }
 
+export async function discoverSitemaps(domain: string): Promise<SitemapDiscoveryResponse> {
+  const params = new URLSearchParams({ domain });
+  const response = await fetchWithAuth(`/api/v1/audits/discover?${params.toString()}`);
+  return response.json();
+}
+
 export async function getAudits(): Promise<{ audits: Audit[] }> {
   const response = await fetchWithAuth('/api/v1/audits');
   return response.json();
@@ -159,29 +571,128 @@ export async function getAuditPages(
   id: string,
   page: number = 1,
   limit: number = 50,
-  filters?: { issue_type?: string; min_score?: number }
+  filters?: PageFilters
 ): Promise<AuditPagesResponse> {
   const params = new URLSearchParams({
     page: page.toString(),
     limit: limit.toString(),
   });
-  
-  if (filters?.issue_type) {
-    params.append('issue_type', filters.issue_type);
-  }
-  if (filters?.min_score) {
-    params.append('min_score', filters.min_score.toString());
-  }
+  appendPageFilters(params, filters);
 
   const response = await fetchWithAuth(`/api/v1/audits/${id}/pages?${params.toString()}`);
   return response.json();
 }
 
+export async function getPageDetail(auditId: string, pageId: string, filters?: PageFilters): Promise<PageDetail> {
+  const params = new URLSearchParams();
+  appendPageFilters(params, filters);
+
+  const response = await fetchWithAuth(`/api/v1/audits/${auditId}/pages/${pageId}?${params.toString()}`);
+  return response.json();
+}
+
+export async function getPageContent(
+  auditId: string,
+  pageId: string
+): Promise<{ content: string; issues: AuditIssue[] }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${auditId}/pages/${pageId}/content`);
+  return response.json();
+}
+
+export async function updateIssue(
+  auditId: string,
+  issueId: string,
+  data: IssueTriageInput
+): Promise<{ issue: AuditIssue }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${auditId}/issues/${issueId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function updateIssues(
+  auditId: string,
+  issueIds: string[],
+  data: IssueTriageInput
+): Promise<{ issues: AuditIssue[] }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${auditId}/issues`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...data, issue_ids: issueIds }),
+  });
+  return response.json();
+}
+
+export async function getUsers(): Promise<{ users: TeamMember[] }> {
+  const response = await fetchWithAuth('/api/v1/users');
+  return response.json();
+}
+
+export async function getAuditDuplicates(id: string): Promise<{ clusters: DuplicateCluster[] }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${id}/duplicates`);
+  return response.json();
+}
+
 export async function exportAuditCsv(id: string): Promise<Blob> {
   const response = await fetchWithAuth(`/api/v1/audits/${id}/export`);
   return response.blob();
 }
 
+export async function rerunAudit(id: string): Promise<{ id: string; previous_audit_id: string; message: string }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${id}/rerun`, {
+    method: 'POST',
+  });
+  return response.json();
+}
+
+export async function pauseAudit(id: string): Promise<{ id: string; message: string }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${id}/pause`, {
+    method: 'POST',
+  });
+  return response.json();
+}
+
+export async function resumeAudit(id: string): Promise<{ id: string; message: string }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${id}/resume`, {
+    method: 'POST',
+  });
+  return response.json();
+}
+
+export async function cancelAudit(id: string): Promise<{ id: string; removed_jobs: number; message: string }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${id}/cancel`, {
+    method: 'POST',
+  });
+  return response.json();
+}
+
+export async function setAuditPriority(id: string, priority: number): Promise<{ id: string; priority: number; message: string }> {
+  const response = await fetchWithAuth(`/api/v1/audits/${id}/priority`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ priority }),
+  });
+  return response.json();
+}
+
+export async function getAuditComparison(id: string, baseId?: string): Promise<AuditComparison> {
+  const params = new URLSearchParams();
+  if (baseId) {
+    params.append('base', baseId);
+  }
+  const query = params.toString();
+  const response = await fetchWithAuth(`/api/v1/audits/${id}/compare${query ? `?${query}` : ''}`);
+  return response.json();
+}
+
 export async function deleteAudit(id: string): Promise<{ message: string }> {
   const response = await fetchWithAuth(`/api/v1/audits/${id}`, {
     method: 'DELETE',
@@ -189,13 +700,207 @@ export async function deleteAudit(id: string): Promise<{ message: string }> {
   return response.json();
 }
 
+// Prompt template endpoints
+export async function getPromptTemplates(): Promise<PromptTemplatesResponse> {
+  const response = await fetchWithAuth('/api/v1/prompt-templates');
+  return response.json();
+}
+
+export async function getPromptTemplate(
+  id: string
+): Promise<{ template: PromptTemplate; versions: PromptTemplateVersion[] }> {
+  const response = await fetchWithAuth(`/api/v1/prompt-templates/${id}`);
+  return response.json();
+}
+
+export async function createPromptTemplate(
+  data: PromptTemplateInput
+): Promise<{ template: PromptTemplate; version: PromptTemplateVersion }> {
+  const response = await fetchWithAuth('/api/v1/prompt-templates', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function updatePromptTemplate(
+  id: string,
+  data: PromptTemplateInput
+): Promise<{ template: PromptTemplate; version: PromptTemplateVersion }> {
+  const response = await fetchWithAuth(`/api/v1/prompt-templates/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function deletePromptTemplate(id: string): Promise<{ message: string }> {
+  const response = await fetchWithAuth(`/api/v1/prompt-templates/${id}`, {
+    method: 'DELETE',
+  });
+  return response.json();
+}
+
+// Custom check endpoints
+export async function getIssueTypes(): Promise<{ issue_types: IssueTypeDefinition[]; colors: string[] }> {
+  const response = await fetchWithAuth('/api/v1/issue-types');
+  return response.json();
+}
+
+export async function createIssueType(data: IssueTypeInput): Promise<{ issue_type: IssueTypeDefinition }> {
+  const response = await fetchWithAuth('/api/v1/issue-types', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function deleteIssueType(key: string): Promise<{ message: string }> {
+  const response = await fetchWithAuth(`/api/v1/issue-types/${key}`, {
+    method: 'DELETE',
+  });
+  return response.json();
+}
+
+export async function getStyleRules(): Promise<{ rules: StyleRule[]; kinds: StyleRuleKind[] }> {
+  const response = await fetchWithAuth('/api/v1/style-rules');
+  return response.json();
+}
+
+export async function createStyleRule(data: StyleRuleInput): Promise<{ rule: StyleRule }> {
+  const response = await fetchWithAuth('/api/v1/style-rules', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function updateStyleRule(id: string, data: StyleRuleInput): Promise<{ rule: StyleRule }> {
+  const response = await fetchWithAuth(`/api/v1/style-rules/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function deleteStyleRule(id: string): Promise<{ message: string }> {
+  const response = await fetchWithAuth(`/api/v1/style-rules/${id}`, {
+    method: 'DELETE',
+  });
+  return response.json();
+}
+
+// Audit schedule endpoints
+export async function getSchedules(): Promise<{ schedules: AuditSchedule[]; frequencies: ScheduleFrequency[] }> {
+  const response = await fetchWithAuth('/api/v1/schedules');
+  return response.json();
+}
+
+export async function getSchedule(id: string): Promise<{ schedule: AuditSchedule; runs: ScheduleRun[] }> {
+  const response = await fetchWithAuth(`/api/v1/schedules/${id}`);
+  return response.json();
+}
+
+export async function createSchedule(data: AuditScheduleInput): Promise<{ schedule: AuditSchedule }> {
+  const response = await fetchWithAuth('/api/v1/schedules', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function updateSchedule(id: string, data: AuditScheduleInput): Promise<{ schedule: AuditSchedule }> {
+  const response = await fetchWithAuth(`/api/v1/schedules/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return response.json();
+}
+
+export async function deleteSchedule(id: string): Promise<{ message: string }> {
+  const response = await fetchWithAuth(`/api/v1/schedules/${id}`, {
+    method: 'DELETE',
+  });
+  return response.json();
+}
+
+// Job queue endpoints
+export async function getDeadJobs(): Promise<{ jobs: Job[] }> {
+  const response = await fetchWithAuth('/api/v1/jobs/dead');
+  return response.json();
+}
+
+export async function retryJob(id: string): Promise<{ job: Job; message: string }> {
+  const response = await fetchWithAuth(`/api/v1/jobs/${id}/retry`, {
+    method: 'POST',
+  });
+  return response.json();
+}
+
 export const api = {
   getCurrentUser,
+  getUsers,
   // Audit endpoints
   createAudit,
+  discoverSitemaps,
   getAudits,
   getAudit,
   getAuditPages,
+  getPageDetail,
+  getPageContent,
+  updateIssue,
+  updateIssues,
+  getAuditDuplicates,
   exportAuditCsv,
+  rerunAudit,
+  pauseAudit,
+  resumeAudit,
+  cancelAudit,
+  setAuditPriority,
+  getAuditComparison,
   deleteAudit,
+  // Prompt template endpoints
+  getPromptTemplates,
+  getPromptTemplate,
+  createPromptTemplate,
+  updatePromptTemplate,
+  deletePromptTemplate,
+  // Custom check endpoints
+  getIssueTypes,
+  createIssueType,
+  deleteIssueType,
+  getStyleRules,
+  createStyleRule,
+  updateStyleRule,
+  deleteStyleRule,
+  // Audit schedule endpoints
+  getSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  // Job queue endpoints
+  getDeadJobs,
+  retryJob,
 }; 
\ No newline at end of file
@@ -0,0 +1,337 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { api, type AuditComparison, type AuditRunSummary, type ComparedIssue, type ComparedPage } from '@/lib/serverComm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScoreIndicator } from '@/components/score-indicator';
+import { IssueBadge } from '@/components/issue-badge';
+import { ArrowLeft, Minus, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const formatDate = (value: string) => new Date(value).toLocaleString('de-DE');
+
+// Positive deltas are good for scores and bad for issue counts
+function Delta({ value, higherIsBetter = true }: { value: number | null; higherIsBetter?: boolean }) {
+  if (value === null || value === 0) {
+    return <span className="text-muted-foreground">±0</span>;
+  }
+  const better = higherIsBetter ? value > 0 : value < 0;
+  return (
+    <span className={better ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+      {value > 0 ? '+' : '−'}
+      {Math.abs(Math.round(value * 10) / 10)}
+    </span>
+  );
+}
+
+function IssueLine({ issue, resolved }: { issue: ComparedIssue; resolved?: boolean }) {
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      {resolved ? (
+        <Minus className="mt-0.5 h-3 w-3 shrink-0 text-green-600 dark:text-green-400" />
+      ) : (
+        <Plus className="mt-0.5 h-3 w-3 shrink-0 text-red-600 dark:text-red-400" />
+      )}
+      <IssueBadge type={issue.issue_type} />
+      <span className={cn(resolved && 'text-muted-foreground line-through')}>{issue.description}</span>
+    </div>
+  );
+}
+
+function PageList({ pages, auditId }: { pages: ComparedPage[]; auditId: string }) {
+  return (
+    <div className="divide-y">
+      {pages.map((page) => (
+        <div key={page.page_id} className="flex items-center justify-between gap-4 py-2 text-sm">
+          <Link to={`/audits/${auditId}/pages/${page.page_id}`} className="min-w-0 hover:underline">
+            <div className="truncate font-medium">{page.title || 'Ohne Titel'}</div>
+            <div className="truncate text-xs text-muted-foreground">{page.url}</div>
+          </Link>
+          <ScoreIndicator score={page.quality_score} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TrendChart({ runs, targetId }: { runs: AuditRunSummary[]; targetId: string }) {
+  const maxIssues = Math.max(1, ...runs.map((run) => run.issues));
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-muted-foreground">
+          <th className="py-2 font-normal">Lauf</th>
+          <th className="py-2 font-normal">Ø Score</th>
+          <th className="py-2 font-normal">Probleme</th>
+          <th className="py-2 text-right font-normal">Seiten</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y">
+        {runs.map((run) => (
+          <tr key={run.id} className={cn(run.id === targetId && 'font-medium')}>
+            <td className="py-2 pr-4 whitespace-nowrap">
+              <Link to={`/audits/${run.id}`} className="hover:underline">
+                {formatDate(run.created_at)}
+              </Link>
+            </td>
+            <td className="py-2 pr-4 w-1/3">
+              <div className="flex items-center gap-2">
+                <div className="h-2 flex-1 rounded bg-muted">
+                  <div className="h-2 rounded bg-green-500" style={{ width: `${run.average_score ?? 0}%` }} />
+                </div>
+                <span className="w-10 text-right">{run.average_score ?? 'N/A'}</span>
+              </div>
+            </td>
+            <td className="py-2 pr-4 w-1/3">
+              <div className="flex items-center gap-2">
+                <div className="h-2 flex-1 rounded bg-muted">
+                  <div className="h-2 rounded bg-red-400" style={{ width: `${(run.issues / maxIssues) * 100}%` }} />
+                </div>
+                <span className="w-10 text-right">{run.issues}</span>
+              </div>
+            </td>
+            <td className="py-2 text-right">{run.analyzed_pages}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function AuditCompare() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const baseId = searchParams.get('base') || undefined;
+  const [comparison, setComparison] = useState<AuditComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let active = true;
+    setLoading(true);
+    api
+      .getAuditComparison(id, baseId)
+      .then((data) => {
+        if (!active) return;
+        setComparison(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Fehler beim Laden des Vergleichs');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [id, baseId]);
+
+  if (loading && !comparison) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !comparison) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card className="border-destructive">
+          <CardContent className="pt-6">
+            <p className="text-destructive">{error || 'Vergleich nicht möglich'}</p>
+            <Button onClick={() => navigate(`/audits/${id}`)} className="mt-4">
+              Zurück zum Audit
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { base, target, pages, issues } = comparison;
+  const scoreDelta =
+    base.average_score !== null && target.average_score !== null ? target.average_score - base.average_score : null;
+  const issueTypes = Object.entries(issues.by_type).sort(
+    ([, a], [, b]) => b.new + b.resolved - (a.new + a.resolved)
+  );
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <Button variant="ghost" onClick={() => navigate(`/audits/${id}`)}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Zurück zum Audit
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vergleich der Läufe</CardTitle>
+          <CardDescription>
+            <Link to={`/audits/${base.id}`} className="hover:underline">
+              {formatDate(base.created_at)}
+            </Link>{' '}
+            →{' '}
+            <Link to={`/audits/${target.id}`} className="hover:underline">
+              {formatDate(target.created_at)}
+            </Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <div className="text-xs text-muted-foreground">Ø Score</div>
+              <div className="text-lg font-semibold">
+                {base.average_score ?? 'N/A'} → {target.average_score ?? 'N/A'}
+              </div>
+              <div className="text-sm">
+                <Delta value={scoreDelta} />
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Probleme</div>
+              <div className="text-lg font-semibold">
+                {base.issues} → {target.issues}
+              </div>
+              <div className="text-sm">
+                <Delta value={target.issues - base.issues} higherIsBetter={false} />
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Neu / behoben</div>
+              <div className="text-lg font-semibold">
+                <span className="text-red-600 dark:text-red-400">{issues.new}</span> /{' '}
+                <span className="text-green-600 dark:text-green-400">{issues.resolved}</span>
+              </div>
+              <div className="text-sm text-muted-foreground">{issues.persisting} unverändert</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Seiten</div>
+              <div className="text-lg font-semibold">
+                +{pages.added.length} / −{pages.removed.length}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {pages.changed.length} verändert, {pages.unchanged} gleich
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {comparison.trend.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Verlauf</CardTitle>
+            <CardDescription>Alle bisherigen Läufe dieses Audits (ohne als falsch-positiv markierte Funde)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TrendChart runs={comparison.trend} targetId={target.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {issueTypes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Probleme nach Typ</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="py-2 font-normal">Typ</th>
+                  <th className="py-2 text-right font-normal">Neu</th>
+                  <th className="py-2 text-right font-normal">Behoben</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {issueTypes.map(([issueType, counts]) => (
+                  <tr key={issueType}>
+                    <td className="py-2">
+                      <IssueBadge type={issueType} />
+                    </td>
+                    <td className="py-2 text-right text-red-600 dark:text-red-400">{counts.new}</td>
+                    <td className="py-2 text-right text-green-600 dark:text-green-400">{counts.resolved}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Veränderte Seiten ({pages.changed.length})</CardTitle>
+          <CardDescription>Größte Verschlechterungen zuerst</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pages.changed.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Keine Veränderungen auf gemeinsamen Seiten.</p>
+          ) : (
+            <div className="divide-y">
+              {pages.changed.map((page) => (
+                <div key={page.target_page_id} className="space-y-2 py-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <Link to={`/audits/${target.id}/pages/${page.target_page_id}`} className="min-w-0 hover:underline">
+                      <div className="truncate text-sm font-medium">{page.title || 'Ohne Titel'}</div>
+                      <div className="truncate text-xs text-muted-foreground">{page.url}</div>
+                    </Link>
+                    <div className="flex shrink-0 items-center gap-2 text-sm">
+                      <ScoreIndicator score={page.base_score} />
+                      <span className="text-muted-foreground">→</span>
+                      <ScoreIndicator score={page.target_score} />
+                      <span className="w-10 text-right">
+                        <Delta value={page.score_delta} />
+                      </span>
+                    </div>
+                  </div>
+                  {(page.new_issues.length > 0 || page.resolved_issues.length > 0) && (
+                    <div className="space-y-1 pl-2">
+                      {page.new_issues.map((issue, index) => (
+                        <IssueLine key={`new-${index}`} issue={issue} />
+                      ))}
+                      {page.resolved_issues.map((issue, index) => (
+                        <IssueLine key={`resolved-${index}`} issue={issue} resolved />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {pages.added.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Neue Seiten ({pages.added.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PageList pages={pages.added} auditId={target.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {pages.removed.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Entfallene Seiten ({pages.removed.length})</CardTitle>
+            <CardDescription>Nur im früheren Lauf enthalten</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PageList pages={pages.removed} auditId={base.id} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
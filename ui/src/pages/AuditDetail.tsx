@@ -1,38 +1,85 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { api, type AuditProgress, type AuditPagesResponse } from '@/lib/serverComm';
+import { Link, useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  api,
+  LANGUAGE_LABELS,
+  ISSUE_STATUS_LABELS,
+  type AuditIssue,
+  type AuditProgress,
+  type AuditPagesResponse,
+  type DuplicateCluster,
+  type IssueStatus,
+  type QueueStatus,
+} from '@/lib/serverComm';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AuditProgress as ProgressComponent } from '@/components/audit-progress';
 import { AuditTable } from '@/components/audit-table';
-import { ArrowLeft, Download, RefreshCw } from 'lucide-react';
+import { DuplicateClusters } from '@/components/duplicate-clusters';
+import { TriageToolbar } from '@/components/issue-triage';
+import { useIssueTypes } from '@/hooks/use-issue-types';
+import { useTeamMembers, teamMemberName } from '@/hooks/use-team-members';
+import { useAuth } from '@/lib/auth-context';
+import { ArrowDown, ArrowLeft, ArrowUp, Download, GitCompare, Pause, Play, RefreshCw, Repeat, Square } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 
+// Estimated time until the audit's queued jobs are done
+const formatQueueEta = (queue: QueueStatus) => {
+  if (queue.eta_seconds === null) return 'unbekannt';
+  if (queue.eta_seconds < 60) return 'unter einer Minute';
+  const minutes = Math.round(queue.eta_seconds / 60);
+  if (minutes < 120) return `ca. ${minutes} Min.`;
+  return `ca. ${Math.round(minutes / 60)} Std.`;
+};
+
 export function AuditDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [progress, setProgress] = useState<AuditProgress | null>(null);
   const [pages, setPages] = useState<AuditPagesResponse | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateCluster[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [rerunning, setRerunning] = useState(false);
+  const [controlling, setControlling] = useState(false);
+  const [changingPriority, setChangingPriority] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
-  const [issueTypeFilter, setIssueTypeFilter] = useState<string>('');
-  const [minScoreFilter, setMinScoreFilter] = useState<string>('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [issueTypeFilter, setIssueTypeFilter] = useState<string>(searchParams.get('issue_type') || '');
+  const [minScoreFilter, setMinScoreFilter] = useState<string>(searchParams.get('min_score') || '');
+  const [statusFilter, setStatusFilter] = useState<string>(searchParams.get('status') || '');
+  const [assigneeFilter, setAssigneeFilter] = useState<string>(searchParams.get('assignee_id') || '');
+  const [selectedIssueIds, setSelectedIssueIds] = useState<Set<string>>(new Set());
+  const issueTypes = useIssueTypes();
+  const teamMembers = useTeamMembers();
+  const { userProfile } = useAuth();
+
+  // Filters are kept in the URL, so the page view (prev/next) and its back link use them too
+  const filterParams = new URLSearchParams();
+  if (issueTypeFilter) filterParams.set('issue_type', issueTypeFilter);
+  if (minScoreFilter) filterParams.set('min_score', minScoreFilter);
+  if (statusFilter) filterParams.set('status', statusFilter);
+  if (assigneeFilter) filterParams.set('assignee_id', assigneeFilter);
+  const filterSearch = filterParams.toString();
+
+  useEffect(() => {
+    setSearchParams(new URLSearchParams(filterSearch), { replace: true });
+  }, [filterSearch, setSearchParams]);
 
   useEffect(() => {
     if (id) {
       loadData();
       // Auto-refresh every 5 seconds if audit is not completed
       const interval = setInterval(() => {
-        if (progress && progress.audit.status !== 'completed' && progress.audit.status !== 'failed') {
+        if (progress && !['completed', 'failed', 'cancelled'].includes(progress.audit.status)) {
           loadData(true);
         }
       }, 5000);
       return () => clearInterval(interval);
     }
-  }, [id, page, issueTypeFilter, minScoreFilter]);
+  }, [id, page, issueTypeFilter, minScoreFilter, statusFilter, assigneeFilter]);
 
   const loadData = async (silent = false) => {
     if (!id) return;
@@ -41,7 +88,7 @@ export function AuditDetail() {
       if (!silent) setLoading(true);
       setRefreshing(silent);
 
-      const [progressData, pagesData] = await Promise.all([
+      const [progressData, pagesData, duplicatesData] = await Promise.all([
         api.getAudit(id),
         api.getAuditPages(
           id,
@@ -50,12 +97,16 @@ export function AuditDetail() {
           {
             issue_type: issueTypeFilter || undefined,
             min_score: minScoreFilter ? parseInt(minScoreFilter) : undefined,
+            status: (statusFilter as IssueStatus) || undefined,
+            assignee_id: assigneeFilter || undefined,
           }
         ),
+        api.getAuditDuplicates(id),
       ]);
 
       setProgress(progressData);
       setPages(pagesData);
+      setDuplicates(duplicatesData.clusters);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Fehler beim Laden der Daten');
@@ -66,6 +117,86 @@ export function AuditDetail() {
     }
   };
 
+  // Triaged issues are replaced in place; the list is filtered again on the next load
+  const handleIssuesUpdated = (updated: AuditIssue[]) => {
+    const byId = new Map(updated.map((issue) => [issue.id, issue]));
+    setPages((current) =>
+      current && {
+        ...current,
+        pages: current.pages.map((auditPage) => ({
+          ...auditPage,
+          issues: auditPage.issues?.map((issue) => byId.get(issue.id) || issue),
+        })),
+      }
+    );
+  };
+
+  const handleIssueSelectedChange = (issueId: string, selected: boolean) => {
+    setSelectedIssueIds((current) => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(issueId);
+      } else {
+        next.delete(issueId);
+      }
+      return next;
+    });
+  };
+
+  const handleRerun = async () => {
+    if (!id) return;
+
+    try {
+      setRerunning(true);
+      const result = await api.rerunAudit(id);
+      navigate(`/audits/${result.id}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Fehler beim erneuten Starten des Audits');
+      console.error('Error re-running audit:', err);
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const handleControl = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!id) return;
+    if (action === 'cancel' && !confirm('Audit abbrechen? Noch nicht verarbeitete Seiten werden nicht mehr geprüft.')) {
+      return;
+    }
+
+    try {
+      setControlling(true);
+      if (action === 'pause') {
+        await api.pauseAudit(id);
+      } else if (action === 'resume') {
+        await api.resumeAudit(id);
+      } else {
+        await api.cancelAudit(id);
+      }
+      await loadData(true);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Fehler beim Ändern des Audit-Status');
+      console.error(`Error (${action}) audit:`, err);
+    } finally {
+      setControlling(false);
+    }
+  };
+
+  const handlePriority = async (priority: number) => {
+    if (!id) return;
+
+    try {
+      setChangingPriority(true);
+      await api.setAuditPriority(id, priority);
+      await loadData(true);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Fehler beim Ändern der Priorität');
+      console.error('Error changing audit priority:', err);
+    } finally {
+      setChangingPriority(false);
+    }
+  };
+
   const handleExport = async () => {
     if (!id) return;
 
@@ -114,6 +245,8 @@ export function AuditDetail() {
     return null;
   }
 
+  const isRunning = ['pending', 'crawling', 'analyzing'].includes(progress.audit.status);
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -125,6 +258,34 @@ export function AuditDetail() {
           Zurück
         </Button>
         <div className="flex gap-2">
+          {isRunning && (
+            <Button variant="outline" onClick={() => handleControl('pause')} disabled={controlling}>
+              <Pause className="h-4 w-4 mr-2" />
+              Pausieren
+            </Button>
+          )}
+          {progress.audit.status === 'paused' && (
+            <Button variant="outline" onClick={() => handleControl('resume')} disabled={controlling}>
+              <Play className="h-4 w-4 mr-2" />
+              Fortsetzen
+            </Button>
+          )}
+          {(isRunning || progress.audit.status === 'paused') && (
+            <Button variant="outline" onClick={() => handleControl('cancel')} disabled={controlling}>
+              <Square className="h-4 w-4 mr-2" />
+              Abbrechen
+            </Button>
+          )}
+          {progress.audit.previous_audit_id && (
+            <Button variant="outline" onClick={() => navigate(`/audits/${id}/compare`)}>
+              <GitCompare className="h-4 w-4 mr-2" />
+              Vergleich
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleRerun} disabled={rerunning}>
+            <Repeat className="h-4 w-4 mr-2" />
+            Erneut prüfen
+          </Button>
           <Button
             variant="outline"
             onClick={handleExport}
@@ -149,17 +310,129 @@ export function AuditDetail() {
           <CardTitle>Audit Details</CardTitle>
           <CardDescription>{progress.audit.sitemap_url}</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {progress.audit.status === 'paused' && (
+            <p className="text-sm text-blue-600 dark:text-blue-400">
+              Pausiert – noch ausstehende Seiten werden erst nach dem Fortsetzen verarbeitet
+            </p>
+          )}
+          {progress.audit.status === 'cancelled' && (
+            <p className="text-sm text-muted-foreground">Abgebrochen – die bis dahin verarbeiteten Seiten bleiben erhalten</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Crawler: {progress.audit.crawler_backend === 'html' ? 'Direkter HTML-Abruf' : 'Jina Reader API'}
+          </p>
+          {progress.audit.schedule_id && (
+            <p className="text-xs text-muted-foreground">
+              Automatisch gestartet durch einen <Link to="/schedules" className="hover:underline">Zeitplan</Link>
+            </p>
+          )}
+          {progress.audit.ai_model && (
+            <p className="text-xs text-muted-foreground">
+              KI-Modell: {progress.audit.ai_provider === 'anthropic' ? 'Anthropic' : 'OpenAI'} / {progress.audit.ai_model}
+              {progress.audit.ai_base_url && ` (${progress.audit.ai_base_url})`}
+              {progress.audit.ai_temperature !== null && ` · Temperatur ${Math.round(progress.audit.ai_temperature * 100) / 100}`}
+              {progress.audit.ai_max_tokens !== null && ` · max. ${progress.audit.ai_max_tokens} Tokens`}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Prompt: {progress.prompt ? `${progress.prompt.name} (Version ${progress.prompt.version})` : 'Eingebauter Prompt'}
+          </p>
+          {progress.rejected_ai_issues > 0 && (
+            <p className="text-xs text-orange-600 dark:text-orange-400">
+              {progress.rejected_ai_issues} KI-Funde verworfen, weil sie nicht dem erwarteten Format entsprachen
+            </p>
+          )}
+          {progress.audit.target_language && (
+            <p className="text-xs text-muted-foreground">
+              Nur Seiten in Sprache: {LANGUAGE_LABELS[progress.audit.target_language]}
+            </p>
+          )}
+          {progress.audit.modified_since && (
+            <p className="text-xs text-muted-foreground">
+              Nur Seiten geändert seit {new Date(progress.audit.modified_since).toLocaleDateString('de-DE')}
+            </p>
+          )}
+          {progress.audit.url_filter && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              {progress.audit.url_filter.include && (
+                <span>Einschließen: {progress.audit.url_filter.include.join(', ')}</span>
+              )}
+              {progress.audit.url_filter.exclude && (
+                <span>Ausschließen: {progress.audit.url_filter.exclude.join(', ')}</span>
+              )}
+              {progress.audit.url_filter.max_urls && (
+                <span>
+                  Max. {progress.audit.url_filter.max_urls} URLs
+                  {progress.audit.url_filter.sample &&
+                    ` (Stichprobe, Pfadebene ${progress.audit.url_filter.sample_depth || 1})`}
+                </span>
+              )}
+            </div>
+          )}
+          {progress.queue && (
+            <p className="text-xs text-muted-foreground">
+              {progress.queue.position !== null && (
+                <>
+                  Warteschlange: Position {progress.queue.position} von {progress.queue.audits_in_queue}
+                  {' · '}
+                </>
+              )}
+              {progress.queue.queued_jobs} Jobs wartend, {progress.queue.running_jobs} in Bearbeitung
+              {' · '}
+              Restdauer: {formatQueueEta(progress.queue)}
+            </p>
+          )}
+          {userProfile?.is_admin && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>Priorität: {progress.audit.priority}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2"
+                onClick={() => handlePriority(progress.audit.priority + 1)}
+                disabled={changingPriority || progress.audit.priority >= 10}
+                title="Priorität erhöhen"
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2"
+                onClick={() => handlePriority(progress.audit.priority - 1)}
+                disabled={changingPriority || progress.audit.priority <= -10}
+                title="Priorität senken"
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
           <ProgressComponent
             total={progress.progress.total}
             completed={progress.progress.completed}
             failed={progress.progress.failed}
+            skipped={progress.progress.skipped}
             pending={progress.progress.pending}
             percentage={progress.progress.percentage}
           />
         </CardContent>
       </Card>
 
+      {duplicates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Doppelte Inhalte</CardTitle>
+            <CardDescription>
+              Gruppen von Seiten mit nahezu identischem Inhalt
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DuplicateClusters clusters={duplicates} />
+          </CardContent>
+        </Card>
+      )}
+
       {pages && (
         <>
           <Card>
@@ -174,12 +447,19 @@ export function AuditDetail() {
                 <div className="flex gap-4">
                   <div className="flex-1">
                     <Label htmlFor="issue-type-filter">Issue-Typ filtern</Label>
-                    <Input
+                    <select
                       id="issue-type-filter"
-                      placeholder="z.B. grammar, redundancy..."
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
                       value={issueTypeFilter}
                       onChange={(e) => setIssueTypeFilter(e.target.value)}
-                    />
+                    >
+                      <option value="">Alle Issue-Typen</option>
+                      {issueTypes.map((issueType) => (
+                        <option key={issueType.key} value={issueType.key}>
+                          {issueType.label}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                   <div className="flex-1">
                     <Label htmlFor="min-score-filter">Mindest-Score</Label>
@@ -194,13 +474,61 @@ export function AuditDetail() {
                     />
                   </div>
                 </div>
+                <div className="flex gap-4">
+                  <div className="flex-1">
+                    <Label htmlFor="status-filter">Status</Label>
+                    <select
+                      id="status-filter"
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                      value={statusFilter}
+                      onChange={(e) => setStatusFilter(e.target.value)}
+                    >
+                      <option value="">Alle Status</option>
+                      {(Object.keys(ISSUE_STATUS_LABELS) as IssueStatus[]).map((status) => (
+                        <option key={status} value={status}>
+                          {ISSUE_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <Label htmlFor="assignee-filter">Zuständig</Label>
+                    <select
+                      id="assignee-filter"
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                      value={assigneeFilter}
+                      onChange={(e) => setAssigneeFilter(e.target.value)}
+                    >
+                      <option value="">Alle</option>
+                      <option value="none">Nicht zugewiesen</option>
+                      {teamMembers.map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {teamMemberName(member)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <TriageToolbar
+                  auditId={id!}
+                  selectedIds={Array.from(selectedIssueIds)}
+                  onUpdated={handleIssuesUpdated}
+                  onClear={() => setSelectedIssueIds(new Set())}
+                />
               </div>
               {pages.pages.length === 0 ? (
                 <p className="text-muted-foreground text-center py-8">
                   Keine Seiten gefunden
                 </p>
               ) : (
-                <AuditTable pages={pages.pages} />
+                <AuditTable
+                  auditId={id!}
+                  pages={pages.pages}
+                  filterSearch={filterSearch}
+                  selectedIssueIds={selectedIssueIds}
+                  onIssueSelectedChange={handleIssueSelectedChange}
+                  onIssueUpdated={(issue) => handleIssuesUpdated([issue])}
+                />
               )}
             </CardContent>
           </Card>
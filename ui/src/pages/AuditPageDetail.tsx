@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { api, type PageDetail, type AuditIssue, type IssueStatus } from '@/lib/serverComm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScoreIndicator } from '@/components/score-indicator';
+import { PageStatus } from '@/components/page-status';
+import { PageMetadata } from '@/components/page-metadata';
+import { IssueCard } from '@/components/issue-card';
+import { TriageToolbar } from '@/components/issue-triage';
+import { HighlightedContent } from '@/components/page-content';
+import { ArrowLeft, ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
+
+const SEVERITY_LABELS: Record<AuditIssue['severity'], string> = {
+  high: 'Hoch',
+  medium: 'Mittel',
+  low: 'Niedrig',
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString('de-DE') : 'N/A');
+
+export function AuditPageDetail() {
+  const { id, pageId } = useParams<{ id: string; pageId: string }>();
+  const navigate = useNavigate();
+  // Filters of the audit's page list, prev/next stays within the filtered pages
+  const [searchParams] = useSearchParams();
+  const search = searchParams.toString() ? `?${searchParams.toString()}` : '';
+  const [detail, setDetail] = useState<PageDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIssueIds, setSelectedIssueIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!id || !pageId) return;
+
+    let active = true;
+    setLoading(true);
+    api
+      .getPageDetail(id, pageId, {
+        issue_type: searchParams.get('issue_type') || undefined,
+        min_score: searchParams.get('min_score') ? parseInt(searchParams.get('min_score')!) : undefined,
+        status: (searchParams.get('status') as IssueStatus) || undefined,
+        assignee_id: searchParams.get('assignee_id') || undefined,
+      })
+      .then((data) => {
+        if (!active) return;
+        setDetail(data);
+        setSelectedIssueIds(new Set());
+        setError(null);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Fehler beim Laden der Seite');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [id, pageId, searchParams]);
+
+  const handleIssuesUpdated = (updated: AuditIssue[]) => {
+    const byId = new Map(updated.map((issue) => [issue.id, issue]));
+    setDetail((current) => current && { ...current, issues: current.issues.map((issue) => byId.get(issue.id) || issue) });
+  };
+
+  const handleIssueSelectedChange = (issueId: string, selected: boolean) => {
+    setSelectedIssueIds((current) => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(issueId);
+      } else {
+        next.delete(issueId);
+      }
+      return next;
+    });
+  };
+
+  const goToPage = (targetId: string | null) => {
+    if (targetId) navigate(`/audits/${id}/pages/${targetId}${search}`);
+  };
+
+  if (loading && !detail) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card className="border-destructive">
+          <CardContent className="pt-6">
+            <p className="text-destructive">{error || 'Seite nicht gefunden'}</p>
+            <Button onClick={() => navigate(`/audits/${id}${search}`)} className="mt-4">
+              Zurück zum Audit
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { page, issues, score_breakdown, navigation } = detail;
+  const totalDeduction = Object.values(score_breakdown).reduce((sum, entry) => sum + entry.deduction, 0);
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={() => navigate(`/audits/${id}${search}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Zurück zum Audit
+        </Button>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {navigation.position !== null
+              ? `Seite ${navigation.position} von ${navigation.total}`
+              : 'Seite entspricht nicht den Filtern'}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => goToPage(navigation.prev_id)}
+            disabled={!navigation.prev_id || loading}
+            title="Vorherige Seite"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => goToPage(navigation.next_id)}
+            disabled={!navigation.next_id || loading}
+            title="Nächste Seite"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <CardTitle>{page.title || 'Ohne Titel'}</CardTitle>
+              <CardDescription>
+                <a
+                  href={page.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 break-all hover:underline"
+                >
+                  {page.url}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="text-right">
+                <div className="text-xs text-muted-foreground">Status</div>
+                <PageStatus status={page.status} className="text-sm font-medium" />
+              </div>
+              <div className="text-right">
+                <div className="text-xs text-muted-foreground">Score</div>
+                <ScoreIndicator score={page.quality_score} />
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+            <div>
+              <div className="text-muted-foreground">Erfasst</div>
+              <div className="font-medium">{formatDate(page.created_at)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Analysiert</div>
+              <div className="font-medium">{formatDate(page.analyzed_at)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Geändert (Sitemap)</div>
+              <div className="font-medium">
+                {page.lastmod ? new Date(page.lastmod).toLocaleDateString('de-DE') : 'N/A'}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Priorität (Sitemap)</div>
+              <div className="font-medium">{page.priority ?? 'N/A'}</div>
+            </div>
+          </div>
+
+          {page.error_message && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              <strong>Fehler:</strong> {page.error_message}
+            </div>
+          )}
+
+          {page.http_status !== null && <PageMetadata page={page} className="rounded-md border p-3" />}
+        </CardContent>
+      </Card>
+
+      {page.quality_score !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Score-Berechnung</CardTitle>
+            <CardDescription>100 Punkte abzüglich der Punkte je Problem nach Schweregrad</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <tbody className="divide-y">
+                {(['high', 'medium', 'low'] as const).map((severity) => (
+                  <tr key={severity}>
+                    <td className="py-2">{SEVERITY_LABELS[severity]}</td>
+                    <td className="py-2 text-right text-muted-foreground">{score_breakdown[severity].count} ×</td>
+                    <td className="py-2 text-right font-medium">−{score_breakdown[severity].deduction}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 font-medium" colSpan={2}>
+                    Score (min. 0)
+                  </td>
+                  <td className="py-2 text-right font-medium">{Math.max(0, 100 - totalDeduction)}</td>
+                </tr>
+              </tbody>
+            </table>
+            {page.rejected_ai_issues > 0 && (
+              <p className="mt-2 text-xs text-orange-600 dark:text-orange-400">
+                {page.rejected_ai_issues} KI-Funde verworfen, weil sie nicht dem erwarteten Format entsprachen
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Probleme ({issues.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Keine Probleme gefunden. ✅</p>
+          ) : (
+            <>
+              <TriageToolbar
+                auditId={id!}
+                selectedIds={Array.from(selectedIssueIds)}
+                onUpdated={handleIssuesUpdated}
+                onClear={() => setSelectedIssueIds(new Set())}
+              />
+              {issues.map((issue) => (
+                <IssueCard
+                  key={issue.id}
+                  issue={issue}
+                  auditId={id}
+                  onUpdated={(updated) => handleIssuesUpdated([updated])}
+                  selected={selectedIssueIds.has(issue.id)}
+                  onSelectedChange={(selected) => handleIssueSelectedChange(issue.id, selected)}
+                />
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {page.content !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Inhalt</CardTitle>
+            <CardDescription>Gecrawlter Inhalt, Fundstellen markiert – Klick zeigt Problem und Vorschlag</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <HighlightedContent content={page.content} issues={issues} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -55,6 +55,8 @@ export function Audits() {
       case 'crawling':
       case 'analyzing':
         return 'text-yellow-600 dark:text-yellow-400';
+      case 'paused':
+        return 'text-blue-600 dark:text-blue-400';
       default:
         return 'text-muted-foreground';
     }
@@ -72,6 +74,10 @@ export function Audits() {
         return 'Abgeschlossen';
       case 'failed':
         return 'Fehler';
+      case 'paused':
+        return 'Pausiert';
+      case 'cancelled':
+        return 'Abgebrochen';
       default:
         return status;
     }
@@ -146,6 +152,7 @@ export function Audits() {
                         addSuffix: true,
                         locale: de,
                       })}
+                      {audit.previous_audit_id && ' · Erneuter Lauf'}
                     </CardDescription>
                   </div>
                   <div className="flex items-center gap-4">
@@ -179,6 +186,14 @@ export function Audits() {
                   >
                     Details anzeigen
                   </Button>
+                  {audit.previous_audit_id && (
+                    <Button
+                      variant="outline"
+                      onClick={() => navigate(`/audits/${audit.id}/compare`)}
+                    >
+                      Mit vorherigem Lauf vergleichen
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { api, type Job, type JobType } from '@/lib/serverComm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  crawl_page: 'Seite crawlen',
+  analyze_page: 'Seite analysieren',
+  analyze_audit: 'Seitenübergreifende Analyse',
+  schedule_audit: 'Geplanter Audit',
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString('de-DE') : '–');
+
+function JobTarget({ job }: { job: Job }) {
+  const { audit_id, page_id, url } = job.payload;
+
+  if (audit_id && page_id) {
+    return (
+      <Link to={`/audits/${audit_id}/pages/${page_id}`} className="break-all hover:underline">
+        {url || 'Seite'}
+      </Link>
+    );
+  }
+  if (audit_id) {
+    return (
+      <Link to={`/audits/${audit_id}`} className="hover:underline">
+        Audit
+      </Link>
+    );
+  }
+  if (job.payload.schedule_id) {
+    return (
+      <Link to="/schedules" className="hover:underline">
+        Zeitplan
+      </Link>
+    );
+  }
+  return <span className="text-muted-foreground">–</span>;
+}
+
+export function Jobs() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await api.getDeadJobs();
+      setJobs(data.jobs);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Jobs');
+      console.error('Error loading dead jobs:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleRetry = async (job: Job) => {
+    try {
+      setRetryingId(job.id);
+      await api.retryJob(job.id);
+      setJobs((current) => current.filter((item) => item.id !== job.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim erneuten Einreihen des Jobs');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Fehlgeschlagene Jobs</h1>
+          <p className="text-muted-foreground">
+            Jobs mit dauerhaftem Fehler oder ohne verbleibende Versuche (die letzten 100)
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadJobs} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Aktualisieren
+        </Button>
+      </div>
+
+      {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+
+      {!loading && jobs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">Keine fehlgeschlagenen Jobs.</CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {jobs.map((job) => (
+            <Card key={job.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <CardTitle className="text-base">{JOB_TYPE_LABELS[job.job_type]}</CardTitle>
+                    <CardDescription>
+                      <JobTarget job={job} />
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRetry(job)}
+                    disabled={retryingId === job.id}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Erneut versuchen
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="rounded-md bg-muted p-2 font-mono text-xs break-all">{job.last_error || 'Kein Fehler gespeichert'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {job.attempts < job.max_attempts
+                    ? 'Dauerhafter Fehler, nicht wiederholt'
+                    : `Alle ${job.max_attempts} Versuche fehlgeschlagen`}
+                  {' · '}
+                  Fehlgeschlagen: {formatDate(job.processed_at)}
+                  {job.locked_by && ` · Worker ${job.locked_by}`}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,62 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { api } from '@/lib/serverComm';
+import {
+  api,
+  LANGUAGE_LABELS,
+  type AiProvider,
+  type AiSettingsInput,
+  type CrawlerBackend,
+  type CreateAuditRequest,
+  type DiscoveredSitemap,
+  type Language,
+  type PromptTemplateSummary,
+  type UrlFilterConfig,
+} from '@/lib/serverComm';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, Search } from 'lucide-react';
+
+type InputMode = 'domain' | 'sitemap';
 
 export function NewAudit() {
   const navigate = useNavigate();
+  const [mode, setMode] = useState<InputMode>('domain');
+  const [domain, setDomain] = useState('');
+  const [discoveredDomain, setDiscoveredDomain] = useState<string | null>(null);
+  const [discoveredSitemaps, setDiscoveredSitemaps] = useState<DiscoveredSitemap[]>([]);
+  const [selectedSitemaps, setSelectedSitemaps] = useState<Set<string>>(new Set());
+  const [discovering, setDiscovering] = useState(false);
   const [sitemapUrl, setSitemapUrl] = useState('');
   const [rateLimit, setRateLimit] = useState(1000);
+  const [crawlerBackend, setCrawlerBackend] = useState<CrawlerBackend>('jina');
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [maxUrls, setMaxUrls] = useState('');
+  const [sample, setSample] = useState(false);
+  const [sampleDepth, setSampleDepth] = useState(1);
+  const [modifiedSince, setModifiedSince] = useState('');
+  const [targetLanguage, setTargetLanguage] = useState<Language | ''>('');
+  const [aiProvider, setAiProvider] = useState<AiProvider | ''>('');
+  const [aiModel, setAiModel] = useState('');
+  const [aiBaseUrl, setAiBaseUrl] = useState('');
+  const [aiTemperature, setAiTemperature] = useState('');
+  const [aiMaxTokens, setAiMaxTokens] = useState('');
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [promptTemplateId, setPromptTemplateId] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    api
+      .getPromptTemplates()
+      .then((data) => setPromptTemplates(data.templates))
+      .catch((err) => console.error('Error loading prompt templates:', err));
+  }, []);
+
   const validateUrl = (url: string): boolean => {
     try {
       const parsed = new URL(url);
@@ -26,10 +69,134 @@ export function NewAudit() {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleDomainChange = (value: string) => {
+    setDomain(value);
+    // A changed domain invalidates the previous discovery result
+    setDiscoveredDomain(null);
+    setDiscoveredSitemaps([]);
+    setSelectedSitemaps(new Set());
+  };
+
+  const handleDiscover = async () => {
     setError(null);
 
+    if (!domain.trim()) {
+      setError('Bitte geben Sie eine Domain ein');
+      return;
+    }
+
+    try {
+      setDiscovering(true);
+      const result = await api.discoverSitemaps(domain.trim());
+      setDiscoveredDomain(result.domain);
+      setDiscoveredSitemaps(result.sitemaps);
+      setSelectedSitemaps(new Set(result.sitemaps.map((sitemap) => sitemap.url)));
+      if (result.sitemaps.length === 0) {
+        setError(`Keine Sitemaps für ${result.domain} gefunden`);
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Fehler bei der Sitemap-Suche'
+      );
+      console.error('Error discovering sitemaps:', err);
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  const toggleSitemap = (url: string) => {
+    const newSelected = new Set(selectedSitemaps);
+    if (newSelected.has(url)) {
+      newSelected.delete(url);
+    } else {
+      newSelected.add(url);
+    }
+    setSelectedSitemaps(newSelected);
+  };
+
+  const parsePatterns = (value: string): string[] =>
+    value
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+  const buildUrlFilter = (): UrlFilterConfig | undefined => {
+    const filter: UrlFilterConfig = {};
+    const include = parsePatterns(includePatterns);
+    const exclude = parsePatterns(excludePatterns);
+
+    if (include.length > 0) filter.include = include;
+    if (exclude.length > 0) filter.exclude = exclude;
+    if (maxUrls) {
+      filter.max_urls = parseInt(maxUrls);
+      if (sample) {
+        filter.sample = true;
+        filter.sample_depth = sampleDepth;
+      }
+    }
+
+    return Object.keys(filter).length > 0 ? filter : undefined;
+  };
+
+  // Empty fields use the server defaults
+  const buildAiSettings = (): AiSettingsInput | undefined => {
+    const settings: AiSettingsInput = {};
+    if (aiProvider) settings.provider = aiProvider;
+    if (aiModel.trim()) settings.model = aiModel.trim();
+    if (aiBaseUrl.trim()) settings.base_url = aiBaseUrl.trim();
+    if (aiTemperature !== '') settings.temperature = parseFloat(aiTemperature);
+    if (aiMaxTokens !== '') settings.max_tokens = parseInt(aiMaxTokens);
+
+    return Object.keys(settings).length > 0 ? settings : undefined;
+  };
+
+  const createAudit = async (source: CreateAuditRequest) => {
+    try {
+      setLoading(true);
+      const result = await api.createAudit({
+        ...source,
+        rate_limit_ms: rateLimit,
+        crawler_backend: crawlerBackend,
+        url_filter: buildUrlFilter(),
+        modified_since: modifiedSince ? new Date(modifiedSince).toISOString() : undefined,
+        ai_settings: buildAiSettings(),
+        target_language: targetLanguage || undefined,
+        prompt_template_id: promptTemplateId || undefined,
+      });
+      navigate(`/audits/${result.id}`);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Fehler beim Erstellen des Audits'
+      );
+      console.error('Error creating audit:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDomainSubmit = async () => {
+    // The first submit only runs the discovery so the sitemaps are shown before starting
+    if (!discoveredDomain) {
+      await handleDiscover();
+      return;
+    }
+
+    if (selectedSitemaps.size === 0) {
+      setError('Bitte wählen Sie mindestens eine Sitemap aus');
+      return;
+    }
+
+    await createAudit({
+      domain: discoveredDomain,
+      sitemap_urls: Array.from(selectedSitemaps),
+    });
+  };
+
+  const handleSitemapSubmit = async () => {
     if (!sitemapUrl.trim()) {
       setError('Bitte geben Sie eine Sitemap-URL ein');
       return;
@@ -54,22 +221,17 @@ export function NewAudit() {
       }
     }
 
-    try {
-      setLoading(true);
-      const result = await api.createAudit({
-        sitemap_url: sitemapUrl.trim(),
-        rate_limit_ms: rateLimit,
-      });
-      navigate(`/audits/${result.id}`);
-    } catch (err) {
-      setError(
-        err instanceof Error
-          ? err.message
-          : 'Fehler beim Erstellen des Audits'
-      );
-      console.error('Error creating audit:', err);
-    } finally {
-      setLoading(false);
+    await createAudit({ sitemap_url: sitemapUrl.trim() });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (mode === 'domain') {
+      await handleDomainSubmit();
+    } else {
+      await handleSitemapSubmit();
     }
   };
 
@@ -88,26 +250,90 @@ export function NewAudit() {
         <CardHeader>
           <CardTitle>Neuen Audit erstellen</CardTitle>
           <CardDescription>
-            Geben Sie die URL einer Sitemap.xml ein, um einen neuen Content-Quality-Audit zu starten
+            Geben Sie eine Domain oder die URL einer Sitemap.xml ein, um einen neuen Content-Quality-Audit zu starten
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="sitemap-url">Sitemap URL</Label>
-              <Input
-                id="sitemap-url"
-                type="url"
-                placeholder="https://example.com/sitemap.xml"
-                value={sitemapUrl}
-                onChange={(e) => setSitemapUrl(e.target.value)}
-                disabled={loading}
-                required
-              />
-              <p className="text-xs text-muted-foreground">
-                Die URL sollte auf eine XML-Sitemap oder einen Sitemap-Index zeigen
-              </p>
-            </div>
+            <Tabs value={mode} onValueChange={(value) => setMode(value as InputMode)}>
+              <TabsList>
+                <TabsTrigger value="domain" disabled={loading}>
+                  Domain
+                </TabsTrigger>
+                <TabsTrigger value="sitemap" disabled={loading}>
+                  Sitemap-URL
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="domain" className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="domain">Domain</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="domain"
+                      placeholder="example.com"
+                      value={domain}
+                      onChange={(e) => handleDomainChange(e.target.value)}
+                      disabled={loading || discovering}
+                      required={mode === 'domain'}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleDiscover}
+                      disabled={loading || discovering}
+                    >
+                      <Search className="h-4 w-4 mr-2" />
+                      {discovering ? 'Suche...' : 'Sitemaps suchen'}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Sitemaps werden aus der robots.txt und den üblichen Pfaden (/sitemap.xml, /sitemap_index.xml, /wp-sitemap.xml) ermittelt
+                  </p>
+                </div>
+
+                {discoveredSitemaps.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Gefundene Sitemaps</Label>
+                    <div className="rounded-md border p-3 space-y-2">
+                      {discoveredSitemaps.map((sitemap) => (
+                        <label
+                          key={sitemap.url}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedSitemaps.has(sitemap.url)}
+                            onChange={() => toggleSitemap(sitemap.url)}
+                            disabled={loading}
+                          />
+                          <span className="flex-1 break-all">{sitemap.url}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {sitemap.source === 'robots' ? 'robots.txt' : 'Standardpfad'}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="sitemap" className="space-y-2 pt-2">
+                <Label htmlFor="sitemap-url">Sitemap URL</Label>
+                <Input
+                  id="sitemap-url"
+                  type="url"
+                  placeholder="https://example.com/sitemap.xml"
+                  value={sitemapUrl}
+                  onChange={(e) => setSitemapUrl(e.target.value)}
+                  disabled={loading}
+                  required={mode === 'sitemap'}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Die URL sollte auf eine XML-Sitemap oder einen Sitemap-Index zeigen
+                </p>
+              </TabsContent>
+            </Tabs>
 
             <div className="space-y-2">
               <Label htmlFor="rate-limit">
@@ -128,6 +354,239 @@ export function NewAudit() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="crawler-backend">Crawler</Label>
+              <select
+                id="crawler-backend"
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                value={crawlerBackend}
+                onChange={(e) => setCrawlerBackend(e.target.value as CrawlerBackend)}
+                disabled={loading}
+              >
+                <option value="jina">Jina Reader API</option>
+                <option value="html">Direkter HTML-Abruf (lokale Extraktion)</option>
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Der direkte HTML-Abruf benötigt keinen externen Dienst und funktioniert auch für Intranet-Seiten
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="target-language">Sprache</Label>
+              <select
+                id="target-language"
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                value={targetLanguage}
+                onChange={(e) => setTargetLanguage(e.target.value as Language | '')}
+                disabled={loading}
+              >
+                <option value="">Alle Sprachen</option>
+                {(Object.keys(LANGUAGE_LABELS) as Language[]).map((language) => (
+                  <option key={language} value={language}>
+                    {LANGUAGE_LABELS[language]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Die Sprache wird pro Seite erkannt; Seiten in anderen Sprachen werden nach dem Crawlen übersprungen
+              </p>
+            </div>
+
+            <div className="space-y-4 rounded-md border p-4">
+              <div>
+                <h3 className="text-sm font-semibold">URL-Filter & Stichprobe</h3>
+                <p className="text-xs text-muted-foreground">
+                  Optional: Nur einen Teil der Sitemap-URLs prüfen. URLs werden nach Sitemap-Priorität gecrawlt.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="include-patterns">Einschließen</Label>
+                  <textarea
+                    id="include-patterns"
+                    className="flex min-h-20 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                    placeholder={'/produkte/**\n/(de|at)\\/.*/'}
+                    value={includePatterns}
+                    onChange={(e) => setIncludePatterns(e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="exclude-patterns">Ausschließen</Label>
+                  <textarea
+                    id="exclude-patterns"
+                    className="flex min-h-20 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                    placeholder={'/tag/*\n**/*.pdf'}
+                    value={excludePatterns}
+                    onChange={(e) => setExcludePatterns(e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Ein Muster pro Zeile. Glob-Muster (* = ein Pfadsegment, ** = beliebig) werden auf den Pfad angewendet, re:regex (oder re:/regex/i) auf die vollständige URL.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="max-urls">Maximale Anzahl URLs</Label>
+                  <Input
+                    id="max-urls"
+                    type="number"
+                    min="1"
+                    placeholder="Unbegrenzt"
+                    value={maxUrls}
+                    onChange={(e) => setMaxUrls(e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sample-depth">Gruppierung nach Pfadebene</Label>
+                  <Input
+                    id="sample-depth"
+                    type="number"
+                    min="1"
+                    max="5"
+                    value={sampleDepth}
+                    onChange={(e) => setSampleDepth(parseInt(e.target.value) || 1)}
+                    disabled={loading || !sample || !maxUrls}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sample"
+                  checked={sample}
+                  onCheckedChange={setSample}
+                  disabled={loading || !maxUrls}
+                />
+                <Label htmlFor="sample">
+                  Geschichtete Zufallsstichprobe statt der ersten URLs
+                </Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="modified-since">Nur Seiten geändert seit</Label>
+                <Input
+                  id="modified-since"
+                  type="date"
+                  value={modifiedSince}
+                  onChange={(e) => setModifiedSince(e.target.value)}
+                  disabled={loading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Nutzt das lastmod-Datum der Sitemap. Seiten ohne lastmod werden immer geprüft.
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-4 rounded-md border p-4">
+              <div>
+                <h3 className="text-sm font-semibold">KI-Modell</h3>
+                <p className="text-xs text-muted-foreground">
+                  Optional: Leere Felder nutzen die Server-Einstellungen. Die Auswahl wird am Audit gespeichert.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ai-provider">Anbieter</Label>
+                  <select
+                    id="ai-provider"
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                    value={aiProvider}
+                    onChange={(e) => setAiProvider(e.target.value as AiProvider | '')}
+                    disabled={loading}
+                  >
+                    <option value="">Standard</option>
+                    <option value="openai">OpenAI (oder kompatibler Server)</option>
+                    <option value="anthropic">Anthropic</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-model">Modell</Label>
+                  <Input
+                    id="ai-model"
+                    placeholder={aiProvider === 'anthropic' ? 'claude-3-haiku-20240307' : 'gpt-4o-mini'}
+                    value={aiModel}
+                    onChange={(e) => setAiModel(e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ai-base-url">Basis-URL</Label>
+                <Input
+                  id="ai-base-url"
+                  type="url"
+                  placeholder="http://localhost:8080/v1"
+                  value={aiBaseUrl}
+                  onChange={(e) => setAiBaseUrl(e.target.value)}
+                  disabled={loading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Für OpenAI-kompatible lokale Server (z.B. llama.cpp oder Ollama)
+                </p>
+              </div>
+
+              {promptTemplates.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-template">Prompt-Vorlage</Label>
+                  <select
+                    id="prompt-template"
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                    value={promptTemplateId}
+                    onChange={(e) => setPromptTemplateId(e.target.value)}
+                    disabled={loading}
+                  >
+                    <option value="">
+                      Standard ({promptTemplates.find((template) => template.is_default)?.name ?? 'eingebauter Prompt'})
+                    </option>
+                    {promptTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} (v{template.latest_version?.version ?? 0})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Vorlagen werden in den Einstellungen gepflegt; das Audit nutzt die aktuelle Version
+                  </p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ai-temperature">Temperatur</Label>
+                  <Input
+                    id="ai-temperature"
+                    type="number"
+                    min="0"
+                    max={aiProvider === 'anthropic' ? '1' : '2'}
+                    step="0.1"
+                    placeholder="0.3"
+                    value={aiTemperature}
+                    onChange={(e) => setAiTemperature(e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-max-tokens">Max. Tokens</Label>
+                  <Input
+                    id="ai-max-tokens"
+                    type="number"
+                    min="1"
+                    placeholder="4000"
+                    value={aiMaxTokens}
+                    onChange={(e) => setAiMaxTokens(e.target.value)}
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+            </div>
+
             {error && (
               <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
                 {error}
@@ -135,8 +594,12 @@ export function NewAudit() {
             )}
 
             <div className="flex gap-2">
-              <Button type="submit" disabled={loading}>
-                {loading ? 'Wird erstellt...' : 'Audit starten'}
+              <Button type="submit" disabled={loading || discovering}>
+                {loading
+                  ? 'Wird erstellt...'
+                  : mode === 'domain' && !discoveredDomain
+                  ? 'Sitemaps suchen'
+                  : 'Audit starten'}
               </Button>
               <Button
                 type="button"
@@ -153,4 +616,3 @@ export function NewAudit() {
     </div>
   );
 }
-
@@ -0,0 +1,579 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  api,
+  LANGUAGE_LABELS,
+  SCHEDULE_FREQUENCY_LABELS,
+  type AiSettingsInput,
+  type AuditSchedule,
+  type AuditScheduleInput,
+  type CrawlerBackend,
+  type Language,
+  type PromptTemplateSummary,
+  type ScheduleFrequency,
+  type ScheduleRun,
+  type UrlFilterConfig,
+} from '@/lib/serverComm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { CalendarClock, ChevronDown, ChevronRight, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const SELECT_CLASS_NAME =
+  'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50';
+
+const TEXTAREA_CLASS_NAME =
+  'flex min-h-20 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50';
+
+const AUDIT_STATUS_LABELS: Record<NonNullable<ScheduleRun['audit_status']>, string> = {
+  pending: 'Ausstehend',
+  crawling: 'Crawling',
+  analyzing: 'Analyse',
+  completed: 'Abgeschlossen',
+  failed: 'Fehlgeschlagen',
+  paused: 'Pausiert',
+  cancelled: 'Abgebrochen',
+};
+
+interface ScheduleForm {
+  name: string;
+  source: 'domain' | 'sitemap';
+  target: string;
+  frequency: ScheduleFrequency;
+  cronExpression: string;
+  rateLimit: string;
+  crawlerBackend: CrawlerBackend | '';
+  targetLanguage: Language | '';
+  promptTemplateId: string;
+  includePatterns: string;
+  excludePatterns: string;
+  maxUrls: string;
+  // Not editable here, kept when a schedule is saved again
+  sample?: Pick<UrlFilterConfig, 'sample' | 'sample_depth'>;
+  aiSettings?: AiSettingsInput;
+}
+
+const EMPTY_SCHEDULE_FORM: ScheduleForm = {
+  name: '',
+  source: 'domain',
+  target: '',
+  frequency: 'weekly',
+  cronExpression: '',
+  rateLimit: '1000',
+  crawlerBackend: '',
+  targetLanguage: '',
+  promptTemplateId: '',
+  includePatterns: '',
+  excludePatterns: '',
+  maxUrls: '',
+};
+
+const parsePatterns = (value: string): string[] =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+const toInput = (form: ScheduleForm, enabled: boolean): AuditScheduleInput => {
+  const urlFilter: UrlFilterConfig = {};
+  const include = parsePatterns(form.includePatterns);
+  const exclude = parsePatterns(form.excludePatterns);
+  if (include.length > 0) urlFilter.include = include;
+  if (exclude.length > 0) urlFilter.exclude = exclude;
+  if (form.maxUrls) {
+    urlFilter.max_urls = parseInt(form.maxUrls);
+    Object.assign(urlFilter, form.sample);
+  }
+
+  return {
+    name: form.name,
+    ...(form.source === 'domain' ? { domain: form.target.trim() } : { sitemap_url: form.target.trim() }),
+    frequency: form.frequency,
+    cron_expression: form.frequency === 'cron' ? form.cronExpression : undefined,
+    enabled,
+    rate_limit_ms: parseInt(form.rateLimit) || 1000,
+    crawler_backend: form.crawlerBackend || null,
+    url_filter: Object.keys(urlFilter).length > 0 ? urlFilter : undefined,
+    ai_settings: form.aiSettings,
+    target_language: form.targetLanguage || null,
+    prompt_template_id: form.promptTemplateId || null,
+  };
+};
+
+const toForm = (schedule: AuditSchedule): ScheduleForm => {
+  const aiSettings: AiSettingsInput = {};
+  if (schedule.ai_provider) aiSettings.provider = schedule.ai_provider;
+  if (schedule.ai_model) aiSettings.model = schedule.ai_model;
+  if (schedule.ai_base_url) aiSettings.base_url = schedule.ai_base_url;
+  if (schedule.ai_temperature !== null) aiSettings.temperature = schedule.ai_temperature;
+  if (schedule.ai_max_tokens !== null) aiSettings.max_tokens = schedule.ai_max_tokens;
+
+  return {
+    name: schedule.name,
+    source: schedule.discover_sitemaps ? 'domain' : 'sitemap',
+    target: schedule.sitemap_url,
+    frequency: schedule.frequency,
+    cronExpression: schedule.cron_expression || '',
+    rateLimit: String(schedule.rate_limit_ms),
+    crawlerBackend: schedule.crawler_backend || '',
+    targetLanguage: schedule.target_language || '',
+    promptTemplateId: schedule.prompt_template_id || '',
+    includePatterns: schedule.url_filter?.include?.join('\n') || '',
+    excludePatterns: schedule.url_filter?.exclude?.join('\n') || '',
+    maxUrls: schedule.url_filter?.max_urls ? String(schedule.url_filter.max_urls) : '',
+    sample: schedule.url_filter?.sample
+      ? { sample: true, sample_depth: schedule.url_filter.sample_depth }
+      : undefined,
+    aiSettings: Object.keys(aiSettings).length > 0 ? aiSettings : undefined,
+  };
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString('de-DE') : '–');
+
+function ScheduleRuns({ scheduleId }: { scheduleId: string }) {
+  const [runs, setRuns] = useState<ScheduleRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    api
+      .getSchedule(scheduleId)
+      .then((data) => {
+        if (active) setRuns(data.runs);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Fehler beim Laden des Verlaufs');
+      });
+    return () => {
+      active = false;
+    };
+  }, [scheduleId]);
+
+  if (error) {
+    return <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>;
+  }
+  if (!runs) {
+    return <p className="text-sm text-muted-foreground">Lade Verlauf...</p>;
+  }
+  if (runs.length === 0) {
+    return <p className="text-sm text-muted-foreground">Noch keine Läufe.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-muted-foreground">
+          <th className="py-2 font-normal">Geplant für</th>
+          <th className="py-2 font-normal">Ergebnis</th>
+          <th className="py-2 text-right font-normal">URLs</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y">
+        {runs.map((run) => (
+          <tr key={run.id}>
+            <td className="py-2 pr-4 whitespace-nowrap">{formatDate(run.scheduled_for)}</td>
+            <td className="py-2 pr-4">
+              {run.error ? (
+                <span className="text-destructive">Nicht gestartet: {run.error}</span>
+              ) : run.audit_id ? (
+                <Link to={`/audits/${run.audit_id}`} className="hover:underline">
+                  {run.audit_status ? AUDIT_STATUS_LABELS[run.audit_status] : 'Audit'}
+                </Link>
+              ) : (
+                <span className="text-muted-foreground">Audit gelöscht</span>
+              )}
+            </td>
+            <td className="py-2 text-right">{run.total_urls ?? '–'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function Schedules() {
+  const [schedules, setSchedules] = useState<AuditSchedule[]>([]);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ScheduleForm | null>(null); // null = form hidden
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const data = await api.getSchedules();
+      setSchedules(data.schedules);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden der Zeitpläne');
+      console.error('Error loading schedules:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+    api
+      .getPromptTemplates()
+      .then((data) => setPromptTemplates(data.templates))
+      .catch((err) => console.error('Error loading prompt templates:', err));
+  }, [loadSchedules]);
+
+  const openForm = (schedule?: AuditSchedule) => {
+    setForm(schedule ? toForm(schedule) : EMPTY_SCHEDULE_FORM);
+    setEditingId(schedule?.id ?? null);
+    setEnabled(schedule?.enabled ?? true);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim() || !form.target.trim()) {
+      setError('Bitte Name und Domain bzw. Sitemap-URL angeben');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await api.updateSchedule(editingId, toInput(form, enabled));
+      } else {
+        await api.createSchedule(toInput(form, enabled));
+      }
+      setForm(null);
+      setEditingId(null);
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern des Zeitplans');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: AuditSchedule, value: boolean) => {
+    try {
+      await api.updateSchedule(schedule.id, toInput(toForm(schedule), value));
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern des Zeitplans');
+    }
+  };
+
+  const handleDelete = async (schedule: AuditSchedule) => {
+    if (!confirm(`Zeitplan "${schedule.name}" löschen? Bereits erstellte Audits bleiben erhalten.`)) {
+      return;
+    }
+
+    try {
+      await api.deleteSchedule(schedule.id);
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Löschen des Zeitplans');
+    }
+  };
+
+  const updateForm = (changes: Partial<ScheduleForm>) => setForm((current) => current && { ...current, ...changes });
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Zeitpläne</h1>
+          <p className="text-muted-foreground">Audits regelmäßig automatisch starten</p>
+        </div>
+        {!form && (
+          <Button onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Neuer Zeitplan
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Zeitplan bearbeiten' : 'Neuer Zeitplan'}</CardTitle>
+            <CardDescription>
+              Jeder Lauf wird mit dem vorherigen Lauf des Zeitplans verknüpft und kann mit ihm verglichen werden
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="z.B. Shop wöchentlich"
+                disabled={saving}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-source">Quelle</Label>
+                <select
+                  id="schedule-source"
+                  className={SELECT_CLASS_NAME}
+                  value={form.source}
+                  onChange={(e) => updateForm({ source: e.target.value as ScheduleForm['source'] })}
+                  disabled={saving}
+                >
+                  <option value="domain">Domain (Sitemaps bei jedem Lauf suchen)</option>
+                  <option value="sitemap">Sitemap-URL</option>
+                </select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="schedule-target">{form.source === 'domain' ? 'Domain' : 'Sitemap URL'}</Label>
+                <Input
+                  id="schedule-target"
+                  value={form.target}
+                  onChange={(e) => updateForm({ target: e.target.value })}
+                  placeholder={form.source === 'domain' ? 'example.com' : 'https://example.com/sitemap.xml'}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-frequency">Häufigkeit</Label>
+                <select
+                  id="schedule-frequency"
+                  className={SELECT_CLASS_NAME}
+                  value={form.frequency}
+                  onChange={(e) => updateForm({ frequency: e.target.value as ScheduleFrequency })}
+                  disabled={saving}
+                >
+                  {(Object.keys(SCHEDULE_FREQUENCY_LABELS) as ScheduleFrequency[]).map((frequency) => (
+                    <option key={frequency} value={frequency}>
+                      {SCHEDULE_FREQUENCY_LABELS[frequency]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {form.frequency === 'cron' && (
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-cron">Cron-Ausdruck (UTC)</Label>
+                  <Input
+                    id="schedule-cron"
+                    value={form.cronExpression}
+                    onChange={(e) => updateForm({ cronExpression: e.target.value })}
+                    placeholder="0 6 * * 1-5"
+                    disabled={saving}
+                  />
+                  <p className="text-xs text-muted-foreground">Minute Stunde Tag Monat Wochentag, z.B. werktags 06:00</p>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-crawler">Crawler</Label>
+                <select
+                  id="schedule-crawler"
+                  className={SELECT_CLASS_NAME}
+                  value={form.crawlerBackend}
+                  onChange={(e) => updateForm({ crawlerBackend: e.target.value as CrawlerBackend | '' })}
+                  disabled={saving}
+                >
+                  <option value="">Standard</option>
+                  <option value="jina">Jina Reader API</option>
+                  <option value="html">Direkter HTML-Abruf</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-language">Sprache</Label>
+                <select
+                  id="schedule-language"
+                  className={SELECT_CLASS_NAME}
+                  value={form.targetLanguage}
+                  onChange={(e) => updateForm({ targetLanguage: e.target.value as Language | '' })}
+                  disabled={saving}
+                >
+                  <option value="">Alle Sprachen</option>
+                  {(Object.keys(LANGUAGE_LABELS) as Language[]).map((language) => (
+                    <option key={language} value={language}>
+                      {LANGUAGE_LABELS[language]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-rate-limit">Rate Limit (ms)</Label>
+                <Input
+                  id="schedule-rate-limit"
+                  type="number"
+                  min="0"
+                  value={form.rateLimit}
+                  onChange={(e) => updateForm({ rateLimit: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule-prompt">Prompt-Vorlage</Label>
+              <select
+                id="schedule-prompt"
+                className={SELECT_CLASS_NAME}
+                value={form.promptTemplateId}
+                onChange={(e) => updateForm({ promptTemplateId: e.target.value })}
+                disabled={saving}
+              >
+                <option value="">Standard (zum Zeitpunkt des Laufs)</option>
+                {promptTemplates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">Jeder Lauf verwendet die dann aktuelle Version der Vorlage</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-include">Einschließen</Label>
+                <textarea
+                  id="schedule-include"
+                  className={TEXTAREA_CLASS_NAME}
+                  placeholder="/produkte/**"
+                  value={form.includePatterns}
+                  onChange={(e) => updateForm({ includePatterns: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-exclude">Ausschließen</Label>
+                <textarea
+                  id="schedule-exclude"
+                  className={TEXTAREA_CLASS_NAME}
+                  placeholder="/tag/*"
+                  value={form.excludePatterns}
+                  onChange={(e) => updateForm({ excludePatterns: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-max-urls">Maximale Anzahl URLs</Label>
+                <Input
+                  id="schedule-max-urls"
+                  type="number"
+                  min="1"
+                  placeholder="Unbegrenzt"
+                  value={form.maxUrls}
+                  onChange={(e) => updateForm({ maxUrls: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="schedule-enabled" checked={enabled} onCheckedChange={setEnabled} disabled={saving} />
+              <Label htmlFor="schedule-enabled">Aktiv</Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Speichern...' : 'Speichern'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setForm(null);
+                  setEditingId(null);
+                }}
+                disabled={saving}
+              >
+                Abbrechen
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {schedules.length === 0 && !form ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <CalendarClock className="h-8 w-8 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground mb-4">Noch keine Zeitpläne vorhanden</p>
+            <Button onClick={() => openForm()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Ersten Zeitplan anlegen
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {schedules.map((schedule) => (
+            <Card key={schedule.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <CardTitle>{schedule.name}</CardTitle>
+                    <CardDescription className="break-all">{schedule.sitemap_url}</CardDescription>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.frequency === 'cron'
+                        ? `Cron: ${schedule.cron_expression} (UTC)`
+                        : SCHEDULE_FREQUENCY_LABELS[schedule.frequency]}
+                      {' · '}
+                      Nächster Lauf: {schedule.enabled ? formatDate(schedule.next_run_at) : 'pausiert'}
+                      {' · '}
+                      Letzter Lauf: {formatDate(schedule.last_run_at)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={(value) => handleToggle(schedule, value)}
+                      aria-label="Zeitplan aktiv"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => openForm(schedule)} title="Bearbeiten">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(schedule)} title="Löschen">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setExpandedId(expandedId === schedule.id ? null : schedule.id)}
+                >
+                  {expandedId === schedule.id ? (
+                    <ChevronDown className="h-4 w-4 mr-2" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 mr-2" />
+                  )}
+                  Verlauf
+                </Button>
+                {expandedId === schedule.id && <ScheduleRuns scheduleId={schedule.id} />}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
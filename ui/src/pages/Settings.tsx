@@ -5,7 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { User } from 'lucide-react';
+import { PromptTemplateManager } from '@/components/prompt-template-manager';
+import { StyleRuleManager } from '@/components/style-rule-manager';
+import { FileText, ListChecks, User } from 'lucide-react';
 
 export function Settings() {
   const { user } = useAuth();
@@ -73,6 +75,39 @@ export function Settings() {
             Save Changes
           </Button>
         </div>
+
+        {/* Prompt Templates (saved separately, each template on its own) */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Prompt-Vorlagen
+            </CardTitle>
+            <CardDescription>
+              Prompts für die KI-Analyse. Audits speichern die verwendete Version, damit Ergebnisse nachvollziehbar bleiben.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PromptTemplateManager />
+          </CardContent>
+        </Card>
+
+        {/* Custom checks (saved separately, each rule on its own) */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="w-5 h-5" />
+              Eigene Prüfungen
+            </CardTitle>
+            <CardDescription>
+              Styleguide-Regeln wie Anrede, verbotene Begriffe oder Produktschreibweisen. Begriffe und Muster werden
+              lokal geprüft, KI-Prüfungen im Analyse-Prompt ergänzt.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StyleRuleManager />
+          </CardContent>
+        </Card>
       </div>
     </div>
   );